@@ -0,0 +1,110 @@
+/*
+  요금제 고유 식별자(planKey) 도입 및 가격/스펙 변경 이력(plan_versions) 테이블 추가
+
+  - 기존에는 dataHash(스펙 해시) 기준 Upsert로 가격이 바뀔 때마다 새 행이 생성되었음
+  - planKey = sha256(sourceSite || '|' || COALESCE(detailUrl, planName)) 로 같은 요금제를 묶음
+  - 같은 planKey의 기존 행들은 plan_versions 이력으로 옮기고, 가장 최근 행만 raw_plans에 남김
+  - 이력은 남는 행과 같은 기준(updatedAt)으로 정렬하여 현재 버전(validTo IS NULL)이 남는 행과 일치
+    (A → B → A로 가격이 돌아오면 기존 dataHash Upsert는 처음 A 행을 갱신했으므로 createdAt 순서와 다름)
+  - 삭제되는 행에 연결된 랭킹 스냅샷은 남는 행으로 다시 연결
+*/
+
+-- CreateTable
+CREATE TABLE "plan_versions" (
+    "id" SERIAL NOT NULL,
+    "rawPlanId" INTEGER NOT NULL,
+    "dataHash" VARCHAR(64) NOT NULL,
+    "planName" VARCHAR(255) NOT NULL,
+    "mvno" VARCHAR(100) NOT NULL,
+    "network" VARCHAR(50) NOT NULL,
+    "technology" VARCHAR(50) NOT NULL,
+    "pricePromo" INTEGER NOT NULL,
+    "priceOriginal" INTEGER,
+    "promotionDurationMonths" INTEGER,
+    "promotionEndDate" TIMESTAMP(3),
+    "dataBaseGB" DOUBLE PRECISION NOT NULL,
+    "dataPostSpeedMbps" INTEGER,
+    "talkMinutes" INTEGER NOT NULL,
+    "smsCount" INTEGER NOT NULL,
+    "benefitSummary" TEXT,
+    "validFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validTo" TIMESTAMP(3),
+
+    CONSTRAINT "plan_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable: 먼저 NULL 허용으로 컬럼 추가
+ALTER TABLE "raw_plans" ADD COLUMN "planKey" VARCHAR(64);
+
+-- 기존 데이터의 planKey 계산 (CrawlerService.generatePlanKey와 동일한 규칙)
+UPDATE "raw_plans"
+SET "planKey" = encode(
+    sha256(convert_to("sourceSite" || '|' || COALESCE("detailUrl", "planName"), 'UTF8')),
+    'hex'
+);
+
+-- planKey별로 남길 행(가장 최근 갱신된 행) 계산
+CREATE TEMP TABLE "_plan_survivors" AS
+SELECT DISTINCT ON ("planKey") "planKey", "id" AS "survivorId"
+FROM "raw_plans"
+ORDER BY "planKey", "updatedAt" DESC, "id" DESC;
+
+-- 기존 행들을 이력으로 이동 (마지막 관측 순서대로 validFrom/validTo 연결)
+-- validFrom: 처음 생성 시각과 직전 버전의 마지막 관측 시각 중 늦은 값 (다시 돌아온 값은 직전 버전 이후부터 유효)
+INSERT INTO "plan_versions" (
+    "rawPlanId", "dataHash", "planName", "mvno", "network", "technology",
+    "pricePromo", "priceOriginal", "promotionDurationMonths", "promotionEndDate",
+    "dataBaseGB", "dataPostSpeedMbps", "talkMinutes", "smsCount", "benefitSummary",
+    "validFrom", "validTo"
+)
+SELECT
+    v."survivorId", v."dataHash", v."planName", v."mvno", v."network", v."technology",
+    v."pricePromo", v."priceOriginal", v."promotionDurationMonths", v."promotionEndDate",
+    v."dataBaseGB", v."dataPostSpeedMbps", v."talkMinutes", v."smsCount", v."benefitSummary",
+    v."validFrom",
+    LEAD(v."validFrom") OVER (PARTITION BY v."planKey" ORDER BY v."updatedAt", v."id")
+FROM (
+    SELECT
+        p.*,
+        s."survivorId",
+        GREATEST(
+            p."createdAt",
+            COALESCE(
+                LAG(p."updatedAt") OVER (PARTITION BY p."planKey" ORDER BY p."updatedAt", p."id"),
+                p."createdAt"
+            )
+        ) AS "validFrom"
+    FROM "raw_plans" p
+    JOIN "_plan_survivors" s ON s."planKey" = p."planKey"
+) v;
+
+-- 삭제될 행에 연결된 랭킹 스냅샷을 남는 행으로 재연결
+INSERT INTO "_RankedPlans" ("A", "B")
+SELECT r."A", s."survivorId"
+FROM "_RankedPlans" r
+JOIN "raw_plans" p ON p."id" = r."B"
+JOIN "_plan_survivors" s ON s."planKey" = p."planKey"
+WHERE p."id" <> s."survivorId"
+ON CONFLICT DO NOTHING;
+
+-- 중복 행 삭제
+DELETE FROM "raw_plans" p
+USING "_plan_survivors" s
+WHERE s."planKey" = p."planKey" AND p."id" <> s."survivorId";
+
+DROP TABLE "_plan_survivors";
+
+-- NOT NULL 제약 조건 추가
+ALTER TABLE "raw_plans" ALTER COLUMN "planKey" SET NOT NULL;
+
+-- DropIndex: dataHash는 더 이상 고유 키가 아님 (변경 감지용 일반 인덱스만 유지)
+DROP INDEX "public"."raw_plans_dataHash_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "raw_plans_planKey_key" ON "raw_plans"("planKey");
+
+-- CreateIndex
+CREATE INDEX "plan_versions_rawPlanId_validFrom_idx" ON "plan_versions"("rawPlanId", "validFrom" DESC);
+
+-- AddForeignKey
+ALTER TABLE "plan_versions" ADD CONSTRAINT "plan_versions_rawPlanId_fkey" FOREIGN KEY ("rawPlanId") REFERENCES "raw_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable: 판매 상태 컬럼 추가
+ALTER TABLE "raw_plans" ADD COLUMN     "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "isActive" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- 기존 데이터: 생성/수정 시각으로 최초/최종 확인 시각 설정
+UPDATE "raw_plans" SET "firstSeenAt" = "createdAt", "lastSeenAt" = "updatedAt";
+
+-- CreateIndex
+CREATE INDEX "raw_plans_sourceSite_isActive_idx" ON "raw_plans"("sourceSite", "isActive");
+
+-- CreateIndex
+CREATE INDEX "raw_plans_isActive_idx" ON "raw_plans"("isActive");
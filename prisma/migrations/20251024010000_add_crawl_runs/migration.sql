@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "CrawlRunStatus" AS ENUM ('RUNNING', 'SUCCESS', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "crawl_runs" (
+    "id" SERIAL NOT NULL,
+    "sourceSite" VARCHAR(100) NOT NULL,
+    "status" "CrawlRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "pagesVisited" INTEGER NOT NULL DEFAULT 0,
+    "cardsFound" INTEGER NOT NULL DEFAULT 0,
+    "plansParsed" INTEGER NOT NULL DEFAULT 0,
+    "upserts" INTEGER NOT NULL DEFAULT 0,
+    "parseErrors" INTEGER NOT NULL DEFAULT 0,
+    "deactivated" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+
+    CONSTRAINT "crawl_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "crawl_runs_sourceSite_startedAt_idx" ON "crawl_runs"("sourceSite", "startedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "crawl_runs_startedAt_idx" ON "crawl_runs"("startedAt" DESC);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "crawl_runs" ADD COLUMN "isDegraded" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "healthNote" TEXT,
+ADD COLUMN "acknowledgedAt" TIMESTAMP(3),
+ADD COLUMN "acknowledgedBy" VARCHAR(100);
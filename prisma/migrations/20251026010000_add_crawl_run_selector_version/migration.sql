@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "crawl_runs" ADD COLUMN "selectorProfileVersion" INTEGER;
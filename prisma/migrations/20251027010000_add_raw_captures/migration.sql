@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "raw_captures" (
+    "id" SERIAL NOT NULL,
+    "crawlRunId" INTEGER NOT NULL,
+    "sourceSite" VARCHAR(100) NOT NULL,
+    "rawPlanId" INTEGER,
+    "payload" JSONB NOT NULL,
+    "html" TEXT,
+    "capturedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "raw_captures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "raw_captures_crawlRunId_idx" ON "raw_captures"("crawlRunId");
+
+-- CreateIndex
+CREATE INDEX "raw_captures_rawPlanId_idx" ON "raw_captures"("rawPlanId");
+
+-- CreateIndex
+CREATE INDEX "raw_captures_capturedAt_idx" ON "raw_captures"("capturedAt");
+
+-- AddForeignKey
+ALTER TABLE "raw_captures" ADD CONSTRAINT "raw_captures_crawlRunId_fkey" FOREIGN KEY ("crawlRunId") REFERENCES "crawl_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "raw_captures" ADD CONSTRAINT "raw_captures_rawPlanId_fkey" FOREIGN KEY ("rawPlanId") REFERENCES "raw_plans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- 데이터 스펙 세분화: 매일 제공량, 소진 후 속도(기본/매일), 테더링/쉐어링
+-- 기존 dataBaseGB에는 매일 제공량(x30)이 합산되어 있을 수 있으므로,
+-- 배포 후 POST /crawler/reparse로 최근 크롤링 원본을 재파싱하여 보정합니다.
+
+-- AlterTable
+ALTER TABLE "raw_plans" ALTER COLUMN "dataPostSpeedMbps" SET DATA TYPE DOUBLE PRECISION,
+ADD COLUMN "dataDailyGB" DOUBLE PRECISION,
+ADD COLUMN "dataDailyPostSpeedMbps" DOUBLE PRECISION,
+ADD COLUMN "tetheringGB" DOUBLE PRECISION,
+ADD COLUMN "sharingGB" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "plan_versions" ALTER COLUMN "dataPostSpeedMbps" SET DATA TYPE DOUBLE PRECISION,
+ADD COLUMN "dataDailyGB" DOUBLE PRECISION,
+ADD COLUMN "dataDailyPostSpeedMbps" DOUBLE PRECISION,
+ADD COLUMN "tetheringGB" DOUBLE PRECISION,
+ADD COLUMN "sharingGB" DOUBLE PRECISION;
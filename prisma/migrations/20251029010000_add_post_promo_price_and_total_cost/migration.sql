@@ -0,0 +1,47 @@
+-- 프로모션 종료 후 요금 및 12/24개월 총 납부 요금
+-- 기존 데이터는 priceOriginal("N개월 이후 X원")을 프로모션 종료 후 요금으로 간주하여 채웁니다.
+
+-- AlterTable
+ALTER TABLE "raw_plans" ADD COLUMN "pricePostPromo" INTEGER,
+ADD COLUMN "totalCost12M" INTEGER,
+ADD COLUMN "totalCost24M" INTEGER;
+
+-- AlterTable
+ALTER TABLE "plan_versions" ADD COLUMN "pricePostPromo" INTEGER,
+ADD COLUMN "totalCost12M" INTEGER,
+ADD COLUMN "totalCost24M" INTEGER;
+
+-- Backfill: 프로모션이 없거나 평생 할인(999)이면 현재 요금 유지
+UPDATE "raw_plans" SET "pricePostPromo" = CASE
+    WHEN "promotionDurationMonths" IS NULL OR "promotionDurationMonths" >= 999 THEN "pricePromo"
+    ELSE COALESCE("priceOriginal", "pricePromo")
+END;
+
+UPDATE "plan_versions" SET "pricePostPromo" = CASE
+    WHEN "promotionDurationMonths" IS NULL OR "promotionDurationMonths" >= 999 THEN "pricePromo"
+    ELSE COALESCE("priceOriginal", "pricePromo")
+END;
+
+UPDATE "raw_plans" SET
+    "totalCost12M" = "pricePromo" * LEAST(COALESCE("promotionDurationMonths", 12), 12)
+        + "pricePostPromo" * (12 - LEAST(COALESCE("promotionDurationMonths", 12), 12)),
+    "totalCost24M" = "pricePromo" * LEAST(COALESCE("promotionDurationMonths", 24), 24)
+        + "pricePostPromo" * (24 - LEAST(COALESCE("promotionDurationMonths", 24), 24));
+
+UPDATE "plan_versions" SET
+    "totalCost12M" = "pricePromo" * LEAST(COALESCE("promotionDurationMonths", 12), 12)
+        + "pricePostPromo" * (12 - LEAST(COALESCE("promotionDurationMonths", 12), 12)),
+    "totalCost24M" = "pricePromo" * LEAST(COALESCE("promotionDurationMonths", 24), 24)
+        + "pricePostPromo" * (24 - LEAST(COALESCE("promotionDurationMonths", 24), 24));
+
+-- AlterTable: 값 채운 후 NOT NULL 적용
+ALTER TABLE "raw_plans" ALTER COLUMN "pricePostPromo" SET NOT NULL,
+ALTER COLUMN "totalCost12M" SET NOT NULL,
+ALTER COLUMN "totalCost24M" SET NOT NULL;
+
+ALTER TABLE "plan_versions" ALTER COLUMN "pricePostPromo" SET NOT NULL,
+ALTER COLUMN "totalCost12M" SET NOT NULL,
+ALTER COLUMN "totalCost24M" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "raw_plans_totalCost24M_idx" ON "raw_plans"("totalCost24M");
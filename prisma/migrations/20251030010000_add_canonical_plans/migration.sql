@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "canonical_plans" (
+    "id" SERIAL NOT NULL,
+    "canonicalKey" VARCHAR(64) NOT NULL,
+    "planName" VARCHAR(255) NOT NULL,
+    "mvno" VARCHAR(100) NOT NULL,
+    "network" VARCHAR(50) NOT NULL,
+    "technology" VARCHAR(50) NOT NULL,
+    "listingCount" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "canonical_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "raw_plans" ADD COLUMN "canonicalPlanId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "canonical_plans_canonicalKey_key" ON "canonical_plans"("canonicalKey");
+
+-- CreateIndex
+CREATE INDEX "raw_plans_canonicalPlanId_idx" ON "raw_plans"("canonicalPlanId");
+
+-- AddForeignKey
+ALTER TABLE "raw_plans" ADD CONSTRAINT "raw_plans_canonicalPlanId_fkey" FOREIGN KEY ("canonicalPlanId") REFERENCES "canonical_plans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
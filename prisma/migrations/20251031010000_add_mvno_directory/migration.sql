@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "mvnos" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "aliases" TEXT[],
+    "networks" TEXT[],
+    "homepageUrl" VARCHAR(500),
+    "logoUrl" VARCHAR(500),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "mvnos_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+-- 기존 요금제는 다음 크롤링(또는 POST /crawler/reparse) 시 정규화되어 연결됨
+ALTER TABLE "raw_plans" ADD COLUMN "mvnoId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mvnos_name_key" ON "mvnos"("name");
+
+-- CreateIndex
+CREATE INDEX "raw_plans_mvnoId_idx" ON "raw_plans"("mvnoId");
+
+-- AddForeignKey
+ALTER TABLE "raw_plans" ADD CONSTRAINT "raw_plans_mvnoId_fkey" FOREIGN KEY ("mvnoId") REFERENCES "mvnos"("id") ON DELETE SET NULL ON UPDATE CASCADE;
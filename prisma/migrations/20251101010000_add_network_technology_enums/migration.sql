@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "Network" AS ENUM ('SKT', 'KT', 'LG U+', 'Unknown');
+
+-- CreateEnum
+CREATE TYPE "Technology" AS ENUM ('LTE', '5G');
+
+-- 기존 자유 텍스트 정규화 함수 (crawler.utils.ts의 normalizeNetwork/normalizeTechnology와 동일한 규칙)
+CREATE FUNCTION "tmp_normalize_network"(value TEXT) RETURNS "Network" AS $$
+  SELECT CASE
+    WHEN v ~ '^lg|lgu|유플러스|u\+' THEN 'LG U+'
+    WHEN v ~ '^sk' THEN 'SKT'
+    WHEN v ~ 'kt|olleh|케이티' THEN 'KT'
+    ELSE 'Unknown'
+  END::"Network"
+  FROM (SELECT lower(regexp_replace(regexp_replace(value, '망$', ''), '\s+', '', 'g')) AS v) AS normalized;
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE FUNCTION "tmp_normalize_technology"(value TEXT) RETURNS "Technology" AS $$
+  SELECT CASE WHEN value ~* '5g' THEN '5G' ELSE 'LTE' END::"Technology";
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- AlterTable (기존 값 backfill)
+ALTER TABLE "raw_plans"
+  ALTER COLUMN "network" TYPE "Network" USING "tmp_normalize_network"("network"),
+  ALTER COLUMN "technology" TYPE "Technology" USING "tmp_normalize_technology"("technology");
+
+-- AlterTable (기존 값 backfill)
+ALTER TABLE "plan_versions"
+  ALTER COLUMN "network" TYPE "Network" USING "tmp_normalize_network"("network"),
+  ALTER COLUMN "technology" TYPE "Technology" USING "tmp_normalize_technology"("technology");
+
+-- AlterTable (기존 값 backfill)
+ALTER TABLE "canonical_plans"
+  ALTER COLUMN "network" TYPE "Network" USING "tmp_normalize_network"("network"),
+  ALTER COLUMN "technology" TYPE "Technology" USING "tmp_normalize_technology"("technology");
+
+-- AlterTable (배열 변환은 USING에서 서브쿼리를 쓸 수 없어 새 컬럼으로 옮김)
+ALTER TABLE "mvnos" ADD COLUMN "networks_enum" "Network"[];
+UPDATE "mvnos"
+  SET "networks_enum" = ARRAY(SELECT DISTINCT "tmp_normalize_network"(n) FROM unnest("networks") AS n);
+ALTER TABLE "mvnos" DROP COLUMN "networks";
+ALTER TABLE "mvnos" RENAME COLUMN "networks_enum" TO "networks";
+
+-- 캐노니컬 키는 정규화된 통신망 기준으로 다시 계산되므로 다음 분석 시 재연결됨
+DROP FUNCTION "tmp_normalize_network"(TEXT);
+DROP FUNCTION "tmp_normalize_technology"(TEXT);
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "raw_plans" ADD COLUMN "isLifetimePromotion" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "isDataUnlimited" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "isTalkUnlimited" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "isSmsUnlimited" BOOLEAN NOT NULL DEFAULT false,
+ALTER COLUMN "talkMinutes" DROP NOT NULL,
+ALTER COLUMN "smsCount" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "plan_versions" ADD COLUMN "isLifetimePromotion" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "isDataUnlimited" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "isTalkUnlimited" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "isSmsUnlimited" BOOLEAN NOT NULL DEFAULT false,
+ALTER COLUMN "talkMinutes" DROP NOT NULL,
+ALTER COLUMN "smsCount" DROP NOT NULL;
+
+-- Backfill: 999/9999 센티널 값을 명시적 필드로 변환
+-- (dataHash는 다시 계산하지 않음, 다음 크롤링에서 값이 같으면 새 버전 없이 해시만 갱신: findChangedPlanFields)
+UPDATE "raw_plans" SET "isLifetimePromotion" = true, "promotionDurationMonths" = NULL WHERE "promotionDurationMonths" >= 999;
+UPDATE "raw_plans" SET "isDataUnlimited" = true, "dataBaseGB" = 0 WHERE "dataBaseGB" = 999;
+UPDATE "raw_plans" SET "isTalkUnlimited" = true, "talkMinutes" = NULL WHERE "talkMinutes" = 9999;
+UPDATE "raw_plans" SET "isSmsUnlimited" = true, "smsCount" = NULL WHERE "smsCount" = 9999;
+
+UPDATE "plan_versions" SET "isLifetimePromotion" = true, "promotionDurationMonths" = NULL WHERE "promotionDurationMonths" >= 999;
+UPDATE "plan_versions" SET "isDataUnlimited" = true, "dataBaseGB" = 0 WHERE "dataBaseGB" = 999;
+UPDATE "plan_versions" SET "isTalkUnlimited" = true, "talkMinutes" = NULL WHERE "talkMinutes" = 9999;
+UPDATE "plan_versions" SET "isSmsUnlimited" = true, "smsCount" = NULL WHERE "smsCount" = 9999;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "BenefitType" AS ENUM ('POINT', 'GIFT_CARD', 'BONUS_DATA', 'DEVICE_DISCOUNT', 'FAMILY_DISCOUNT', 'OTHER');
+
+-- AlterTable
+-- 기존 요금제의 혜택은 다음 크롤링(또는 POST /crawler/reparse) 시 구조화되어 저장됨
+ALTER TABLE "raw_plans" ADD COLUMN "benefitValueKrw" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "plan_benefits" (
+    "id" SERIAL NOT NULL,
+    "rawPlanId" INTEGER NOT NULL,
+    "type" "BenefitType" NOT NULL,
+    "title" VARCHAR(255) NOT NULL,
+    "valueKrw" INTEGER,
+    "monthlyDiscountKrw" INTEGER,
+    "bonusDataGB" DOUBLE PRECISION,
+    "conditions" VARCHAR(500),
+    "rawText" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "plan_benefits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "raw_plans_benefitValueKrw_idx" ON "raw_plans"("benefitValueKrw");
+
+-- CreateIndex
+CREATE INDEX "plan_benefits_rawPlanId_idx" ON "plan_benefits"("rawPlanId");
+
+-- CreateIndex
+CREATE INDEX "plan_benefits_type_idx" ON "plan_benefits"("type");
+
+-- AddForeignKey
+ALTER TABLE "plan_benefits" ADD CONSTRAINT "plan_benefits_rawPlanId_fkey" FOREIGN KEY ("rawPlanId") REFERENCES "raw_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "raw_plans" ADD COLUMN "effectiveMonthlyCost" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "costPerGB" DOUBLE PRECISION,
+ADD COLUMN "costPerMinute" DOUBLE PRECISION;
+
+-- Backfill: 실질 월 요금 = (24개월 총 납부액 - 1회성 혜택 가치) / 24 (crawler.utils.ts의 calculateValueScore와 동일)
+UPDATE "raw_plans"
+SET "effectiveMonthlyCost" = GREATEST(0, ROUND(("totalCost24M" - "benefitValueKrw") / 24.0));
+
+UPDATE "raw_plans"
+SET "costPerGB" = ROUND(("effectiveMonthlyCost" / ("dataBaseGB" + COALESCE("dataDailyGB", 0) * 30))::NUMERIC, 2)
+WHERE NOT "isDataUnlimited" AND "dataBaseGB" + COALESCE("dataDailyGB", 0) * 30 > 0;
+
+UPDATE "raw_plans"
+SET "costPerMinute" = ROUND(("effectiveMonthlyCost"::NUMERIC / "talkMinutes"), 2)
+WHERE NOT "isTalkUnlimited" AND "talkMinutes" > 0;
+
+-- CreateIndex
+CREATE INDEX "raw_plans_effectiveMonthlyCost_idx" ON "raw_plans"("effectiveMonthlyCost");
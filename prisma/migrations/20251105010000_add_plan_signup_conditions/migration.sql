@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "raw_plans" ADD COLUMN "usimSupported" BOOLEAN,
+ADD COLUMN "esimSupported" BOOLEAN,
+ADD COLUMN "activationFeeKrw" INTEGER,
+ADD COLUMN "usimFeeKrw" INTEGER,
+ADD COLUMN "numberPortAllowed" BOOLEAN,
+ADD COLUMN "minAge" INTEGER,
+ADD COLUMN "maxAge" INTEGER,
+ADD COLUMN "contractMonths" INTEGER,
+ADD COLUMN "penaltyTerms" VARCHAR(500),
+ADD COLUMN "detailCrawledAt" TIMESTAMP(3);
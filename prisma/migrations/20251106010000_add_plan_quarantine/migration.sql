@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "QuarantineStatus" AS ENUM ('PENDING', 'RELEASED', 'DISCARDED');
+
+-- AlterTable
+ALTER TABLE "crawl_runs" ADD COLUMN "quarantined" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "quarantined_plans" (
+    "id" SERIAL NOT NULL,
+    "planKey" VARCHAR(64) NOT NULL,
+    "sourceSite" VARCHAR(100) NOT NULL,
+    "planName" VARCHAR(255) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "reasons" TEXT[],
+    "status" "QuarantineStatus" NOT NULL DEFAULT 'PENDING',
+    "occurrences" INTEGER NOT NULL DEFAULT 1,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL,
+    "crawlRunId" INTEGER,
+    "rawPlanId" INTEGER,
+    "reviewedBy" VARCHAR(100),
+    "reviewNote" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quarantined_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "quarantined_plans_status_idx" ON "quarantined_plans"("status");
+
+-- CreateIndex
+CREATE INDEX "quarantined_plans_planKey_status_idx" ON "quarantined_plans"("planKey", "status");
+
+-- CreateIndex
+CREATE INDEX "quarantined_plans_crawlRunId_idx" ON "quarantined_plans"("crawlRunId");
+
+-- AddForeignKey
+ALTER TABLE "quarantined_plans" ADD CONSTRAINT "quarantined_plans_crawlRunId_fkey" FOREIGN KEY ("crawlRunId") REFERENCES "crawl_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quarantined_plans" ADD CONSTRAINT "quarantined_plans_rawPlanId_fkey" FOREIGN KEY ("rawPlanId") REFERENCES "raw_plans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "OverrideAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateTable
+CREATE TABLE "plan_overrides" (
+    "id" SERIAL NOT NULL,
+    "planKey" VARCHAR(64) NOT NULL,
+    "fields" JSONB NOT NULL,
+    "excludeFromPosts" BOOLEAN NOT NULL DEFAULT false,
+    "reason" TEXT,
+    "updatedBy" VARCHAR(100) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "plan_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "plan_override_audits" (
+    "id" SERIAL NOT NULL,
+    "overrideId" INTEGER,
+    "planKey" VARCHAR(64) NOT NULL,
+    "action" "OverrideAction" NOT NULL,
+    "changedBy" VARCHAR(100) NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "plan_override_audits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plan_overrides_planKey_key" ON "plan_overrides"("planKey");
+
+-- CreateIndex
+CREATE INDEX "plan_override_audits_overrideId_idx" ON "plan_override_audits"("overrideId");
+
+-- CreateIndex
+CREATE INDEX "plan_override_audits_planKey_createdAt_idx" ON "plan_override_audits"("planKey", "createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "plan_override_audits" ADD CONSTRAINT "plan_override_audits_overrideId_fkey" FOREIGN KEY ("overrideId") REFERENCES "plan_overrides"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,12 +1,17 @@
 import { Module } from '@nestjs/common';
 import { AnalyzerService } from './analyzer.service';
+import { CrawlerModule } from '@/crawler/crawler.module';
+import { CatalogModule } from '@/catalog/catalog.module';
 
 /**
  * 분석기 모듈: Gemini API를 사용한 AI 콘텐츠 생성 기능 제공
  *
+ * - CrawlerModule의 CrawlHealthService로 degraded 크롤링 여부 확인
+ * - CatalogModule의 CatalogService로 소스 간 중복이 제거된 대표 요금제 조회
  * - AnalyzerService를 export하여 AutomationModule에서 사용
  */
 @Module({
+  imports: [CrawlerModule, CatalogModule],
   providers: [AnalyzerService],
   exports: [AnalyzerService],
 })
@@ -2,7 +2,10 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { PrismaService } from '@/prisma/prisma.service';
-import { RawPlan } from '@prisma/client';
+import { CrawlHealthService } from '@/crawler/crawl-health.service';
+import { CatalogService } from '@/catalog/catalog.service';
+import { Network, RawPlan } from '@prisma/client';
+import { NETWORK_LABELS, TECHNOLOGY_LABELS, toMonthlyDataGB } from '@/crawler/crawler.utils';
 
 /**
  * HTML 블로그 포스트 인터페이스
@@ -40,6 +43,8 @@ export class AnalyzerService {
   constructor(
     private configService: ConfigService,
     private prisma: PrismaService,
+    private crawlHealthService: CrawlHealthService,
+    private catalogService: CatalogService,
   ) {
     const apiKey = this.configService.get<string>('GEMINI_API_KEY');
     if (!apiKey) {
@@ -67,17 +72,26 @@ export class AnalyzerService {
       id: plan.id,
       planName: plan.planName,
       mvno: plan.mvno,
-      network: plan.network,
-      technology: plan.technology,
-      dataBaseGB: plan.dataBaseGB === 999 ? '무제한' : plan.dataBaseGB,
-      dataPostSpeedMbps: plan.dataPostSpeedMbps || null,
-      talkMinutes: plan.talkMinutes === 9999 ? '무제한' : plan.talkMinutes,
-      smsCount: plan.smsCount === 9999 ? '무제한' : plan.smsCount,
+      network: NETWORK_LABELS[plan.network],
+      technology: TECHNOLOGY_LABELS[plan.technology],
+      data: this.formatDataSpec(plan), // 예: "11GB + 매일 2GB + 3Mbps"
+      monthlyDataGB: plan.isDataUnlimited ? '무제한' : this.getMonthlyDataGB(plan), // 매일 제공량 30일 환산 포함
+      tetheringGB: plan.tetheringGB,
+      sharingGB: plan.sharingGB,
+      talkMinutes: plan.isTalkUnlimited ? '무제한' : plan.talkMinutes,
+      smsCount: plan.isSmsUnlimited ? '무제한' : plan.smsCount,
       pricePromo: plan.pricePromo,
       priceOriginal: plan.priceOriginal,
-      promotionDurationMonths:
-        plan.promotionDurationMonths === 999 ? '평생' : plan.promotionDurationMonths,
+      pricePostPromo: plan.pricePostPromo, // 프로모션 종료 후 월 요금
+      totalCost12M: plan.totalCost12M,
+      totalCost24M: plan.totalCost24M,
+      promotionDurationMonths: plan.isLifetimePromotion ? '평생' : plan.promotionDurationMonths,
       benefitSummary: plan.benefitSummary || '없음',
+      benefitValueKrw: plan.benefitValueKrw, // 포인트/상품권 등 1회성 혜택 가치 합계
+      effectiveMonthlyCost: plan.effectiveMonthlyCost, // 실질 월 요금 (24개월 기준, 혜택 가치 차감)
+      costPerGB: plan.costPerGB, // GB당 실질 요금
+      costPerMinute: plan.costPerMinute, // 통화 1분당 실질 요금
+      signup: this.formatSignupConditions(plan), // 가입 조건 (상세 페이지 미수집 시 null)
     }));
 
     return `다음은 알뜰폰 요금제 데이터입니다:
@@ -113,7 +127,7 @@ ${JSON.stringify(formattedPlans, null, 2)}
    - promotionDurationMonths 값이 1~12 사이
 
 7️⃣ **평생형/상시할인 요금제**
-   - 프로모션 없이 상시 저가형 (promotionDurationMonths = 999)
+   - 프로모션 없이 상시 저가형 (promotionDurationMonths = "평생")
    - 장기 사용자 중심의 실속 요금제
 
 반환 형식 (반드시 유효한 JSON만 출력):
@@ -142,6 +156,7 @@ ${JSON.stringify(formattedPlans, null, 2)}
 - 반드시 순수 JSON 형태로만 응답하세요
 - 코드 블록(\`\`\`json) 사용 금지
 - 각 카테고리별 최대 5개까지만 선정
+- 같은 카테고리 안에서는 pricePromo가 아닌 effectiveMonthlyCost(실질 월 요금)가 낮은 요금제를 우선 선정
 - id는 숫자 배열로 반환
 - 설명이나 추가 텍스트 없이 JSON만 출력`;
   }
@@ -304,7 +319,7 @@ ${JSON.stringify(formattedPlans, null, 2)}
       }
     }
 
-    // 각 유형별로 pricePromo 기준 상위 10개만 선정
+    // 각 유형별로 가성비(실질 월 요금) 기준 상위 10개만 선정
     const final: UserTypeClassification = {
       navigation: [],
       subLine: [],
@@ -319,7 +334,7 @@ ${JSON.stringify(formattedPlans, null, 2)}
       const plans = Array.from(planIdSet)
         .map((id) => planMap.get(id))
         .filter((plan): plan is RawPlan => plan !== undefined)
-        .sort((a, b) => a.pricePromo - b.pricePromo)
+        .sort((a, b) => this.compareByValue(a, b))
         .slice(0, 10);
 
       final[englishKey as keyof UserTypeClassification] = plans;
@@ -331,6 +346,23 @@ ${JSON.stringify(formattedPlans, null, 2)}
     return final;
   }
 
+  /**
+   * 크롤링 상태 확인: 확인되지 않은 degraded 크롤링이 있으면 분석 중단
+   *
+   * 수집량이 급감한 크롤링 결과로 랭킹을 만들지 않도록, 담당자가
+   * POST /crawler/runs/:id/acknowledge로 확인하기 전까지 분석을 막습니다.
+   */
+  private async assertCrawlHealthy(): Promise<void> {
+    const blockingRuns = await this.crawlHealthService.getBlockingRuns();
+
+    if (blockingRuns.length > 0) {
+      const summary = blockingRuns
+        .map((run) => `${run.sourceSite} (Run ID: ${run.id}, ${run.healthNote})`)
+        .join(', ');
+      throw new Error(`확인되지 않은 degraded 크롤링이 있어 분석을 중단합니다: ${summary}`);
+    }
+  }
+
   /**
    * 배치 분석 워크플로우 실행
    */
@@ -338,12 +370,10 @@ ${JSON.stringify(formattedPlans, null, 2)}
     this.logger.log('========== 배치 분석 워크플로우 시작 ==========');
 
     try {
-      // 1. 모든 요금제 조회
-      const plans = await this.prisma.rawPlan.findMany({
-        orderBy: {
-          pricePromo: 'asc',
-        },
-      });
+      await this.assertCrawlHealthy();
+
+      // 1. 판매 중인 모든 요금제 조회
+      const plans = await this.findActivePlans();
 
       this.logger.log(`전체 요금제 ${plans.length}개 조회 완료`);
 
@@ -384,14 +414,20 @@ ${JSON.stringify(formattedPlans, null, 2)}
   }
 
   /**
-   * 데이터베이스에서 모든 요금제 조회
+   * 판매 중(isActive)인 대표 요금제만 조회 (실질 월 요금 오름차순)
+   *
+   * 판매 종료로 비활성화된 요금제는 분석 대상에서 제외하고,
+   * 여러 소스에서 수집된 같은 요금제는 CatalogService가 하나로 통합합니다.
+   */
+  private async findActivePlans(): Promise<RawPlan[]> {
+    return await this.catalogService.getCanonicalPlans();
+  }
+
+  /**
+   * 데이터베이스에서 판매 중인 모든 요금제 조회
    */
   async getAllPlans(): Promise<RawPlan[]> {
-    return await this.prisma.rawPlan.findMany({
-      orderBy: {
-        pricePromo: 'asc',
-      },
-    });
+    return await this.findActivePlans();
   }
 
   /**
@@ -399,8 +435,8 @@ ${JSON.stringify(formattedPlans, null, 2)}
    */
   private filterLifetimePlans(plans: RawPlan[]): RawPlan[] {
     return plans
-      .filter((plan) => plan.promotionDurationMonths === 999)
-      .sort((a, b) => a.pricePromo - b.pricePromo)
+      .filter((plan) => plan.isLifetimePromotion)
+      .sort((a, b) => this.compareByValue(a, b))
       .slice(0, 10);
   }
 
@@ -415,7 +451,7 @@ ${JSON.stringify(formattedPlans, null, 2)}
           plan.promotionDurationMonths >= 1 &&
           plan.promotionDurationMonths <= 6,
       )
-      .sort((a, b) => a.pricePromo - b.pricePromo)
+      .sort((a, b) => this.compareByValue(a, b))
       .slice(0, 10);
   }
 
@@ -424,16 +460,22 @@ ${JSON.stringify(formattedPlans, null, 2)}
    */
   private filterUnlimitedDataPlans(plans: RawPlan[]): RawPlan[] {
     return plans
-      .filter(
-        (plan) => plan.dataBaseGB >= 100 || (plan.dataPostSpeedMbps && plan.dataPostSpeedMbps >= 5),
-      )
+      .filter((plan) => {
+        const finalSpeed = this.getFinalSpeedMbps(plan);
+        return (
+          plan.isDataUnlimited ||
+          this.getMonthlyDataGB(plan) >= 100 ||
+          (finalSpeed !== null && finalSpeed >= 5)
+        );
+      })
       .sort((a, b) => {
-        // 데이터량 우선, 그 다음 속도, 마지막 가격
-        if (b.dataBaseGB !== a.dataBaseGB) return b.dataBaseGB - a.dataBaseGB;
-        const speedB = b.dataPostSpeedMbps || 0;
-        const speedA = a.dataPostSpeedMbps || 0;
+        // 데이터량 우선 (완전 무제한 먼저), 그 다음 속도, 마지막 가격
+        const byData = this.compareByMonthlyData(a, b);
+        if (byData !== 0) return byData;
+        const speedB = this.getFinalSpeedMbps(b) || 0;
+        const speedA = this.getFinalSpeedMbps(a) || 0;
         if (speedB !== speedA) return speedB - speedA;
-        return a.pricePromo - b.pricePromo;
+        return this.compareByValue(a, b);
       })
       .slice(0, 10);
   }
@@ -442,7 +484,9 @@ ${JSON.stringify(formattedPlans, null, 2)}
    * 4️⃣ 데이터 많이 주는 요금제 TOP 10 필터링
    */
   private filterHighDataPlans(plans: RawPlan[]): RawPlan[] {
-    return plans.sort((a, b) => b.dataBaseGB - a.dataBaseGB).slice(0, 10);
+    return plans
+      .sort((a, b) => this.compareByMonthlyData(a, b) || this.compareByValue(a, b))
+      .slice(0, 10);
   }
 
   /**
@@ -450,8 +494,8 @@ ${JSON.stringify(formattedPlans, null, 2)}
    */
   private filterUnlimitedTalkPlans(plans: RawPlan[]): RawPlan[] {
     return plans
-      .filter((plan) => plan.talkMinutes === 9999 || plan.talkMinutes >= 3000)
-      .sort((a, b) => a.pricePromo - b.pricePromo)
+      .filter((plan) => plan.isTalkUnlimited || (plan.talkMinutes ?? 0) >= 3000)
+      .sort((a, b) => this.compareByValue(a, b))
       .slice(0, 10);
   }
 
@@ -462,17 +506,26 @@ ${JSON.stringify(formattedPlans, null, 2)}
     const formatted = plans.map((plan) => ({
       planName: plan.planName, // 요금제 이름
       mvno: plan.mvno,
-      network: plan.network,
-      technology: plan.technology,
-      dataBaseGB: plan.dataBaseGB === 999 ? '무제한' : plan.dataBaseGB,
-      dataPostSpeedMbps: plan.dataPostSpeedMbps || null,
-      talkMinutes: plan.talkMinutes === 9999 ? '무제한' : plan.talkMinutes,
-      smsCount: plan.smsCount === 9999 ? '무제한' : plan.smsCount,
+      network: NETWORK_LABELS[plan.network],
+      technology: TECHNOLOGY_LABELS[plan.technology],
+      data: this.formatDataSpec(plan), // 예: "11GB + 매일 2GB + 3Mbps"
+      monthlyDataGB: plan.isDataUnlimited ? '무제한' : this.getMonthlyDataGB(plan), // 매일 제공량 30일 환산 포함
+      tetheringGB: plan.tetheringGB,
+      sharingGB: plan.sharingGB,
+      talkMinutes: plan.isTalkUnlimited ? '무제한' : plan.talkMinutes,
+      smsCount: plan.isSmsUnlimited ? '무제한' : plan.smsCount,
       pricePromo: plan.pricePromo,
       priceOriginal: plan.priceOriginal,
-      promotionDurationMonths:
-        plan.promotionDurationMonths === 999 ? '평생' : plan.promotionDurationMonths,
+      pricePostPromo: plan.pricePostPromo, // 프로모션 종료 후 월 요금
+      totalCost12M: plan.totalCost12M,
+      totalCost24M: plan.totalCost24M,
+      promotionDurationMonths: plan.isLifetimePromotion ? '평생' : plan.promotionDurationMonths,
       benefitSummary: plan.benefitSummary || '없음',
+      benefitValueKrw: plan.benefitValueKrw, // 포인트/상품권 등 1회성 혜택 가치 합계
+      effectiveMonthlyCost: plan.effectiveMonthlyCost, // 실질 월 요금 (24개월 기준, 혜택 가치 차감)
+      costPerGB: plan.costPerGB, // GB당 실질 요금
+      costPerMinute: plan.costPerMinute, // 통화 1분당 실질 요금
+      signup: this.formatSignupConditions(plan), // 가입 조건 (상세 페이지 미수집 시 null)
     }));
 
     return JSON.stringify(formatted, null, 2);
@@ -575,7 +628,9 @@ ${JSON.stringify(formattedPlans, null, 2)}
         analysisDate: 'desc',
       },
       include: {
-        rankedPlans: true,
+        rankedPlans: {
+          where: { isActive: true },
+        },
       },
     });
   }
@@ -701,7 +756,7 @@ OTP·인증용, 듀얼심, 업무용 서브폰
 프로모션 기간 존재 (promotionMonth > 0)
 
 7️⃣ 평생형 / 상시할인 요금제
-프로모션 없이 상시 저가형 (promotionMonth = "평생" 또는 999)
+프로모션 없이 상시 저가형 (promotionMonth = "평생")
 장기 사용자 중심의 실속 요금제
 
 📋 출력 구조 (카테고리당 단일 테이블)
@@ -722,15 +777,16 @@ OTP·인증용, 듀얼심, 업무용 서브폰
         <th scope="col">월 요금</th>
         <th scope="col">프로모션 기간</th>
         <th scope="col">프로모션 종료 후 요금</th>
+        <th scope="col">실질 월 요금</th>
         <th scope="col">혜택</th>
       </tr>
     </thead>
     <tbody>
-      <tr><td colspan="10" class="carrier-sep">LG U+</td></tr>
+      <tr><td colspan="11" class="carrier-sep">LG U+</td></tr>
       …LG U+ 5개…
-      <tr><td colspan="10" class="carrier-sep">KT</td></tr>
+      <tr><td colspan="11" class="carrier-sep">KT</td></tr>
       …KT 5개…
-      <tr><td colspan="10" class="carrier-sep">SKT</td></tr>
+      <tr><td colspan="11" class="carrier-sep">SKT</td></tr>
       …SKT 5개…
     </tbody>
   </table>
@@ -740,18 +796,20 @@ OTP·인증용, 듀얼심, 업무용 서브폰
 
 통신사 순서: LG U+ → KT → SKT
 통신사별 최대 5개 (Top 5)
-내부 정렬: 월 요금 오름차순
+내부 정렬: 입력 순서 유지 (실질 월 요금 오름차순)
 promotionMonth 해석:
-  null, undefined, 0, "null개월", "평생", 999 → "평생"
+  null, undefined, 0, "평생" → "평생"
   숫자면 "\${promotionMonth}개월"
 afterPromotionPrice 없으면 "-"
+effectiveMonthlyCost: 실질 월 요금 (24개월 총 납부액에서 혜택 가치를 뺀 월 평균) 그대로 사용
 benefits 배열은 쉼표로 결합, 없으면 "-"
+benefitValue가 있으면 혜택 뒤에 괄호로 표기 (예: "네이버페이 10,000P (10,000원 상당)")
 network 정규화:
   "lguplus", "lg u+", "lg" → "LG U+"
   "kt", "olleh" → "KT"
   "skt", "sk telecom" → "SKT"
 가격 천 단위 표기: "3,300원"
-데이터 결합: "10GB + 3Mbps"
+데이터: data 값을 그대로 사용 (예: "10GB + 3Mbps", "11GB + 매일 2GB + 3Mbps")
 null/undefined 값은 "-"
 
 ⚙️ SEO 구조 규칙
@@ -815,11 +873,12 @@ ${JSON.stringify(formattedData, null, 2)}
         <th scope="col">월 요금</th>
         <th scope="col">프로모션 기간</th>
         <th scope="col">프로모션 종료 후 요금</th>
+        <th scope="col">실질 월 요금</th>
         <th scope="col">혜택</th>
       </tr>
     </thead>
     <tbody>
-      <tr><td colspan="10" class="carrier-sep">LG U+</td></tr>
+      <tr><td colspan="11" class="carrier-sep">LG U+</td></tr>
       <tr>
         <td>LG U+</td>
         <td>LTE</td>
@@ -832,9 +891,9 @@ ${JSON.stringify(formattedData, null, 2)}
         <td>3,300원</td>
         <td>네이버페이 5천P</td>
       </tr>
-      <tr><td colspan="10" class="carrier-sep">KT</td></tr>
+      <tr><td colspan="11" class="carrier-sep">KT</td></tr>
       …KT 요금제 5개…
-      <tr><td colspan="10" class="carrier-sep">SKT</td></tr>
+      <tr><td colspan="11" class="carrier-sep">SKT</td></tr>
       …SKT 요금제 5개…
     </tbody>
   </table>
@@ -855,15 +914,16 @@ ${JSON.stringify(formattedData, null, 2)}
         <th scope="col">월 요금</th>
         <th scope="col">프로모션 기간</th>
         <th scope="col">프로모션 종료 후 요금</th>
+        <th scope="col">실질 월 요금</th>
         <th scope="col">혜택</th>
       </tr>
     </thead>
     <tbody>
-      <tr><td colspan="10" class="carrier-sep">LG U+</td></tr>
+      <tr><td colspan="11" class="carrier-sep">LG U+</td></tr>
       …LG U+ 평생형 5개…
-      <tr><td colspan="10" class="carrier-sep">KT</td></tr>
+      <tr><td colspan="11" class="carrier-sep">KT</td></tr>
       …KT 평생형 5개…
-      <tr><td colspan="10" class="carrier-sep">SKT</td></tr>
+      <tr><td colspan="11" class="carrier-sep">SKT</td></tr>
       …SKT 평생형 5개…
     </tbody>
   </table>
@@ -939,7 +999,8 @@ ${JSON.stringify(formattedData, null, 2)}
         title: parsed.title,
         htmlBody: htmlWithCss,
         tags: parsed.tags || ['알뜰폰', '요금제', '가성비', '무제한', '네비게이션용', '프로모션'],
-        description: parsed.description || `${year}년 ${month}월 최신 알뜰폰 요금제 7가지 카테고리별 비교`,
+        description:
+          parsed.description || `${year}년 ${month}월 최신 알뜰폰 요금제 7가지 카테고리별 비교`,
       };
     } catch (error) {
       this.logger.error('블로그 HTML 생성 실패:', error);
@@ -964,35 +1025,127 @@ ${JSON.stringify(formattedData, null, 2)}
   }
 
   /**
-   * 통신사 정규화 헬퍼 함수
+   * 가성비 기준 비교: 실질 월 요금(혜택 가치 반영) 오름차순
+   * 같으면 24개월/12개월 총 납부 요금, 혜택 가치가 큰 순, 월 요금 순
+   */
+  private compareByValue(a: RawPlan, b: RawPlan): number {
+    return (
+      a.effectiveMonthlyCost - b.effectiveMonthlyCost ||
+      a.totalCost24M - b.totalCost24M ||
+      a.totalCost12M - b.totalCost12M ||
+      b.benefitValueKrw - a.benefitValueKrw ||
+      a.pricePromo - b.pricePromo
+    );
+  }
+
+  /**
+   * 프로모션 종료 후 요금이 현재 요금과 다른지 여부
+   */
+  private hasPostPromoPrice(plan: RawPlan): boolean {
+    return plan.pricePostPromo !== plan.pricePromo;
+  }
+
+  /**
+   * 월 환산 데이터 제공량 (매일 제공량은 30일 기준으로 합산)
+   * 완전 무제한(isDataUnlimited) 여부는 별도로 확인해야 합니다.
+   */
+  private getMonthlyDataGB(plan: RawPlan): number {
+    return toMonthlyDataGB(plan.dataBaseGB, plan.dataDailyGB);
+  }
+
+  /**
+   * 데이터 제공량 내림차순 비교 (완전 무제한 요금제가 항상 먼저)
+   */
+  private compareByMonthlyData(a: RawPlan, b: RawPlan): number {
+    if (a.isDataUnlimited !== b.isDataUnlimited) {
+      return a.isDataUnlimited ? -1 : 1;
+    }
+    return this.getMonthlyDataGB(b) - this.getMonthlyDataGB(a);
+  }
+
+  /**
+   * 모든 제공량 소진 후 최종 제한 속도 (Mbps)
+   */
+  private getFinalSpeedMbps(plan: RawPlan): number | null {
+    return plan.dataDailyGB ? plan.dataDailyPostSpeedMbps : plan.dataPostSpeedMbps;
+  }
+
+  /**
+   * 데이터 스펙 표시 문자열
+   * 예: "100GB + 5Mbps", "11GB + 매일 2GB + 3Mbps", "무제한"
+   */
+  private formatDataSpec(plan: RawPlan): string {
+    if (plan.isDataUnlimited) return '무제한';
+
+    const parts: string[] = [];
+
+    // 매일 제공량이 있으면 월 기본 제공량 소진 후 속도는 괄호로 표기
+    if (plan.dataDailyGB && plan.dataPostSpeedMbps) {
+      parts.push(`${plan.dataBaseGB}GB(소진 후 ${plan.dataPostSpeedMbps}Mbps)`);
+    } else {
+      parts.push(`${plan.dataBaseGB}GB`);
+    }
+
+    if (plan.dataDailyGB) {
+      parts.push(`매일 ${plan.dataDailyGB}GB`);
+    }
+
+    const finalSpeed = this.getFinalSpeedMbps(plan);
+    if (finalSpeed) {
+      parts.push(`${finalSpeed}Mbps`);
+    }
+
+    return parts.join(' + ');
+  }
+
+  /**
+   * 통화 제공량 표시 문자열 (예: "무제한", "200분")
+   */
+  private formatTalk(plan: RawPlan): string {
+    return plan.isTalkUnlimited ? '무제한' : `${plan.talkMinutes ?? 0}분`;
+  }
+
+  /**
+   * 할인 기간 표시 문자열 (평생 할인 또는 프로모션 없음은 "평생", 그 외 "N개월")
    */
-  private normalizeNetwork(network: string): string {
-    const normalized = network.toLowerCase().trim();
-    if (normalized.includes('lgu') || normalized.includes('lg u+') || normalized === 'lg') {
-      return 'LG U+';
-    } else if (normalized.includes('kt') || normalized.includes('olleh')) {
-      return 'KT';
-    } else if (
-      normalized.includes('skt') ||
-      normalized.includes('sk telecom') ||
-      normalized === 'sk'
-    ) {
-      return 'SKT';
+  private formatPromotionMonth(plan: RawPlan): string {
+    return plan.isLifetimePromotion || plan.promotionDurationMonths === null
+      ? '평생'
+      : `${plan.promotionDurationMonths}개월`;
+  }
+
+  /**
+   * 프롬프트용 가입 조건 (상세 페이지를 수집하지 않은 요금제는 null)
+   */
+  private formatSignupConditions(plan: RawPlan) {
+    if (!plan.detailCrawledAt) {
+      return null;
     }
-    return network; // 원본 반환
+
+    return {
+      usimSupported: plan.usimSupported,
+      esimSupported: plan.esimSupported,
+      activationFeeKrw: plan.activationFeeKrw, // 가입비 (원)
+      usimFeeKrw: plan.usimFeeKrw, // 유심비 (원)
+      numberPortAllowed: plan.numberPortAllowed, // 번호이동 가입 가능 여부
+      minAge: plan.minAge,
+      maxAge: plan.maxAge,
+      contractMonths: plan.contractMonths, // 약정 기간 (0이면 무약정)
+      penaltyTerms: plan.penaltyTerms,
+      promotionEndDate: plan.promotionEndDate?.toISOString().slice(0, 10) ?? null,
+    };
   }
 
   /**
    * 통신사별 정렬 우선순위
    */
-  private getNetworkPriority(network: string): number {
-    const normalized = this.normalizeNetwork(network);
-    switch (normalized) {
-      case 'LG U+':
+  private getNetworkPriority(network: Network): number {
+    switch (network) {
+      case Network.LGU_PLUS:
         return 1;
-      case 'KT':
+      case Network.KT:
         return 2;
-      case 'SKT':
+      case Network.SKT:
         return 3;
       default:
         return 999; // 기타 통신사는 맨 뒤
@@ -1003,7 +1156,7 @@ ${JSON.stringify(formattedData, null, 2)}
    * 요금제 목록을 블로그용 JSON 포맷으로 변환 (통신사별 정렬 포함)
    */
   private formatPlansForBlog(plans: RawPlan[]): any[] {
-    // 1. 통신사별 정렬 (LG U+ → KT → SKT), 그 다음 월 요금 오름차순
+    // 1. 통신사별 정렬 (LG U+ → KT → SKT), 그 다음 실질 월 요금 오름차순
     const sorted = [...plans].sort((a, b) => {
       const priorityA = this.getNetworkPriority(a.network);
       const priorityB = this.getNetworkPriority(b.network);
@@ -1012,24 +1165,29 @@ ${JSON.stringify(formattedData, null, 2)}
         return priorityA - priorityB;
       }
 
-      // 같은 통신사 내에서는 월 요금 오름차순
-      return a.pricePromo - b.pricePromo;
+      // 같은 통신사 내에서는 실질 월 요금 오름차순
+      return this.compareByValue(a, b);
     });
 
     // 2. JSON 포맷으로 변환
     return sorted.map((plan) => ({
       planName: plan.planName,
       mvno: plan.mvno,
-      network: this.normalizeNetwork(plan.network),
-      technology: plan.technology, // LTE 또는 5G
-      dataGB: plan.dataBaseGB === 999 ? '무제한' : `${plan.dataBaseGB}GB`,
-      dataSpeedMbps: plan.dataPostSpeedMbps ? `${plan.dataPostSpeedMbps}Mbps` : null,
-      talk: plan.talkMinutes === 9999 ? '무제한' : `${plan.talkMinutes}분`,
+      network: NETWORK_LABELS[plan.network],
+      technology: TECHNOLOGY_LABELS[plan.technology], // LTE 또는 5G
+      data: this.formatDataSpec(plan),
+      tethering: plan.tetheringGB ? `${plan.tetheringGB}GB` : null,
+      talk: this.formatTalk(plan),
       price: `${plan.pricePromo.toLocaleString()}원`,
-      priceOriginal: plan.priceOriginal ? `${plan.priceOriginal.toLocaleString()}원` : null,
-      promotion:
-        plan.promotionDurationMonths === 999 ? '평생' : `${plan.promotionDurationMonths}개월`,
+      afterPromotionPrice: this.hasPostPromoPrice(plan)
+        ? `${plan.pricePostPromo.toLocaleString()}원`
+        : null,
+      totalCost24M: `${plan.totalCost24M.toLocaleString()}원`,
+      effectiveMonthlyCost: `${plan.effectiveMonthlyCost.toLocaleString()}원`,
+      promotion: this.formatPromotionMonth(plan),
       benefits: plan.benefitSummary || null,
+      benefitValue:
+        plan.benefitValueKrw > 0 ? `${plan.benefitValueKrw.toLocaleString()}원 상당` : null,
     }));
   }
 
@@ -1070,6 +1228,8 @@ ${JSON.stringify(formattedData, null, 2)}
         html += `        <th scope="col">통화</th>\n`;
         html += `        <th scope="col">월 요금</th>\n`;
         html += `        <th scope="col">프로모션 기간</th>\n`;
+        html += `        <th scope="col">프로모션 종료 후 요금</th>\n`;
+        html += `        <th scope="col">실질 월 요금</th>\n`;
         html += `      </tr>\n`;
         html += `    </thead>\n`;
         html += `    <tbody>\n`;
@@ -1080,37 +1240,36 @@ ${JSON.stringify(formattedData, null, 2)}
             const priorityA = this.getNetworkPriority(a.network);
             const priorityB = this.getNetworkPriority(b.network);
             if (priorityA !== priorityB) return priorityA - priorityB;
-            return a.pricePromo - b.pricePromo;
+            return this.compareByValue(a, b);
           })
           .slice(0, 10);
 
         let currentNetwork = '';
         sortedPlans.forEach((plan) => {
-          const network = this.normalizeNetwork(plan.network);
+          const network = NETWORK_LABELS[plan.network];
           if (network !== currentNetwork) {
             currentNetwork = network;
-            html += `      <tr><td colspan="8" class="carrier-sep">${network}</td></tr>\n`;
+            html += `      <tr><td colspan="10" class="carrier-sep">${network}</td></tr>\n`;
           }
 
-          const talk = plan.talkMinutes === 9999 ? '무제한' : `${plan.talkMinutes}분`;
-          const data =
-            plan.dataBaseGB === 999
-              ? '무제한'
-              : plan.dataPostSpeedMbps
-                ? `${plan.dataBaseGB}GB + ${plan.dataPostSpeedMbps}Mbps`
-                : `${plan.dataBaseGB}GB`;
-          const promo =
-            plan.promotionDurationMonths === 999 ? '평생' : `${plan.promotionDurationMonths}개월`;
+          const talk = this.formatTalk(plan);
+          const data = this.formatDataSpec(plan);
+          const promo = this.formatPromotionMonth(plan);
+          const afterPromo = this.hasPostPromoPrice(plan)
+            ? `${plan.pricePostPromo.toLocaleString()}원`
+            : '-';
 
           html += `      <tr>\n`;
           html += `        <td>${network}</td>\n`;
-          html += `        <td>${plan.technology}</td>\n`;
+          html += `        <td>${TECHNOLOGY_LABELS[plan.technology]}</td>\n`;
           html += `        <td>${plan.planName}</td>\n`;
           html += `        <td>${plan.mvno}</td>\n`;
           html += `        <td>${data}</td>\n`;
           html += `        <td>${talk}</td>\n`;
           html += `        <td>${plan.pricePromo.toLocaleString()}원</td>\n`;
           html += `        <td>${promo}</td>\n`;
+          html += `        <td>${afterPromo}</td>\n`;
+          html += `        <td>${plan.effectiveMonthlyCost.toLocaleString()}원</td>\n`;
           html += `      </tr>\n`;
         });
 
@@ -1391,12 +1550,11 @@ ${JSON.stringify(formattedData, null, 2)}
     try {
       this.logger.log('========== 전체 분석 워크플로우 시작 ==========');
 
-      // Step 1: 모든 요금제 조회
-      const plans = await this.prisma.rawPlan.findMany({
-        orderBy: {
-          pricePromo: 'asc',
-        },
-      });
+      // Step 0: 크롤링 상태 확인 (degraded 크롤링 미확인 시 실패 처리)
+      await this.assertCrawlHealthy();
+
+      // Step 1: 판매 중인 모든 요금제 조회
+      const plans = await this.findActivePlans();
       this.logger.log(`전체 요금제 ${plans.length}개 조회 완료`);
 
       if (plans.length === 0) {
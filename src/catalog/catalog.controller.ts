@@ -0,0 +1,304 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  Logger,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Put,
+  Query,
+} from '@nestjs/common';
+import {
+  CanonicalPlan,
+  Mvno,
+  Network,
+  PlanBenefit,
+  PlanOverride,
+  PlanOverrideAudit,
+  RawPlan,
+  Technology,
+} from '@prisma/client';
+import { CatalogService, PlanExportFilter } from './catalog.service';
+import { MvnoDirectoryService } from './mvno-directory.service';
+import { PlanOverrideService } from './plan-override.service';
+import { parseOverrideFields } from './catalog.utils';
+import { CrawledPlanData } from '@/crawler/crawler.types';
+import { normalizeNetwork, normalizeTechnology } from '@/crawler/crawler.utils';
+import { toPlansCsv } from '@/crawler/plan-transfer.utils';
+
+/**
+ * 카탈로그 컨트롤러: 대표(canonical) 요금제 조회 API
+ *
+ * 사용 예:
+ * - GET http://localhost:3000/catalog/plans/1
+ * - GET http://localhost:3000/catalog/mvnos
+ * - GET http://localhost:3000/catalog/overrides
+ * - PUT http://localhost:3000/catalog/overrides/plans/1
+ * - DELETE http://localhost:3000/catalog/overrides/1?changedBy=홍길동
+ * - GET http://localhost:3000/catalog/export/csv?source=moyoplan&network=KT
+ */
+@Controller('catalog')
+export class CatalogController {
+  private readonly logger = new Logger(CatalogController.name);
+
+  constructor(
+    private readonly catalogService: CatalogService,
+    private readonly mvnoDirectoryService: MvnoDirectoryService,
+    private readonly planOverrideService: PlanOverrideService,
+  ) {}
+
+  /**
+   * 알뜰폰 사업자 디렉토리 조회
+   *
+   * GET /catalog/mvnos
+   *
+   * @returns 사업자 목록 (별칭, 제공 통신망, 판매 중인 요금제 수 포함)
+   */
+  @Get('mvnos')
+  async getMvnos(): Promise<(Mvno & { _count: { rawPlans: number } })[]> {
+    this.logger.log('사업자 디렉토리 조회 요청 수신');
+    return await this.mvnoDirectoryService.getMvnos();
+  }
+
+  /**
+   * 대표 요금제와 소스별 수집 목록 조회
+   *
+   * GET /catalog/plans/:id
+   *
+   * @param id CanonicalPlan ID
+   * @returns 대표 요금제와 연결된 RawPlan 목록 (구조화된 혜택 포함)
+   */
+  @Get('plans/:id')
+  async getCanonicalPlan(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<CanonicalPlan & { rawPlans: (RawPlan & { benefits: PlanBenefit[] })[] }> {
+    this.logger.log(`대표 요금제 조회 요청 수신 (ID: ${id})`);
+
+    const plan = await this.catalogService.getCanonicalPlan(id);
+
+    if (!plan) {
+      throw new NotFoundException(`대표 요금제를 찾을 수 없습니다 (ID: ${id})`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * 요금제 수동 보정 목록 조회
+   *
+   * GET /catalog/overrides
+   *
+   * @returns 보정 목록 (최근 변경순)
+   */
+  @Get('overrides')
+  async getOverrides(): Promise<PlanOverride[]> {
+    this.logger.log('요금제 보정 목록 조회 요청 수신');
+    return await this.planOverrideService.findAll();
+  }
+
+  /**
+   * 요금제 수동 보정과 변경 이력 조회
+   *
+   * GET /catalog/overrides/:id
+   *
+   * @param id PlanOverride ID
+   * @returns 보정과 변경 이력 (누가 언제 어떤 값을 바꿨는지, 최신순)
+   */
+  @Get('overrides/:id')
+  async getOverride(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PlanOverride & { audits: PlanOverrideAudit[] }> {
+    this.logger.log(`요금제 보정 조회 요청 수신 (ID: ${id})`);
+
+    const override = await this.planOverrideService.findOne(id);
+
+    if (!override) {
+      throw new NotFoundException(`요금제 보정을 찾을 수 없습니다 (ID: ${id})`);
+    }
+
+    return override;
+  }
+
+  /**
+   * 요금제 수동 보정 저장 (없으면 생성, 있으면 교체)
+   *
+   * PUT /catalog/overrides/plans/:rawPlanId
+   * Body: {
+   *   "fields": { "pricePromo": 22000, "dataDailyGB": null },
+   *   "excludeFromPosts": false,
+   *   "reason": "프로모션 가격 오파싱",
+   *   "changedBy": "홍길동"
+   * }
+   *
+   * 보정 값은 재크롤링 후에도 유지되며 대표 요금제 조회 시 크롤링 값 위에 적용됩니다.
+   * 개별 혜택 항목(benefits)은 보정할 수 없으며, 혜택은 benefitSummary/benefitValueKrw만 보정합니다.
+   *
+   * @param rawPlanId 보정할 요금제 ID (RawPlan.id)
+   * @param body 보정 값 (fields: 가격/데이터/혜택 필드), 포스트 제외 여부, 사유, 변경자
+   * @returns 저장된 보정
+   */
+  @Put('overrides/plans/:rawPlanId')
+  async saveOverride(
+    @Param('rawPlanId', ParseIntPipe) rawPlanId: number,
+    @Body()
+    body:
+      | {
+          fields?: Record<string, unknown>;
+          excludeFromPosts?: boolean;
+          reason?: string;
+          changedBy?: string;
+        }
+      | undefined,
+  ): Promise<PlanOverride> {
+    if (!body?.changedBy) {
+      throw new BadRequestException('변경자(changedBy)를 입력해야 합니다');
+    }
+
+    const plan = await this.planOverrideService.findPlan(rawPlanId);
+    if (!plan) {
+      throw new NotFoundException(`요금제를 찾을 수 없습니다 (ID: ${rawPlanId})`);
+    }
+
+    const { fields, errors } = parseOverrideFields(body.fields ?? {}, plan);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors.join(', '));
+    }
+
+    const excludeFromPosts = body.excludeFromPosts === true;
+    if (Object.keys(fields).length === 0 && !excludeFromPosts) {
+      throw new BadRequestException(
+        '보정할 필드(fields) 또는 포스트 제외(excludeFromPosts)가 없습니다',
+      );
+    }
+
+    this.logger.log(`요금제 보정 저장 요청 수신 (요금제 ID: ${rawPlanId})`);
+
+    const override = await this.planOverrideService.save(
+      rawPlanId,
+      { fields, excludeFromPosts, reason: body.reason || null },
+      body.changedBy,
+    );
+
+    if (!override) {
+      throw new NotFoundException(`요금제를 찾을 수 없습니다 (ID: ${rawPlanId})`);
+    }
+
+    return override;
+  }
+
+  /**
+   * 요금제 수동 보정 삭제 (크롤링 값으로 복구)
+   *
+   * DELETE /catalog/overrides/:id?changedBy=홍길동
+   *
+   * @param id PlanOverride ID
+   * @param changedBy 변경자
+   * @returns 삭제된 보정
+   */
+  @Delete('overrides/:id')
+  async deleteOverride(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('changedBy') changedBy: string | undefined,
+  ): Promise<PlanOverride> {
+    if (!changedBy) {
+      throw new BadRequestException('변경자(changedBy)를 입력해야 합니다');
+    }
+
+    this.logger.log(`요금제 보정 삭제 요청 수신 (ID: ${id})`);
+
+    const override = await this.planOverrideService.remove(id, changedBy);
+
+    if (!override) {
+      throw new NotFoundException(`요금제 보정을 찾을 수 없습니다 (ID: ${id})`);
+    }
+
+    return override;
+  }
+
+  /**
+   * 요금제 내보내기 (JSON)
+   *
+   * GET /catalog/export/json
+   * GET /catalog/export/json?source=moyoplan&mvno=토스&network=KT&technology=5G&includeInactive=true
+   *
+   * @returns CrawledPlanData 형식의 요금제 목록 (편집자 보정 적용, POST /crawler/import/json으로 다시 가져오기 가능)
+   */
+  @Get('export/json')
+  async exportJson(
+    @Query('source') source: string | undefined,
+    @Query('mvno') mvno: string | undefined,
+    @Query('network') network: string | undefined,
+    @Query('technology') technology: string | undefined,
+    @Query('includeInactive') includeInactive: string | undefined,
+  ): Promise<CrawledPlanData[]> {
+    const filter = this.toExportFilter(source, mvno, network, technology, includeInactive);
+    this.logger.log(`요금제 내보내기 요청 수신 (JSON, 조건: ${JSON.stringify(filter)})`);
+
+    return await this.catalogService.exportPlans(filter);
+  }
+
+  /**
+   * 요금제 내보내기 (CSV)
+   *
+   * GET /catalog/export/csv
+   * GET /catalog/export/csv?source=moyoplan&network=LG U+
+   *
+   * 조건은 JSON 내보내기와 같으며, benefits 컬럼은 혜택 원문을 " | "로 구분합니다.
+   *
+   * @returns CSV 파일 (UTF-8 BOM, POST /crawler/import/csv로 다시 가져오기 가능)
+   */
+  @Get('export/csv')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="plans.csv"')
+  async exportCsv(
+    @Query('source') source: string | undefined,
+    @Query('mvno') mvno: string | undefined,
+    @Query('network') network: string | undefined,
+    @Query('technology') technology: string | undefined,
+    @Query('includeInactive') includeInactive: string | undefined,
+  ): Promise<string> {
+    const filter = this.toExportFilter(source, mvno, network, technology, includeInactive);
+    this.logger.log(`요금제 내보내기 요청 수신 (CSV, 조건: ${JSON.stringify(filter)})`);
+
+    return toPlansCsv(await this.catalogService.exportPlans(filter));
+  }
+
+  /**
+   * 내보내기 조회 조건 변환 (통신망/통신 기술은 표기와 관계없이 열거형으로 정규화)
+   */
+  private toExportFilter(
+    source: string | undefined,
+    mvno: string | undefined,
+    network: string | undefined,
+    technology: string | undefined,
+    includeInactive: string | undefined,
+  ): PlanExportFilter {
+    let networkFilter: Network | undefined;
+    if (network) {
+      networkFilter = normalizeNetwork(network);
+      if (networkFilter === Network.UNKNOWN && network !== Network.UNKNOWN) {
+        throw new BadRequestException(`알 수 없는 통신망: ${network} (예: SKT, KT, LG U+)`);
+      }
+    }
+
+    let technologyFilter: Technology | undefined;
+    if (technology) {
+      if (!/^(lte|5g|five_g)$/i.test(technology)) {
+        throw new BadRequestException(`알 수 없는 통신 기술: ${technology} (예: LTE, 5G)`);
+      }
+      technologyFilter = normalizeTechnology(technology);
+    }
+
+    return {
+      sourceSite: source || undefined,
+      mvno: mvno || undefined,
+      network: networkFilter,
+      technology: technologyFilter,
+      includeInactive: includeInactive === 'true',
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { CatalogService } from './catalog.service';
+import { CatalogController } from './catalog.controller';
+import { MvnoDirectoryService } from './mvno-directory.service';
+import { PlanOverrideService } from './plan-override.service';
+
+/**
+ * 카탈로그 모듈: 소스 간 중복을 제거한 대표 요금제 계층
+ *
+ * - CatalogService: 요금제 매칭 및 필드 우선순위 병합
+ * - MvnoDirectoryService: 알뜰폰 사업자 디렉토리 및 사업자명 별칭 정규화
+ * - PlanOverrideService: 재크롤링에도 유지되는 편집자 보정 값과 변경 이력
+ * - CatalogController: 대표 요금제/사업자 조회, 요금제 보정 API
+ * - CatalogService를 export하여 AnalyzerModule에서 사용
+ * - MvnoDirectoryService를 export하여 CrawlerModule에서 저장 시 사용
+ */
+@Module({
+  controllers: [CatalogController],
+  providers: [CatalogService, MvnoDirectoryService, PlanOverrideService],
+  exports: [CatalogService, MvnoDirectoryService],
+})
+export class CatalogModule {}
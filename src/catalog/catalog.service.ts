@@ -0,0 +1,199 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import { CanonicalPlan, Network, PlanBenefit, RawPlan, Technology } from '@prisma/client';
+import { CrawledPlanData } from '@/crawler/crawler.types';
+import { toExportedPlan } from '@/crawler/plan-transfer.utils';
+import {
+  applyGroupOverrides,
+  applyPlanOverride,
+  groupByCanonicalKey,
+  mergeListings,
+  PlanOverrideFields,
+  sortByPrecedence,
+} from './catalog.utils';
+import { PlanOverrideService } from './plan-override.service';
+
+/**
+ * 요금제 내보내기 조건 (지정하지 않은 조건은 전체)
+ */
+export interface PlanExportFilter {
+  sourceSite?: string;
+  mvno?: string; // 사업자명 (부분 일치)
+  network?: Network;
+  technology?: Technology;
+  includeInactive?: boolean; // 판매 종료 요금제 포함 여부 (기본값: false)
+}
+
+/**
+ * 카탈로그 서비스: 소스 간 중복 요금제를 통합한 대표(canonical) 요금제 제공
+ *
+ * - 같은 요금제가 여러 소스(moyoplan, uplus)에서 수집된 경우 하나의 CanonicalPlan으로 묶음
+ * - 매칭 기준: 사업자 + 정규화된 요금제명 + 핵심 스펙 (catalog.utils의 buildCanonicalKey, 수집 값 기준)
+ * - 필드별 값은 FIELD_PRECEDENCE 우선순위에 따라 선택
+ * - 편집자 보정(PlanOverride)은 병합한 대표 요금제에 적용 (보정해도 매칭 그룹은 바뀌지 않음)
+ * - CanonicalPlan 저장/연결은 크롤링/가져오기 저장 후 syncCanonicalPlans로 갱신 (조회는 DB를 변경하지 않음)
+ * - AnalyzerService는 이 서비스가 반환하는 대표 요금제만 분석
+ */
+@Injectable()
+export class CatalogService {
+  private readonly logger = new Logger(CatalogService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private planOverrideService: PlanOverrideService,
+  ) {}
+
+  /**
+   * 판매 중인 대표 요금제 목록 조회 (실질 월 요금 오름차순)
+   *
+   * 판매 중인 RawPlan을 수집 값 기준 canonicalKey로 묶어 병합하고,
+   * 병합한 대표 요금제에 편집자 보정을 적용하여 반환합니다. (DB는 변경하지 않음)
+   * 포스트 제외(excludeFromPosts)로 보정된 요금제는 묶기 전에 제외하므로,
+   * 같은 그룹의 다른 출처 요금제는 남은 요금제만으로 병합하여 반환합니다.
+   */
+  async getCanonicalPlans(): Promise<RawPlan[]> {
+    const listings = await this.prisma.rawPlan.findMany({
+      where: { isActive: true },
+    });
+
+    const overrides = await this.planOverrideService.getOverrideMap();
+    const overrideFields = new Map<string, PlanOverrideFields>();
+    const excludedKeys = new Set<string>();
+    for (const [planKey, override] of overrides) {
+      overrideFields.set(planKey, override.fields as PlanOverrideFields);
+      if (override.excludeFromPosts) {
+        excludedKeys.add(planKey);
+      }
+    }
+
+    const included = listings.filter((listing) => !excludedKeys.has(listing.planKey));
+    const groups = groupByCanonicalKey(included);
+
+    const merged = [...groups.values()]
+      .map((group) => applyGroupOverrides(mergeListings(group), group, overrideFields))
+      .sort(
+        (a, b) =>
+          a.effectiveMonthlyCost - b.effectiveMonthlyCost || a.totalCost24M - b.totalCost24M,
+      );
+
+    const excludedCount = listings.length - included.length;
+    if (excludedCount > 0) {
+      this.logger.log(`편집자 보정으로 포스트 제외된 요금제: ${excludedCount}개`);
+    }
+
+    if (merged.length < included.length) {
+      this.logger.log(
+        `소스 간 중복 요금제 통합: ${included.length}개 → ${merged.length}개 (${included.length - merged.length}개 중복)`,
+      );
+    }
+
+    return merged;
+  }
+
+  /**
+   * CanonicalPlan 생성/갱신 및 RawPlan 연결 (크롤링/가져오기 저장 후 호출)
+   *
+   * - 판매 중인 RawPlan을 수집 값 기준 canonicalKey로 묶어 CanonicalPlan 생성/갱신 후 연결
+   * - 판매 중인 요금제가 더 이상 없는 CanonicalPlan은 listingCount를 0으로 초기화
+   *   (판매 종료된 RawPlan과의 연결은 이력 조회를 위해 유지)
+   */
+  async syncCanonicalPlans(): Promise<void> {
+    const listings = await this.prisma.rawPlan.findMany({
+      where: { isActive: true },
+    });
+    const groups = groupByCanonicalKey(listings);
+
+    for (const [canonicalKey, group] of groups) {
+      const [representative] = sortByPrecedence(group, 'pricing');
+
+      const canonical = await this.prisma.canonicalPlan.upsert({
+        where: { canonicalKey },
+        create: {
+          canonicalKey,
+          planName: representative.planName,
+          mvno: representative.mvno,
+          network: representative.network,
+          technology: representative.technology,
+          listingCount: group.length,
+        },
+        update: {
+          planName: representative.planName,
+          listingCount: group.length,
+        },
+      });
+
+      const unlinkedIds = group
+        .filter((listing) => listing.canonicalPlanId !== canonical.id)
+        .map((listing) => listing.id);
+
+      if (unlinkedIds.length > 0) {
+        await this.prisma.rawPlan.updateMany({
+          where: { id: { in: unlinkedIds } },
+          data: { canonicalPlanId: canonical.id },
+        });
+      }
+    }
+
+    const { count } = await this.prisma.canonicalPlan.updateMany({
+      where: { canonicalKey: { notIn: [...groups.keys()] }, listingCount: { gt: 0 } },
+      data: { listingCount: 0 },
+    });
+
+    this.logger.log(
+      `대표 요금제 동기화 완료: ${groups.size}개 (판매 요금제 없음으로 초기화 ${count}개)`,
+    );
+  }
+
+  /**
+   * 대표 요금제와 소스별 목록 조회
+   *
+   * @param canonicalPlanId CanonicalPlan ID
+   * @returns 대표 요금제와 연결된 RawPlan 목록, 없으면 null
+   */
+  async getCanonicalPlan(
+    canonicalPlanId: number,
+  ): Promise<(CanonicalPlan & { rawPlans: (RawPlan & { benefits: PlanBenefit[] })[] }) | null> {
+    return await this.prisma.canonicalPlan.findUnique({
+      where: { id: canonicalPlanId },
+      include: { rawPlans: { orderBy: { sourceSite: 'asc' }, include: { benefits: true } } },
+    });
+  }
+
+  /**
+   * 요금제 내보내기 (CrawledPlanData 형식, 편집자 보정 적용)
+   *
+   * 소스별 수집 목록을 그대로 내보내므로 POST /crawler/import로 다시 가져올 수 있습니다.
+   *
+   * @param filter 출처/사업자/통신망/통신 기술/판매 상태 조건
+   * @returns 요금제 목록 (출처, 사업자, 요금제 이름순)
+   */
+  async exportPlans(filter: PlanExportFilter): Promise<CrawledPlanData[]> {
+    const listings = await this.prisma.rawPlan.findMany({
+      where: {
+        sourceSite: filter.sourceSite,
+        mvno: filter.mvno ? { contains: filter.mvno, mode: 'insensitive' } : undefined,
+        network: filter.network,
+        technology: filter.technology,
+        isActive: filter.includeInactive ? undefined : true,
+      },
+      include: { benefits: { orderBy: { id: 'asc' } } },
+      orderBy: [{ sourceSite: 'asc' }, { mvno: 'asc' }, { planName: 'asc' }],
+    });
+
+    const overrides = await this.planOverrideService.getOverrideMap();
+
+    this.logger.log(`요금제 내보내기: ${listings.length}개`);
+
+    return listings.map((listing) => {
+      const override = overrides.get(listing.planKey);
+      return toExportedPlan(
+        override
+          ? {
+              ...applyPlanOverride(listing, override.fields as PlanOverrideFields),
+              benefits: listing.benefits,
+            }
+          : listing,
+      );
+    });
+  }
+}
@@ -0,0 +1,170 @@
+import { Network, RawPlan, Technology } from '@prisma/client';
+import {
+  applyGroupOverrides,
+  applyPlanOverride,
+  buildCanonicalKey,
+  groupByCanonicalKey,
+  mergeListings,
+  normalizePlanName,
+  parseOverrideFields,
+} from './catalog.utils';
+
+function makePlan(overrides: Partial<RawPlan>): RawPlan {
+  return {
+    id: 1,
+    planName: '음성기본 11GB+일 2GB+',
+    planKey: 'key',
+    dataHash: 'hash',
+    sourceSite: 'moyoplan',
+    detailUrl: null,
+    mvno: '찬스모바일',
+    network: Network.LGU_PLUS,
+    technology: Technology.LTE,
+    pricePromo: 12000,
+    priceOriginal: 38500,
+    pricePostPromo: 38500,
+    totalCost12M: 276500,
+    totalCost24M: 738500,
+    effectiveMonthlyCost: 30771,
+    costPerGB: 433.39,
+    costPerMinute: null,
+    promotionDurationMonths: 7,
+    promotionEndDate: null,
+    isLifetimePromotion: false,
+    dataBaseGB: 11,
+    isDataUnlimited: false,
+    dataDailyGB: 2,
+    dataPostSpeedMbps: null,
+    dataDailyPostSpeedMbps: 3,
+    tetheringGB: null,
+    sharingGB: null,
+    talkMinutes: null,
+    isTalkUnlimited: true,
+    smsCount: null,
+    isSmsUnlimited: true,
+    usimSupported: null,
+    esimSupported: null,
+    activationFeeKrw: null,
+    usimFeeKrw: null,
+    numberPortAllowed: null,
+    minAge: null,
+    maxAge: null,
+    contractMonths: null,
+    penaltyTerms: null,
+    detailCrawledAt: null,
+    benefitSummary: null,
+    benefitValueKrw: 0,
+    firstSeenAt: new Date('2025-10-01'),
+    lastSeenAt: new Date('2025-10-20'),
+    isActive: true,
+    canonicalPlanId: null,
+    mvnoId: null,
+    createdAt: new Date('2025-10-01'),
+    updatedAt: new Date('2025-10-20'),
+    ...overrides,
+  };
+}
+
+describe('catalog utils', () => {
+  it('should strip promotion tags and punctuation from plan names', () => {
+    expect(normalizePlanName('[모요핫딜] 음성기본 11GB+일 2GB+')).toBe('음성기본11gb일2gb');
+  });
+
+  it('should match the same plan across sources', () => {
+    const moyo = makePlan({ planName: '[모요핫딜]음성기본 11GB+일 2GB+' });
+    const uplus = makePlan({ id: 2, sourceSite: 'uplus', mvno: '찬스 모바일' });
+
+    expect(buildCanonicalKey(moyo)).toBe(buildCanonicalKey(uplus));
+    expect(buildCanonicalKey(makePlan({ dataBaseGB: 15 }))).not.toBe(buildCanonicalKey(moyo));
+  });
+
+  it('should take pricing from the official mall and benefits from moyoplan', () => {
+    const moyo = makePlan({
+      pricePromo: 11000,
+      benefitSummary: '네이버페이 10,000P',
+      tetheringGB: 10,
+    });
+    const uplus = makePlan({ id: 2, sourceSite: 'uplus', pricePromo: 12000 });
+
+    const merged = mergeListings([moyo, uplus]);
+
+    expect(merged.id).toBe(2);
+    expect(merged.pricePromo).toBe(12000);
+    expect(merged.benefitSummary).toBe('네이버페이 10,000P');
+    expect(merged.tetheringGB).toBe(10);
+  });
+
+  it('should recalculate total cost and value score when a price is overridden', () => {
+    const patched = applyPlanOverride(makePlan({}), { pricePromo: 10000 });
+
+    expect(patched.totalCost12M).toBe(262500);
+    expect(patched.totalCost24M).toBe(724500);
+    expect(patched.effectiveMonthlyCost).toBe(30188);
+    expect(patched.dataBaseGB).toBe(11);
+  });
+
+  it('should keep the crawled grouping and apply overrides to the merged plan', () => {
+    const moyo = makePlan({ planKey: 'moyo', pricePromo: 11000 });
+    const uplus = makePlan({ id: 2, planKey: 'uplus', sourceSite: 'uplus' });
+    const overrides = new Map([
+      ['moyo', { dataBaseGB: 15, pricePromo: 9000 }],
+      ['uplus', { pricePromo: 10000 }],
+    ]);
+
+    const groups = groupByCanonicalKey([moyo, uplus]);
+    expect(groups.size).toBe(1);
+
+    const [group] = groups.values();
+    const merged = applyGroupOverrides(mergeListings(group), group, overrides);
+
+    expect(merged.id).toBe(2);
+    expect(merged.dataBaseGB).toBe(15);
+    expect(merged.pricePromo).toBe(10000);
+    expect(merged.totalCost12M).toBe(262500);
+  });
+
+  it('should reject unknown override fields and invalid values', () => {
+    const { fields, errors } = parseOverrideFields(
+      {
+        pricePromo: 22000,
+        dataDailyGB: null,
+        dataBaseGB: null,
+        planName: '변경',
+      },
+      makePlan({}),
+    );
+
+    expect(fields).toEqual({ pricePromo: 22000, dataDailyGB: null });
+    expect(errors).toHaveLength(2);
+  });
+
+  it('should reject benefit item corrections', () => {
+    const { fields, errors } = parseOverrideFields(
+      {
+        benefitSummary: '네이버페이 20,000P',
+        benefits: [{ rawText: '네이버페이 20,000P' }],
+      },
+      makePlan({}),
+    );
+
+    expect(fields).toEqual({ benefitSummary: '네이버페이 20,000P' });
+    expect(errors).toEqual([expect.stringContaining('개별 혜택 항목(benefits)')]);
+  });
+
+  it('should reject post-promotion price overrides without a promotion period', () => {
+    const noPeriod = makePlan({ promotionDurationMonths: null });
+
+    expect(parseOverrideFields({ pricePostPromo: 33000 }, noPeriod).errors).toEqual([
+      expect.stringContaining('pricePostPromo'),
+    ]);
+    expect(
+      parseOverrideFields({ pricePostPromo: 33000, promotionDurationMonths: 6 }, noPeriod).errors,
+    ).toEqual([]);
+    expect(
+      parseOverrideFields(
+        { pricePostPromo: 33000, isLifetimePromotion: true },
+        makePlan({ promotionDurationMonths: 6 }),
+      ).errors,
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,365 @@
+import { RawPlan } from '@prisma/client';
+import * as crypto from 'crypto';
+import {
+  calculateTotalCost,
+  calculateValueScore,
+  resolvePostPromoPrice,
+} from '@/crawler/crawler.utils';
+
+/**
+ * 카탈로그 공통 유틸리티: 소스 간 동일 요금제 매칭 및 필드 병합
+ *
+ * - 상태를 갖지 않는 순수 함수로만 구성
+ */
+
+/**
+ * 필드 그룹별 소스 우선순위 (앞에 있을수록 우선)
+ *
+ * - pricing: 가격/프로모션 필드 (pricePromo, priceOriginal, pricePostPromo, totalCost12M,
+ *   totalCost24M, promotionDurationMonths, promotionEndDate)는 한 소스의 값을 묶어서 사용.
+ *   통신사 공식몰(uplus)이 실제 가입 가격이므로 비교 사이트(moyoplan)보다 우선
+ * - spec: 데이터/통화/문자 제공량도 공식몰 우선. 값이 null인 필드(테더링 등)는 다음 소스 값으로 보완
+ * - benefits: 사은품 정보는 아코디언을 펼쳐 상세히 수집하는 moyoplan 우선
+ * - signup: 가입 조건(유심/eSIM, 가입비, 나이 제한, 약정)은 상세 페이지를 수집하는 moyoplan 우선.
+ *   필드별로 null이면 다음 소스 값으로 보완
+ *
+ * 목록에 없는 소스는 가장 낮은 우선순위이며, 우선순위가 같으면 최근 확인된(lastSeenAt) 목록을 사용합니다.
+ * 대표 요금제(id, planName, detailUrl, sourceSite)는 pricing 우선순위를 따릅니다.
+ */
+export const FIELD_PRECEDENCE = {
+  pricing: ['uplus', 'moyoplan'],
+  spec: ['uplus', 'moyoplan'],
+  benefits: ['moyoplan', 'uplus'],
+  signup: ['moyoplan', 'uplus'],
+} as const;
+
+type FieldGroup = keyof typeof FIELD_PRECEDENCE;
+
+const SPEC_FIELDS = [
+  'dataDailyGB',
+  'dataPostSpeedMbps',
+  'dataDailyPostSpeedMbps',
+  'tetheringGB',
+  'sharingGB',
+] as const;
+
+const SIGNUP_FIELDS = [
+  'usimSupported',
+  'esimSupported',
+  'activationFeeKrw',
+  'usimFeeKrw',
+  'numberPortAllowed',
+  'minAge',
+  'maxAge',
+  'contractMonths',
+  'penaltyTerms',
+] as const;
+
+/**
+ * 제공량과 무제한 여부를 한 소스에서 함께 가져와야 하는 필드 쌍
+ * (무제한이면 제공량이 null이므로 null 보완 대상에서 제외)
+ */
+const ALLOWANCE_FIELDS = [
+  ['dataBaseGB', 'isDataUnlimited'],
+  ['talkMinutes', 'isTalkUnlimited'],
+  ['smsCount', 'isSmsUnlimited'],
+] as const;
+
+/**
+ * 사업자명 정규화 (예: "(주)에스원 안심모바일" -> "에스원안심모바일")
+ */
+export function normalizeMvno(mvno: string): string {
+  return mvno
+    .replace(/\(주\)|주식회사/g, '')
+    .replace(/\s+/g, '')
+    .toLowerCase();
+}
+
+/**
+ * 요금제명 정규화
+ * 예: "[모요핫딜] 음성기본 11GB+일 2GB+" -> "음성기본11gb일2gb"
+ *
+ * - 대괄호 태그(프로모션 문구) 제거
+ * - 공백/기호 제거, 소문자 변환
+ */
+export function normalizePlanName(planName: string): string {
+  return planName
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/[^0-9a-zA-Z가-힣]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * 소스 간 동일 요금제 식별 키 생성 (사업자 + 정규화된 요금제명 + 핵심 스펙)
+ */
+export function buildCanonicalKey(plan: RawPlan): string {
+  const keySource = [
+    normalizeMvno(plan.mvno),
+    normalizePlanName(plan.planName),
+    plan.network,
+    plan.technology,
+    plan.isDataUnlimited ? 'unlimited' : plan.dataBaseGB,
+    plan.dataDailyGB,
+    plan.isTalkUnlimited ? 'unlimited' : plan.talkMinutes,
+    plan.isSmsUnlimited ? 'unlimited' : plan.smsCount,
+  ].join('|');
+
+  return crypto.createHash('sha256').update(keySource).digest('hex');
+}
+
+/**
+ * 요금제 목록을 canonicalKey별로 묶기
+ *
+ * 편집자 보정을 적용하기 전의 수집 값으로 묶어야 보정으로 바뀐 가격/스펙 때문에
+ * 다른 그룹으로 옮겨지지 않습니다.
+ */
+export function groupByCanonicalKey(listings: RawPlan[]): Map<string, RawPlan[]> {
+  const groups = new Map<string, RawPlan[]>();
+  for (const listing of listings) {
+    const key = buildCanonicalKey(listing);
+    groups.set(key, [...(groups.get(key) ?? []), listing]);
+  }
+  return groups;
+}
+
+/**
+ * 필드 그룹 우선순위에 따라 목록 정렬 (우선순위 높은 순)
+ */
+export function sortByPrecedence(listings: RawPlan[], group: FieldGroup): RawPlan[] {
+  const order: readonly string[] = FIELD_PRECEDENCE[group];
+  const rank = (plan: RawPlan) => {
+    const index = order.indexOf(plan.sourceSite);
+    return index === -1 ? order.length : index;
+  };
+
+  return [...listings].sort(
+    (a, b) => rank(a) - rank(b) || b.lastSeenAt.getTime() - a.lastSeenAt.getTime(),
+  );
+}
+
+/**
+ * 동일 요금제 목록을 하나의 대표 요금제로 병합 (FIELD_PRECEDENCE 참고)
+ *
+ * @param listings 같은 canonicalKey를 가진 요금제 목록 (1개 이상)
+ * @returns 대표 요금제에 우선순위별 필드를 덮어쓴 RawPlan
+ */
+export function mergeListings(listings: RawPlan[]): RawPlan {
+  const [representative] = sortByPrecedence(listings, 'pricing');
+  if (listings.length === 1) {
+    return representative;
+  }
+
+  const merged: RawPlan = { ...representative };
+
+  const specOrder = sortByPrecedence(listings, 'spec');
+  for (const field of SPEC_FIELDS) {
+    const source = specOrder.find((plan) => plan[field] !== null);
+    if (source) {
+      (merged as Record<(typeof SPEC_FIELDS)[number], number | null>)[field] = source[field];
+    }
+  }
+
+  for (const [amountField, unlimitedField] of ALLOWANCE_FIELDS) {
+    const source = specOrder.find((plan) => plan[unlimitedField] || plan[amountField] !== null);
+    if (source) {
+      (merged as Record<(typeof ALLOWANCE_FIELDS)[number][0], number | null>)[amountField] =
+        source[amountField];
+      merged[unlimitedField] = source[unlimitedField];
+    }
+  }
+
+  const signupOrder = sortByPrecedence(listings, 'signup');
+  for (const field of SIGNUP_FIELDS) {
+    const source = signupOrder.find((plan) => plan[field] !== null);
+    if (source) {
+      (merged as Record<(typeof SIGNUP_FIELDS)[number], unknown>)[field] = source[field];
+    }
+  }
+
+  const benefitSource = sortByPrecedence(listings, 'benefits').find(
+    (plan) => plan.benefitSummary !== null,
+  );
+  merged.benefitSummary = benefitSource?.benefitSummary ?? null;
+  merged.benefitValueKrw = benefitSource?.benefitValueKrw ?? 0;
+
+  // 가격/스펙/혜택 출처가 다를 수 있으므로 병합된 값으로 가성비 점수 재계산
+  Object.assign(merged, calculateValueScore(merged));
+
+  return merged;
+}
+
+/**
+ * 수동 보정(PlanOverride)으로 덮어쓸 수 있는 필드와 값 형식
+ *
+ * - 가격: 월 요금, 할인 전 가격, 프로모션 종료 후 요금, 할인 기간
+ * - 데이터: 기본/매일 제공량, 소진 후 속도, 테더링/쉐어링
+ * - 혜택: 혜택 요약, 1회성 혜택 가치
+ *
+ * 개별 혜택 항목(PlanBenefit)은 보정할 수 없으며 항상 크롤링 값을 유지합니다.
+ * (혜택 요약/가치를 보정해도 내보내기의 benefits 항목은 그대로이므로, 항목 오류는 재크롤링으로 바로잡음)
+ */
+const OVERRIDE_FIELD_TYPES = {
+  pricePromo: 'number',
+  priceOriginal: 'nullableNumber',
+  pricePostPromo: 'number',
+  promotionDurationMonths: 'nullableNumber',
+  isLifetimePromotion: 'boolean',
+  dataBaseGB: 'number',
+  isDataUnlimited: 'boolean',
+  dataDailyGB: 'nullableNumber',
+  dataPostSpeedMbps: 'nullableNumber',
+  dataDailyPostSpeedMbps: 'nullableNumber',
+  tetheringGB: 'nullableNumber',
+  sharingGB: 'nullableNumber',
+  benefitSummary: 'nullableString',
+  benefitValueKrw: 'number',
+} as const;
+
+// 보정 대상이 아님을 따로 안내하는 필드 (개별 혜택 항목)
+const BENEFIT_ITEM_FIELD = 'benefits';
+
+export type OverridableField = keyof typeof OVERRIDE_FIELD_TYPES;
+type OverrideFieldType = (typeof OVERRIDE_FIELD_TYPES)[OverridableField];
+
+/**
+ * 보정 값 (PlanOverride.fields)
+ */
+export type PlanOverrideFields = Partial<Pick<RawPlan, OverridableField>>;
+
+/**
+ * 보정 값 형식 확인 (수치는 0 이상)
+ */
+function isValidOverrideValue(value: unknown, type: OverrideFieldType): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    case 'nullableNumber':
+      return value === null || isValidOverrideValue(value, 'number');
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'nullableString':
+      return value === null || typeof value === 'string';
+  }
+}
+
+/**
+ * 보정 값 입력 검증
+ *
+ * pricePostPromo는 할인 기간이 있을 때만 적용되므로 (resolvePostPromoPrice),
+ * 보정 후 할인 기간(보정 값 또는 크롤링 값, 평생 할인이면 없음)이 없으면 거부합니다.
+ *
+ * @param input 요청 본문의 fields (예: { pricePromo: 22000, dataDailyGB: null })
+ * @param plan 보정할 요금제의 크롤링 값 (할인 기간 확인용)
+ * @returns 검증된 보정 값과 오류 목록 (알 수 없는 필드, 개별 혜택 항목, 형식 불일치, 적용되지 않는 값)
+ */
+export function parseOverrideFields(
+  input: Record<string, unknown>,
+  plan: Pick<RawPlan, 'promotionDurationMonths' | 'isLifetimePromotion'>,
+): {
+  fields: PlanOverrideFields;
+  errors: string[];
+} {
+  const fields: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [field, value] of Object.entries(input)) {
+    if (field === BENEFIT_ITEM_FIELD) {
+      errors.push(
+        `개별 혜택 항목(${field})은 보정할 수 없습니다 (benefitSummary, benefitValueKrw만 보정 가능)`,
+      );
+      continue;
+    }
+    if (!(field in OVERRIDE_FIELD_TYPES)) {
+      errors.push(`보정할 수 없는 필드: ${field}`);
+      continue;
+    }
+
+    const type = OVERRIDE_FIELD_TYPES[field as OverridableField];
+    if (isValidOverrideValue(value, type)) {
+      fields[field] = value;
+    } else {
+      errors.push(`${field} 값 형식 오류 (${type}): ${JSON.stringify(value)}`);
+    }
+  }
+
+  const parsed = fields as PlanOverrideFields;
+  if (parsed.pricePostPromo !== undefined) {
+    const isLifetimePromotion = parsed.isLifetimePromotion ?? plan.isLifetimePromotion;
+    const promotionDurationMonths =
+      parsed.promotionDurationMonths !== undefined
+        ? parsed.promotionDurationMonths
+        : plan.promotionDurationMonths;
+    if (isLifetimePromotion || promotionDurationMonths === null) {
+      errors.push(
+        'pricePostPromo는 할인 기간(promotionDurationMonths)이 있는 요금제만 보정할 수 있습니다',
+      );
+    }
+  }
+
+  return { fields: parsed, errors };
+}
+
+/**
+ * 크롤링된 요금제에 보정 값 적용
+ *
+ * 가격 필드를 보정하면 프로모션 종료 후 요금과 12/24개월 총 납부액을 다시 계산하고,
+ * 모든 경우 보정된 값으로 가성비 점수를 재계산합니다.
+ */
+export function applyPlanOverride(plan: RawPlan, fields: PlanOverrideFields): RawPlan {
+  const patched: RawPlan = { ...plan, ...fields };
+
+  const priceFields: OverridableField[] = [
+    'pricePromo',
+    'pricePostPromo',
+    'promotionDurationMonths',
+    'isLifetimePromotion',
+  ];
+  if (priceFields.some((field) => field in fields)) {
+    if (patched.isLifetimePromotion) {
+      patched.promotionDurationMonths = null;
+    }
+    patched.pricePostPromo = resolvePostPromoPrice(
+      patched.pricePromo,
+      patched.pricePostPromo,
+      patched.promotionDurationMonths,
+    );
+    patched.totalCost12M = calculateTotalCost(
+      patched.pricePromo,
+      patched.pricePostPromo,
+      patched.promotionDurationMonths,
+      12,
+    );
+    patched.totalCost24M = calculateTotalCost(
+      patched.pricePromo,
+      patched.pricePostPromo,
+      patched.promotionDurationMonths,
+      24,
+    );
+  }
+
+  Object.assign(patched, calculateValueScore(patched));
+
+  return patched;
+}
+
+/**
+ * 병합된 대표 요금제에 그룹 내 요금제의 편집자 보정 적용
+ *
+ * 여러 요금제에 보정이 있으면 pricing 우선순위가 높은 소스의 보정을 마지막에 적용하여 우선합니다.
+ *
+ * @param merged mergeListings 결과
+ * @param group 병합한 요금제 목록 (수집 값)
+ * @param overrides planKey → 보정 필드
+ */
+export function applyGroupOverrides(
+  merged: RawPlan,
+  group: RawPlan[],
+  overrides: Map<string, PlanOverrideFields>,
+): RawPlan {
+  return sortByPrecedence(group, 'pricing')
+    .reverse()
+    .reduce((plan, listing) => {
+      const fields = overrides.get(listing.planKey);
+      return fields ? applyPlanOverride(plan, fields) : plan;
+    }, merged);
+}
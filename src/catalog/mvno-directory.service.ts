@@ -0,0 +1,168 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@/prisma/prisma.service';
+import { Mvno, Network } from '@prisma/client';
+import * as path from 'path';
+import * as fs from 'fs';
+import { normalizeMvno } from './catalog.utils';
+
+/**
+ * 알뜰폰 사업자 시드 항목 (config/mvnos.json)
+ */
+interface MvnoSeed {
+  name: string;
+  aliases?: string[];
+  homepageUrl?: string;
+  logoUrl?: string;
+}
+
+/**
+ * 사업자 정규화 대상 정보 (크롤링된 요금제에서 전달)
+ */
+export interface MvnoObservation {
+  name: string; // 크롤링된 사업자명 (img alt, 제휴사명 등)
+  network: Network; // 요금제 통신망 (정규화된 값)
+  logoUrl?: string | null; // 카드에 표시된 로고 이미지 URL
+}
+
+/**
+ * 알뜰폰 사업자 디렉토리 서비스: 사업자명 별칭 정규화
+ *
+ * - "토스모바일", "토스 모바일", "Toss"처럼 표기가 다른 사업자명을 하나의 Mvno로 연결
+ * - 공백/대소문자/(주) 표기 차이는 자동으로 같은 사업자로 판단 (normalizeMvno)
+ * - 표기가 완전히 다른 별칭(예: "Toss")은 config/mvnos.json 시드로 등록
+ * - 처음 보는 사업자는 크롤링 시 새 Mvno로 자동 등록하고, 새 별칭/통신망/로고를 누적
+ *
+ * 설정:
+ * - MVNO_SEED_PATH: 시드 파일 경로 (기본값: 프로젝트 루트의 config/mvnos.json)
+ */
+@Injectable()
+export class MvnoDirectoryService implements OnModuleInit {
+  private readonly logger = new Logger(MvnoDirectoryService.name);
+  private aliasIndex: Map<string, Mvno> | null = null;
+
+  constructor(
+    private configService: ConfigService,
+    private prisma: PrismaService,
+  ) {}
+
+  /**
+   * 앱 시작 시 시드 파일의 사업자/별칭 등록
+   * 기존 사업자의 정보는 덮어쓰지 않고 빠진 별칭만 추가합니다.
+   */
+  async onModuleInit() {
+    const seedPath = path.resolve(
+      process.cwd(),
+      this.configService.get<string>('MVNO_SEED_PATH') || path.join('config', 'mvnos.json'),
+    );
+
+    if (!fs.existsSync(seedPath)) {
+      this.logger.warn(`사업자 시드 파일이 없습니다: ${seedPath}`);
+      return;
+    }
+
+    const { mvnos } = JSON.parse(fs.readFileSync(seedPath, 'utf-8')) as { mvnos: MvnoSeed[] };
+
+    for (const seed of mvnos) {
+      const existing = await this.prisma.mvno.findUnique({ where: { name: seed.name } });
+      const aliases = [
+        ...new Set([seed.name, ...(seed.aliases ?? []), ...(existing?.aliases ?? [])]),
+      ];
+
+      await this.prisma.mvno.upsert({
+        where: { name: seed.name },
+        create: {
+          name: seed.name,
+          aliases,
+          homepageUrl: seed.homepageUrl,
+          logoUrl: seed.logoUrl,
+        },
+        update: { aliases },
+      });
+    }
+
+    this.aliasIndex = null;
+    this.logger.log(`사업자 시드 ${mvnos.length}개 등록 완료`);
+  }
+
+  /**
+   * 별칭 인덱스 조회 (정규화된 별칭 → Mvno)
+   */
+  private async getAliasIndex(): Promise<Map<string, Mvno>> {
+    if (!this.aliasIndex) {
+      const index = new Map<string, Mvno>();
+      for (const mvno of await this.prisma.mvno.findMany()) {
+        this.indexMvno(index, mvno);
+      }
+      this.aliasIndex = index;
+    }
+    return this.aliasIndex;
+  }
+
+  private indexMvno(index: Map<string, Mvno>, mvno: Mvno): void {
+    for (const alias of [mvno.name, ...mvno.aliases]) {
+      index.set(normalizeMvno(alias), mvno);
+    }
+  }
+
+  /**
+   * 크롤링된 사업자명을 Mvno로 정규화
+   *
+   * - 별칭 인덱스에서 찾으면 해당 Mvno 반환 (새 별칭/통신망/로고는 누적)
+   * - 없으면 크롤링된 이름으로 새 Mvno 등록
+   *
+   * @returns Mvno, 사업자명이 비어 있거나 'Unknown'이면 null
+   */
+  async resolve(observation: MvnoObservation): Promise<Mvno | null> {
+    const rawName = observation.name.trim();
+    if (!rawName || rawName === 'Unknown') {
+      return null;
+    }
+
+    const index = await this.getAliasIndex();
+    const existing = index.get(normalizeMvno(rawName));
+
+    let mvno: Mvno;
+    if (!existing) {
+      mvno = await this.prisma.mvno.upsert({
+        where: { name: rawName },
+        create: {
+          name: rawName,
+          aliases: [rawName],
+          networks: [observation.network],
+          logoUrl: observation.logoUrl ?? null,
+        },
+        update: {},
+      });
+      this.logger.log(`새 사업자 등록: ${rawName}`);
+    } else if (
+      !existing.aliases.includes(rawName) ||
+      !existing.networks.includes(observation.network) ||
+      (!existing.logoUrl && observation.logoUrl)
+    ) {
+      mvno = await this.prisma.mvno.update({
+        where: { id: existing.id },
+        data: {
+          aliases: [...new Set([...existing.aliases, rawName])],
+          networks: [...new Set([...existing.networks, observation.network])],
+          logoUrl: existing.logoUrl ?? observation.logoUrl ?? null,
+        },
+      });
+    } else {
+      mvno = existing;
+    }
+
+    this.indexMvno(index, mvno);
+    return mvno;
+  }
+
+  /**
+   * 사업자 목록 조회 (판매 중인 요금제 수 포함)
+   */
+  async getMvnos(): Promise<(Mvno & { _count: { rawPlans: number } })[]> {
+    return await this.prisma.mvno.findMany({
+      include: { _count: { select: { rawPlans: { where: { isActive: true } } } } },
+      orderBy: { name: 'asc' },
+    });
+  }
+}
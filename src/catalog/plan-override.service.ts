@@ -0,0 +1,192 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import { OverrideAction, PlanOverride, PlanOverrideAudit, Prisma, RawPlan } from '@prisma/client';
+import { PlanOverrideFields } from './catalog.utils';
+
+/**
+ * 수동 보정 저장 요청 (PUT 시 기존 값을 통째로 교체)
+ */
+export interface PlanOverrideInput {
+  fields: PlanOverrideFields; // parseOverrideFields로 검증된 보정 값
+  excludeFromPosts: boolean;
+  reason: string | null;
+}
+
+/**
+ * 변경 이력에 기록할 보정 값
+ */
+function toSnapshot(
+  override: PlanOverrideInput | Pick<PlanOverride, 'fields' | 'excludeFromPosts' | 'reason'>,
+): Prisma.InputJsonObject {
+  return {
+    fields: override.fields as Prisma.InputJsonObject,
+    excludeFromPosts: override.excludeFromPosts,
+    reason: override.reason,
+  };
+}
+
+/**
+ * 요금제 수동 보정 서비스: 재크롤링에도 유지되는 편집자 보정 값 관리
+ *
+ * - 보정 값은 RawPlan.planKey 기준으로 저장 (크롤링이 RawPlan을 갱신해도 유지)
+ * - 생성/변경/삭제 시 변경자와 변경 전/후 값을 PlanOverrideAudit에 기록
+ * - CatalogService가 대표 요금제 조회 시 크롤링 값 위에 적용 (applyPlanOverride)
+ */
+@Injectable()
+export class PlanOverrideService {
+  private readonly logger = new Logger(PlanOverrideService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * 보정 목록 조회 (최근 변경순)
+   */
+  async findAll(): Promise<PlanOverride[]> {
+    return await this.prisma.planOverride.findMany({ orderBy: { updatedAt: 'desc' } });
+  }
+
+  /**
+   * 보정과 변경 이력 조회
+   *
+   * @param id PlanOverride ID
+   * @returns 보정과 변경 이력 (planKey 기준, 최신순), 없으면 null
+   */
+  async findOne(id: number): Promise<(PlanOverride & { audits: PlanOverrideAudit[] }) | null> {
+    const override = await this.prisma.planOverride.findUnique({ where: { id } });
+    if (!override) {
+      return null;
+    }
+
+    // 삭제 후 다시 만든 보정도 이전 이력을 함께 볼 수 있도록 planKey로 조회
+    const audits = await this.prisma.planOverrideAudit.findMany({
+      where: { planKey: override.planKey },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return { ...override, audits };
+  }
+
+  /**
+   * 조회 시 적용할 보정 값 (planKey → PlanOverride)
+   */
+  async getOverrideMap(): Promise<Map<string, PlanOverride>> {
+    const overrides = await this.prisma.planOverride.findMany();
+    return new Map(overrides.map((override) => [override.planKey, override]));
+  }
+
+  /**
+   * 보정할 요금제의 크롤링 값 조회 (보정 값 검증용)
+   *
+   * @param rawPlanId 보정할 요금제 ID
+   * @returns 할인 기간 관련 크롤링 값, 요금제가 없으면 null
+   */
+  async findPlan(
+    rawPlanId: number,
+  ): Promise<Pick<RawPlan, 'promotionDurationMonths' | 'isLifetimePromotion'> | null> {
+    return await this.prisma.rawPlan.findUnique({
+      where: { id: rawPlanId },
+      select: { promotionDurationMonths: true, isLifetimePromotion: true },
+    });
+  }
+
+  /**
+   * 요금제 보정 저장 (없으면 생성, 있으면 교체)
+   *
+   * @param rawPlanId 보정할 요금제 ID (planKey로 변환하여 저장)
+   * @param input 보정 값
+   * @param changedBy 변경자
+   * @returns 저장된 보정, 요금제가 없으면 null
+   */
+  async save(
+    rawPlanId: number,
+    input: PlanOverrideInput,
+    changedBy: string,
+  ): Promise<PlanOverride | null> {
+    const plan = await this.prisma.rawPlan.findUnique({
+      where: { id: rawPlanId },
+      select: { planKey: true, planName: true },
+    });
+    if (!plan) {
+      return null;
+    }
+
+    const existing = await this.prisma.planOverride.findUnique({
+      where: { planKey: plan.planKey },
+    });
+    const data = {
+      fields: input.fields as Prisma.InputJsonObject,
+      excludeFromPosts: input.excludeFromPosts,
+      reason: input.reason,
+      updatedBy: changedBy,
+    };
+
+    if (!existing) {
+      const created = await this.prisma.planOverride.create({
+        data: {
+          ...data,
+          planKey: plan.planKey,
+          audits: {
+            create: {
+              planKey: plan.planKey,
+              action: OverrideAction.CREATE,
+              changedBy,
+              after: toSnapshot(input),
+            },
+          },
+        },
+      });
+
+      this.logger.log(`요금제 보정 생성: ${plan.planName} (변경자: ${changedBy})`);
+      return created;
+    }
+
+    const updated = await this.prisma.planOverride.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        audits: {
+          create: {
+            planKey: plan.planKey,
+            action: OverrideAction.UPDATE,
+            changedBy,
+            before: toSnapshot(existing),
+            after: toSnapshot(input),
+          },
+        },
+      },
+    });
+
+    this.logger.log(`요금제 보정 변경: ${plan.planName} (변경자: ${changedBy})`);
+    return updated;
+  }
+
+  /**
+   * 요금제 보정 삭제 (다음 조회부터 크롤링 값 사용)
+   *
+   * @param id PlanOverride ID
+   * @param changedBy 변경자
+   * @returns 삭제된 보정, 없으면 null
+   */
+  async remove(id: number, changedBy: string): Promise<PlanOverride | null> {
+    const existing = await this.prisma.planOverride.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.planOverrideAudit.create({
+        data: {
+          overrideId: existing.id,
+          planKey: existing.planKey,
+          action: OverrideAction.DELETE,
+          changedBy,
+          before: toSnapshot(existing),
+        },
+      }),
+      this.prisma.planOverride.delete({ where: { id } }),
+    ]);
+
+    this.logger.log(`요금제 보정 삭제 (ID: ${id}, 변경자: ${changedBy})`);
+    return existing;
+  }
+}
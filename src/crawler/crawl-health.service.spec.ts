@@ -0,0 +1,85 @@
+import { ConfigService } from '@nestjs/config';
+import { CrawlRun, CrawlRunStatus } from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { CrawlHealthService, detectCountDrop } from './crawl-health.service';
+
+describe('detectCountDrop', () => {
+  const history = [
+    { cardsFound: 100, plansParsed: 98 },
+    { cardsFound: 102, plansParsed: 100 },
+    { cardsFound: 98, plansParsed: 96 },
+  ];
+
+  it('should not evaluate without enough baseline runs', () => {
+    const result = detectCountDrop({ cardsFound: 0, plansParsed: 0 }, history.slice(0, 2), 0.3, 3);
+
+    expect(result).toEqual({ degraded: false, reason: null, baseline: null });
+  });
+
+  it('should pass when counts stay within the threshold', () => {
+    const result = detectCountDrop({ cardsFound: 90, plansParsed: 88 }, history, 0.3, 3);
+
+    expect(result.degraded).toBe(false);
+    expect(result.baseline).toEqual({ cardsFound: 100, plansParsed: 98 });
+  });
+
+  it('should flag a run whose parsed plans drop beyond the threshold', () => {
+    const result = detectCountDrop({ cardsFound: 100, plansParsed: 40 }, history, 0.3, 3);
+
+    expect(result.degraded).toBe(true);
+    expect(result.reason).toContain('plansParsed');
+    expect(result.reason).not.toContain('cardsFound');
+  });
+});
+
+describe('CrawlHealthService.getBlockingRuns', () => {
+  type RunRow = Pick<
+    CrawlRun,
+    'id' | 'sourceSite' | 'status' | 'startedAt' | 'isDegraded' | 'acknowledgedAt'
+  >;
+
+  // 조건(status)과 distinct(sourceSite), 최신순 정렬만 흉내 낸 crawlRun.findMany
+  const createService = (runs: RunRow[]) => {
+    const prisma = {
+      crawlRun: {
+        findMany: ({ where }: { where: { status: CrawlRunStatus | { in: CrawlRunStatus[] } } }) => {
+          const statuses = typeof where.status === 'string' ? [where.status] : where.status.in;
+          const latest = new Map<string, RunRow>();
+          [...runs]
+            .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+            .filter((run) => statuses.includes(run.status))
+            .forEach((run) => {
+              if (!latest.has(run.sourceSite)) latest.set(run.sourceSite, run);
+            });
+          return Promise.resolve([...latest.values()]);
+        },
+      },
+    };
+    return new CrawlHealthService(new ConfigService(), prisma as unknown as PrismaService);
+  };
+
+  const run = (id: number, status: CrawlRunStatus, isDegraded: boolean): RunRow => ({
+    id,
+    sourceSite: 'moyoplan',
+    status,
+    startedAt: new Date(2025, 10, id),
+    isDegraded,
+    acknowledgedAt: null,
+  });
+
+  it('should keep blocking when a degraded run is followed by a failed run', async () => {
+    const service = createService([run(1, 'SUCCESS', true), run(2, 'FAILED', false)]);
+
+    expect((await service.getBlockingRuns()).map((blocking) => blocking.id)).toEqual([1]);
+  });
+
+  it('should clear the block after a later healthy run', async () => {
+    const service = createService([
+      run(1, 'SUCCESS', true),
+      run(2, 'FAILED', false),
+      run(3, 'SUCCESS', false),
+    ]);
+
+    expect(await service.getBlockingRuns()).toEqual([]);
+  });
+});
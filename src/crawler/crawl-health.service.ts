@@ -0,0 +1,186 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@/prisma/prisma.service';
+import { CrawlRun } from '@prisma/client';
+
+/**
+ * 크롤링 수집량 (카드 수 / 파싱된 요금제 수)
+ */
+export interface CrawlCounts {
+  cardsFound: number;
+  plansParsed: number;
+}
+
+/**
+ * 크롤링 상태 평가 결과
+ */
+export interface CrawlHealthResult {
+  degraded: boolean;
+  reason: string | null;
+  baseline: CrawlCounts | null; // 비교 기준값 (기준 실행 기록이 부족하면 null)
+}
+
+/**
+ * 숫자 배열의 중앙값
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * 수집량 급감 감지
+ *
+ * 이전 정상 실행들의 중앙값을 기준으로, 카드 수 또는 파싱된 요금제 수가
+ * threshold(0~1) 비율 이상 감소하면 degraded로 판단합니다.
+ *
+ * @param current 이번 실행 수집량
+ * @param history 비교 대상 정상 실행 수집량 (최신순)
+ * @param threshold 허용 감소율 (예: 0.3 = 30% 이상 감소 시 degraded)
+ * @param minRuns 기준값 계산에 필요한 최소 실행 수
+ */
+export function detectCountDrop(
+  current: CrawlCounts,
+  history: CrawlCounts[],
+  threshold: number,
+  minRuns: number,
+): CrawlHealthResult {
+  if (history.length < minRuns) {
+    return { degraded: false, reason: null, baseline: null };
+  }
+
+  const baseline: CrawlCounts = {
+    cardsFound: median(history.map((run) => run.cardsFound)),
+    plansParsed: median(history.map((run) => run.plansParsed)),
+  };
+
+  const reasons: string[] = [];
+  for (const key of ['cardsFound', 'plansParsed'] as const) {
+    if (baseline[key] <= 0) continue;
+
+    const dropRatio = (baseline[key] - current[key]) / baseline[key];
+    if (dropRatio >= threshold) {
+      reasons.push(
+        `${key} ${current[key]}개 (기준 ${baseline[key]}개 대비 ${Math.round(dropRatio * 100)}% 감소)`,
+      );
+    }
+  }
+
+  return {
+    degraded: reasons.length > 0,
+    reason: reasons.length > 0 ? reasons.join(', ') : null,
+    baseline,
+  };
+}
+
+/**
+ * 크롤링 상태 감시 서비스: 셀렉터 변경(selector drift) 등으로 인한 수집량 급감 감지
+ *
+ * - 소스별 최근 정상 실행의 카드/요금제 수 중앙값을 기준값으로 사용
+ * - 기준 대비 임계값 이상 감소한 실행을 degraded로 표시
+ * - 확인(acknowledge)되지 않은 degraded 실행이 소스의 최신 실행이면 분석기 실행 차단
+ *
+ * 설정:
+ * - CRAWL_HEALTH_DROP_THRESHOLD: 허용 감소율 (기본값: 0.3)
+ * - CRAWL_HEALTH_BASELINE_RUNS: 기준값 계산에 사용할 최근 실행 수 (기본값: 5)
+ * - CRAWL_HEALTH_MIN_RUNS: 평가에 필요한 최소 실행 수 (기본값: 3)
+ */
+@Injectable()
+export class CrawlHealthService {
+  private readonly logger = new Logger(CrawlHealthService.name);
+
+  constructor(
+    private configService: ConfigService,
+    private prisma: PrismaService,
+  ) {}
+
+  /**
+   * 숫자 설정값 조회 (잘못된 값이면 기본값 사용)
+   */
+  private getNumberConfig(key: string, defaultValue: number): number {
+    const value = Number(this.configService.get<string>(key));
+    return Number.isFinite(value) && value > 0 ? value : defaultValue;
+  }
+
+  /**
+   * 이번 실행 수집량을 소스별 기준값과 비교
+   *
+   * 기준값은 최근 정상 실행(SUCCESS 이면서 degraded가 아니거나 확인된 실행)으로 계산합니다.
+   * 확인된 degraded 실행을 포함하므로, 사이트 개편으로 요금제 수가 실제로 줄어든 경우
+   * 확인 이후에는 새로운 수준이 기준값에 반영됩니다.
+   *
+   * @param sourceName 소스 이름
+   * @param current 이번 실행 수집량
+   */
+  async evaluate(sourceName: string, current: CrawlCounts): Promise<CrawlHealthResult> {
+    const threshold = this.getNumberConfig('CRAWL_HEALTH_DROP_THRESHOLD', 0.3);
+    const baselineRuns = this.getNumberConfig('CRAWL_HEALTH_BASELINE_RUNS', 5);
+    const minRuns = this.getNumberConfig('CRAWL_HEALTH_MIN_RUNS', 3);
+
+    const history = await this.prisma.crawlRun.findMany({
+      where: {
+        sourceSite: sourceName,
+        status: 'SUCCESS',
+        OR: [{ isDegraded: false }, { acknowledgedAt: { not: null } }],
+      },
+      orderBy: { startedAt: 'desc' },
+      take: baselineRuns,
+      select: { cardsFound: true, plansParsed: true },
+    });
+
+    const result = detectCountDrop(current, history, threshold, minRuns);
+
+    if (result.degraded) {
+      this.logger.error(
+        `🚨 [${sourceName}] 크롤링 수집량 급감 감지 (셀렉터 변경 의심): ${result.reason}. 확인 전까지 분석기 실행이 차단됩니다.`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * 분석기 실행을 차단하는 크롤링 실행 조회
+   *
+   * 소스별 가장 최근에 성공한 실행이 degraded이고 아직 확인되지 않은 경우 반환합니다.
+   * 이후 정상 실행이 완료되면 해당 소스는 더 이상 차단되지 않습니다.
+   * (실패한 실행은 수집량을 평가하지 않으므로 차단 해제 여부 판단에서 제외)
+   */
+  async getBlockingRuns(): Promise<CrawlRun[]> {
+    const latestRuns = await this.prisma.crawlRun.findMany({
+      where: { status: 'SUCCESS' },
+      distinct: ['sourceSite'],
+      orderBy: [{ sourceSite: 'asc' }, { startedAt: 'desc' }],
+    });
+
+    return latestRuns.filter((run) => run.isDegraded && !run.acknowledgedAt);
+  }
+
+  /**
+   * degraded 실행 확인 처리
+   *
+   * @param runId CrawlRun ID
+   * @param acknowledgedBy 확인자 (예: 담당자 이름)
+   * @returns 갱신된 CrawlRun, 없으면 null
+   */
+  async acknowledge(runId: number, acknowledgedBy: string): Promise<CrawlRun | null> {
+    const run = await this.prisma.crawlRun.findUnique({ where: { id: runId } });
+    if (!run) {
+      return null;
+    }
+
+    if (!run.isDegraded) {
+      this.logger.warn(`확인할 필요가 없는 정상 실행입니다 (Run ID: ${runId})`);
+      return run;
+    }
+
+    const updated = await this.prisma.crawlRun.update({
+      where: { id: runId },
+      data: { acknowledgedAt: new Date(), acknowledgedBy },
+    });
+
+    this.logger.log(`degraded 크롤링 확인 완료 (Run ID: ${runId}, 확인자: ${acknowledgedBy})`);
+    return updated;
+  }
+}
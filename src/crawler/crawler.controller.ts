@@ -0,0 +1,397 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Get,
+  Logger,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { CrawlRun, PlanVersion, QuarantinedPlan, QuarantineStatus, RawPlan } from '@prisma/client';
+import { CrawlerService } from './crawler.service';
+import { ImportResult, ReparseResult } from './crawler.types';
+import { CrawlHealthService } from './crawl-health.service';
+import { PlanQuarantineService, validateCrawledPlan } from './plan-quarantine.service';
+import { csvToRecords, parsePlanChanges } from './plan-transfer.utils';
+
+/**
+ * 크롤러 컨트롤러: 크롤링 결과 조회 API
+ *
+ * 사용 예:
+ * - GET http://localhost:3000/crawler/runs?source=moyoplan&limit=20
+ * - GET http://localhost:3000/crawler/health
+ * - POST http://localhost:3000/crawler/runs/1/acknowledge
+ * - POST http://localhost:3000/crawler/reparse?source=moyoplan
+ * - GET http://localhost:3000/crawler/plans/1/history
+ * - GET http://localhost:3000/crawler/quarantine?status=PENDING
+ * - PATCH http://localhost:3000/crawler/quarantine/1
+ * - POST http://localhost:3000/crawler/quarantine/1/release
+ * - POST http://localhost:3000/crawler/import/csv?source=partner-sheet
+ */
+@Controller('crawler')
+export class CrawlerController {
+  private readonly logger = new Logger(CrawlerController.name);
+
+  constructor(
+    private readonly crawlerService: CrawlerService,
+    private readonly crawlHealthService: CrawlHealthService,
+    private readonly planQuarantineService: PlanQuarantineService,
+  ) {}
+
+  /**
+   * 최근 크롤링 실행 기록 조회
+   *
+   * GET /crawler/runs
+   * GET /crawler/runs?source=uplus&limit=50
+   *
+   * @param source 소스 이름 (미지정 시 전체)
+   * @param limit 조회 개수 (기본값: 20, 최대 100)
+   * @returns CrawlRun 목록 (최신순)
+   */
+  @Get('runs')
+  async getRecentRuns(
+    @Query('source') source: string | undefined,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ): Promise<CrawlRun[]> {
+    this.logger.log(`크롤링 실행 기록 조회 요청 수신 (소스: ${source || '전체'}, 개수: ${limit})`);
+
+    return await this.crawlerService.getRecentRuns(source, limit);
+  }
+
+  /**
+   * 분석기 실행을 차단 중인 degraded 크롤링 조회
+   *
+   * GET /crawler/health
+   *
+   * @returns 차단 여부와 확인이 필요한 CrawlRun 목록
+   */
+  @Get('health')
+  async getHealth(): Promise<{ blocked: boolean; blockingRuns: CrawlRun[] }> {
+    this.logger.log('크롤링 상태 조회 요청 수신');
+
+    const blockingRuns = await this.crawlHealthService.getBlockingRuns();
+    return { blocked: blockingRuns.length > 0, blockingRuns };
+  }
+
+  /**
+   * degraded 크롤링 실행 확인 처리 (분석기 차단 해제)
+   *
+   * POST /crawler/runs/:id/acknowledge
+   * Body: { "acknowledgedBy": "홍길동" }
+   *
+   * @param id CrawlRun ID
+   * @param body 확인자 정보 (미지정 시 'unknown')
+   * @returns 갱신된 CrawlRun
+   */
+  @Post('runs/:id/acknowledge')
+  async acknowledgeRun(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: { acknowledgedBy?: string } | undefined,
+  ): Promise<CrawlRun> {
+    this.logger.log(`degraded 크롤링 확인 요청 수신 (Run ID: ${id})`);
+
+    const run = await this.crawlHealthService.acknowledge(id, body?.acknowledgedBy || 'unknown');
+
+    if (!run) {
+      throw new NotFoundException(`크롤링 실행 기록을 찾을 수 없습니다 (ID: ${id})`);
+    }
+
+    return run;
+  }
+
+  /**
+   * 저장된 카드 원본 재파싱 (재크롤링 없이 파서 개선 사항 반영)
+   *
+   * POST /crawler/reparse
+   * POST /crawler/reparse?source=moyoplan,uplus
+   *
+   * @param source 재파싱할 소스 이름 (쉼표 구분, 기본값: 활성화된 모든 소스)
+   * @returns 소스별 재파싱 결과 (가장 최근 성공한 크롤링 실행 기준)
+   */
+  @Post('reparse')
+  async reparse(@Query('source') source: string | undefined): Promise<ReparseResult[]> {
+    const sourceNames = source
+      ?.split(',')
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+
+    const registered = this.crawlerService.getSources().map((s) => s.name);
+    const unknownNames = (sourceNames ?? []).filter((name) => !registered.includes(name));
+    if (unknownNames.length > 0) {
+      throw new BadRequestException(
+        `등록되지 않은 크롤링 소스: ${unknownNames.join(', ')} (등록된 소스: ${registered.join(', ')})`,
+      );
+    }
+
+    this.logger.log(`카드 원본 재파싱 요청 수신 (소스: ${sourceNames?.join(', ') || '전체'})`);
+
+    return await this.crawlerService.reparseLatestCaptures(sourceNames);
+  }
+
+  /**
+   * 요금제 가져오기 (JSON)
+   *
+   * POST /crawler/import/json?source=partner-sheet
+   * Body: [{ "planName": "...", "mvno": "...", "network": "KT", "technology": "LTE", "pricePromo": 22000, ... }]
+   *
+   * 레코드 형식은 CrawledPlanData와 같으며 GET /catalog/export/json 결과를 그대로 사용할 수 있습니다.
+   *
+   * @param source 저장할 출처 이름 (영문 소문자/숫자/-/_, 크롤링 소스 이름은 사용 불가)
+   * @param body 요금제 레코드 배열
+   * @returns 저장 결과와 레코드별 오류
+   */
+  @Post('import/json')
+  async importJson(
+    @Query('source') source: string | undefined,
+    @Body() body: unknown,
+  ): Promise<ImportResult> {
+    const sourceSite = this.resolveImportSource(source);
+
+    if (!Array.isArray(body) || body.some((record) => typeof record !== 'object' || !record)) {
+      throw new BadRequestException('요금제 레코드(객체) 배열을 보내야 합니다');
+    }
+
+    this.logger.log(`요금제 가져오기 요청 수신 (JSON, 출처: ${sourceSite}, ${body.length}개)`);
+
+    return await this.crawlerService.importPlans(body as Record<string, unknown>[], sourceSite);
+  }
+
+  /**
+   * 요금제 가져오기 (CSV)
+   *
+   * POST /crawler/import/csv?source=partner-sheet
+   * Content-Type: text/csv
+   *
+   * 첫 행은 헤더(CrawledPlanData 필드명)이며, benefits 컬럼은 혜택 원문을 " | "로 구분합니다.
+   * GET /catalog/export/csv 결과를 그대로 사용할 수 있습니다.
+   *
+   * @param source 저장할 출처 이름 (영문 소문자/숫자/-/_, 크롤링 소스 이름은 사용 불가)
+   * @param body CSV 텍스트
+   * @returns 저장 결과와 행별 오류 (row는 헤더를 제외한 데이터 행 순번)
+   */
+  @Post('import/csv')
+  async importCsv(
+    @Query('source') source: string | undefined,
+    @Body() body: unknown,
+  ): Promise<ImportResult> {
+    const sourceSite = this.resolveImportSource(source);
+
+    if (typeof body !== 'string' || body.trim().length === 0) {
+      throw new BadRequestException('CSV 본문(Content-Type: text/csv)이 비어 있습니다');
+    }
+
+    const records = csvToRecords(body);
+    this.logger.log(`요금제 가져오기 요청 수신 (CSV, 출처: ${sourceSite}, ${records.length}개)`);
+
+    return await this.crawlerService.importPlans(records, sourceSite);
+  }
+
+  /**
+   * 가져오기 출처 이름 검증
+   *
+   * 크롤링 소스와 같은 이름을 쓰면 다음 크롤링에서 확인되지 않은 요금제로 판매 종료 처리되므로 거부합니다.
+   */
+  private resolveImportSource(source: string | undefined): string {
+    if (!source || !/^[a-z0-9][a-z0-9_-]{0,99}$/.test(source)) {
+      throw new BadRequestException(
+        '출처 이름(source)을 영문 소문자/숫자/-/_로 지정해야 합니다 (예: partner-sheet)',
+      );
+    }
+
+    const registered = this.crawlerService.getSources().map((s) => s.name);
+    if (registered.includes(source)) {
+      throw new BadRequestException(
+        `크롤링 소스 이름은 가져오기 출처로 사용할 수 없습니다: ${source} (등록된 소스: ${registered.join(', ')})`,
+      );
+    }
+
+    return source;
+  }
+
+  /**
+   * 요금제 가격/스펙 변경 이력 조회
+   *
+   * GET /crawler/plans/:id/history
+   *
+   * @param id 요금제 ID (RawPlan.id)
+   * @returns 현재 요금제 정보와 버전 이력 (최신순)
+   */
+  @Get('plans/:id/history')
+  async getPlanHistory(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<RawPlan & { versions: PlanVersion[] }> {
+    this.logger.log(`요금제 이력 조회 요청 수신 (ID: ${id})`);
+
+    const plan = await this.crawlerService.getPlanHistory(id);
+
+    if (!plan) {
+      throw new NotFoundException(`요금제를 찾을 수 없습니다 (ID: ${id})`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * 검증 실패로 격리된 요금제 목록 조회
+   *
+   * GET /crawler/quarantine
+   * GET /crawler/quarantine?status=PENDING&limit=50
+   *
+   * @param status 검토 상태 (PENDING, RELEASED, DISCARDED / 미지정 시 전체)
+   * @param limit 조회 개수 (기본값: 50, 최대 100)
+   * @returns 격리 기록 목록 (최근 확인순, 사유 포함)
+   */
+  @Get('quarantine')
+  async getQuarantinedPlans(
+    @Query('status') status: string | undefined,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+  ): Promise<QuarantinedPlan[]> {
+    const statuses = Object.values(QuarantineStatus) as string[];
+    if (status && !statuses.includes(status)) {
+      throw new BadRequestException(
+        `알 수 없는 검토 상태: ${status} (가능한 값: ${statuses.join(', ')})`,
+      );
+    }
+
+    this.logger.log(`격리 요금제 조회 요청 수신 (상태: ${status || '전체'}, 개수: ${limit})`);
+
+    return await this.planQuarantineService.findAll(status as QuarantineStatus | undefined, limit);
+  }
+
+  /**
+   * 격리된 요금제 상세 조회
+   *
+   * GET /crawler/quarantine/:id
+   *
+   * @param id 격리 기록 ID
+   * @returns 격리 기록 (payload: 파싱된 요금제 데이터)
+   */
+  @Get('quarantine/:id')
+  async getQuarantinedPlan(@Param('id', ParseIntPipe) id: number): Promise<QuarantinedPlan> {
+    this.logger.log(`격리 요금제 상세 조회 요청 수신 (ID: ${id})`);
+
+    const record = await this.planQuarantineService.findOne(id);
+
+    if (!record) {
+      throw new NotFoundException(`격리 기록을 찾을 수 없습니다 (ID: ${id})`);
+    }
+
+    return record;
+  }
+
+  /**
+   * 격리된 요금제 값 수정 (수정 후 검증 사유 갱신)
+   *
+   * PATCH /crawler/quarantine/:id
+   * Body: { "changes": { "pricePromo": 22000, "network": "KT" }, "reviewedBy": "홍길동" }
+   *
+   * @param id 격리 기록 ID
+   * 값은 가져오기와 같은 컬럼 형식으로 변환하며, 식별 필드(sourceSite, detailUrl, planName)는 수정할 수 없습니다.
+   *
+   * @param body 수정할 요금제 필드와 검토자
+   * @returns 갱신된 격리 기록 (reasons가 비면 릴리스 가능)
+   */
+  @Patch('quarantine/:id')
+  async fixQuarantinedPlan(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: { changes?: Record<string, unknown>; reviewedBy?: string } | undefined,
+  ): Promise<QuarantinedPlan> {
+    if (!body?.changes || Object.keys(body.changes).length === 0) {
+      throw new BadRequestException('수정할 필드(changes)가 없습니다');
+    }
+
+    const { changes, errors } = parsePlanChanges(body.changes);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors.join(', '));
+    }
+
+    this.logger.log(`격리 요금제 수정 요청 수신 (ID: ${id})`);
+
+    const record = await this.getPendingRecord(id);
+    return await this.planQuarantineService.fix(record, changes, body.reviewedBy || 'unknown');
+  }
+
+  /**
+   * 격리된 요금제 릴리스 (RawPlan으로 저장)
+   *
+   * POST /crawler/quarantine/:id/release
+   * Body: { "reviewedBy": "홍길동", "note": "실제 0원 요금제", "force": true }
+   *
+   * 검증 사유가 남아 있으면 거부합니다. 실제 데이터가 규칙을 벗어나는 경우(예: 특가 요금제)
+   * force: true로 그대로 저장할 수 있습니다.
+   *
+   * @param id 격리 기록 ID
+   * @param body 검토자, 릴리스 사유, 강제 릴리스 여부
+   * @returns 저장된 요금제와 갱신된 격리 기록
+   */
+  @Post('quarantine/:id/release')
+  async releaseQuarantinedPlan(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: { reviewedBy?: string; note?: string; force?: boolean } | undefined,
+  ): Promise<{ plan: RawPlan; record: QuarantinedPlan }> {
+    this.logger.log(`격리 요금제 릴리스 요청 수신 (ID: ${id})`);
+
+    const record = await this.getPendingRecord(id);
+    const reasons = validateCrawledPlan(this.planQuarantineService.toPlanData(record));
+
+    if (reasons.length > 0 && !body?.force) {
+      throw new BadRequestException(
+        `검증을 통과하지 못한 요금제입니다: ${reasons.join(', ')} (값을 수정하거나 force: true로 릴리스)`,
+      );
+    }
+
+    return await this.crawlerService.releaseQuarantinedPlan(
+      record,
+      body?.reviewedBy || 'unknown',
+      body?.note || null,
+    );
+  }
+
+  /**
+   * 격리된 요금제 폐기 (잘못 수집된 데이터)
+   *
+   * POST /crawler/quarantine/:id/discard
+   * Body: { "reviewedBy": "홍길동", "note": "광고 카드" }
+   *
+   * @param id 격리 기록 ID
+   * @param body 검토자, 폐기 사유
+   * @returns 갱신된 격리 기록
+   */
+  @Post('quarantine/:id/discard')
+  async discardQuarantinedPlan(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: { reviewedBy?: string; note?: string } | undefined,
+  ): Promise<QuarantinedPlan> {
+    this.logger.log(`격리 요금제 폐기 요청 수신 (ID: ${id})`);
+
+    const record = await this.getPendingRecord(id);
+    return await this.planQuarantineService.discard(
+      record,
+      body?.reviewedBy || 'unknown',
+      body?.note || null,
+    );
+  }
+
+  /**
+   * 검토 대기 중인 격리 기록 조회 (없거나 이미 처리된 기록이면 예외)
+   */
+  private async getPendingRecord(id: number): Promise<QuarantinedPlan> {
+    const record = await this.planQuarantineService.findOne(id);
+
+    if (!record) {
+      throw new NotFoundException(`격리 기록을 찾을 수 없습니다 (ID: ${id})`);
+    }
+    if (record.status !== QuarantineStatus.PENDING) {
+      throw new BadRequestException(
+        `이미 처리된 격리 기록입니다 (ID: ${id}, 상태: ${record.status})`,
+      );
+    }
+
+    return record;
+  }
+}
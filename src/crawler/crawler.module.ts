@@ -1,17 +1,51 @@
 import { Module } from '@nestjs/common';
 import { CrawlerService } from './crawler.service';
+import { CrawlHealthService } from './crawl-health.service';
+import { SelectorProfileService } from './selector-profile.service';
+import { PlanQuarantineService } from './plan-quarantine.service';
+import { CrawlerController } from './crawler.controller';
 import { PrismaModule } from '@/prisma/prisma.module';
+import { CatalogModule } from '@/catalog/catalog.module';
+import { CRAWLER_SOURCES, CrawlerSource } from './crawler.types';
+import { MoyoplanSource } from './sources/moyoplan.source';
+import { UplusSource } from './sources/uplus.source';
+
+/**
+ * 등록된 크롤링 소스 목록
+ *
+ * 새로운 알뜰폰 사이트는 CrawlerSource를 구현한 Provider를 만든 뒤
+ * 이 배열에 추가하면 CrawlerService가 자동으로 실행합니다.
+ */
+const crawlerSources = [MoyoplanSource, UplusSource];
 
 /**
  * 크롤러 모듈: Playwright를 사용한 웹 크롤링 기능 제공
  *
  * - Playwright를 통한 안정적인 브라우저 자동화
  * - PrismaService를 통한 데이터베이스 Upsert 기능
- * - CrawlerService를 export하여 다른 모듈에서 사용 가능
+ * - 소스별 크롤러를 CRAWLER_SOURCES 토큰으로 묶어 CrawlerService에 주입
+ * - CrawlerController: 요금제 변경 이력 등 크롤링 결과 조회 API
+ * - SelectorProfileService: 소스별 셀렉터 프로필(config/selectors) 로드 및 검증
+ * - CrawlHealthService: 수집량 급감(degraded) 감지 및 분석기 차단 여부 판단
+ * - PlanQuarantineService: 데이터 품질 검증에 실패한 요금제 격리 및 검토
+ * - MvnoDirectoryService(CatalogModule): 저장 시 사업자명 별칭 정규화
+ * - CrawlerService, CrawlHealthService를 export하여 다른 모듈에서 사용 가능
  */
 @Module({
-  imports: [PrismaModule],
-  providers: [CrawlerService],
-  exports: [CrawlerService],
+  imports: [PrismaModule, CatalogModule],
+  controllers: [CrawlerController],
+  providers: [
+    CrawlerService,
+    CrawlHealthService,
+    SelectorProfileService,
+    PlanQuarantineService,
+    ...crawlerSources,
+    {
+      provide: CRAWLER_SOURCES,
+      useFactory: (...sources: CrawlerSource[]) => sources,
+      inject: crawlerSources,
+    },
+  ],
+  exports: [CrawlerService, CrawlHealthService],
 })
 export class CrawlerModule {}
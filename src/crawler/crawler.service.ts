@@ -1,737 +1,452 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { PrismaService } from '@/prisma/prisma.service';
-import { PlaywrightService } from '@/playwright/playwright.service';
-import { RawPlan } from '@prisma/client';
+import { ConfigService } from '@nestjs/config';
+import { CrawlRun, PlanVersion, Prisma, QuarantinedPlan, RawPlan } from '@prisma/client';
 import * as crypto from 'crypto';
+import { CrawlHealthService } from './crawl-health.service';
+import { SelectorProfileService } from './selector-profile.service';
+import { PlanQuarantineService, validateCrawledPlan } from './plan-quarantine.service';
+import { toImportedPlan } from './plan-transfer.utils';
+import { MvnoDirectoryService } from '@/catalog/mvno-directory.service';
+import { CatalogService } from '@/catalog/catalog.service';
+import { FailureArtifactService, getArtifactDir } from '@/playwright/failure-artifact.service';
+import {
+  calculateTotalCost,
+  calculateValueScore,
+  findChangedPlanFields,
+  normalizeNetwork,
+  normalizeTechnology,
+  resolvePostPromoPrice,
+  sumBenefitValue,
+} from './crawler.utils';
+import {
+  CapturedCard,
+  CRAWLER_SOURCES,
+  CrawledPlanData,
+  CrawlerSource,
+  CrawlStats,
+  ImportResult,
+  PlanBenefitData,
+  ReparseResult,
+  SelectorProfile,
+  SignupConditionData,
+} from './crawler.types';
+
+export type { CrawledPlanData } from './crawler.types';
 
 /**
- * 크롤링된 요금제 데이터 인터페이스
+ * 카드별 파싱 결과 (파싱 실패/스킵 시 plan은 null)
  */
-export interface CrawledPlanData {
-  planName: string;
-  sourceSite: string; // 크롤링 출처 사이트 (예: "moyoplan", "mvnohub")
-  detailUrl: string | null; // 요금제 상세 페이지 URL
-  mvno: string;
-  network: string;
-  technology: string;
-  pricePromo: number;
-  priceOriginal: number | null;
-  promotionDurationMonths: number | null;
-  promotionEndDate: Date | null;
-  dataBaseGB: number;
-  dataPostSpeedMbps: number | null;
-  talkMinutes: number;
-  smsCount: number;
-  benefitSummary: string | null;
+interface ParsedCard {
+  card: CapturedCard;
+  plan: CrawledPlanData | null;
 }
 
 /**
- * 크롤러 서비스: Playwright를 사용한 알뜰폰 요금제 크롤링
+ * 크롤러 서비스: 등록된 크롤링 소스 실행 및 요금제 저장
  *
- * - 1시간마다 moyoplan.com에서 요금제 정보 수집
- * - 혜택 상세 정보 버튼을 모두 펼친 후 데이터 추출
- * - dataHash를 통한 변경 감지
- * - RawPlan 모델에 Upsert 저장
+ * - CrawlerModule에 등록된 소스 어댑터(CRAWLER_SOURCES)를 병렬 실행
+ * - planKey(요금제 고유 식별자) 기준으로 RawPlan에 Upsert 저장
+ * - dataHash를 통한 가격/스펙 변경 감지 및 PlanVersion 이력 기록
+ * - lastSeenAt/isActive를 통한 판매 종료 요금제 감지
+ * - 소스별 실행 결과를 CrawlRun에 기록
+ * - 수집량 급감(degraded) 감지 시 판매 종료 처리 생략
+ * - 앱 시작 시 모든 소스의 셀렉터 프로필 검증
+ * - 수집한 카드 원본을 RawCapture에 저장하고 재크롤링 없이 재파싱 지원
  */
 @Injectable()
-export class CrawlerService {
+export class CrawlerService implements OnModuleInit {
   private readonly logger = new Logger(CrawlerService.name);
 
   constructor(
     private configService: ConfigService,
     private prisma: PrismaService,
-    private playwrightService: PlaywrightService,
+    private crawlHealthService: CrawlHealthService,
+    private selectorProfileService: SelectorProfileService,
+    private mvnoDirectoryService: MvnoDirectoryService,
+    private planQuarantineService: PlanQuarantineService,
+    private failureArtifactService: FailureArtifactService,
+    private catalogService: CatalogService,
+    @Inject(CRAWLER_SOURCES) private readonly sources: CrawlerSource[],
   ) {}
 
   /**
-   * 요금제 데이터를 기반으로 해시 생성
-   * 핵심 스펙 필드만 사용하여 변경 감지 (planId 제거, sourceSite와 planName 조합 사용)
+   * 앱 시작 시 모든 소스의 셀렉터 프로필 검증
+   * 프로필이 없거나 잘못된 경우 예외를 던져 앱 시작을 중단합니다.
    */
-  private generateDataHash(plan: CrawledPlanData): string {
-    const hashSource = [
-      plan.sourceSite,
-      plan.planName,
-      plan.mvno,
-      plan.pricePromo,
-      plan.priceOriginal,
-      plan.dataBaseGB,
-      plan.dataPostSpeedMbps,
-      plan.talkMinutes,
-      plan.smsCount,
-      plan.promotionDurationMonths,
-      plan.technology,
-    ].join('|');
+  onModuleInit() {
+    for (const source of this.sources) {
+      const profile = this.selectorProfileService.load(source.name, source.selectorKeys);
+      this.logger.log(`${source.label} 셀렉터 프로필 검증 완료 (v${profile.version})`);
+    }
+  }
 
-    return crypto.createHash('sha256').update(hashSource).digest('hex');
+  /**
+   * 요금제 고유 식별 해시 생성
+   * 가격/스펙이 바뀌어도 유지되는 값만 사용 (sourceSite + detailUrl, 없으면 planName)
+   */
+  private generatePlanKey(plan: CrawledPlanData): string {
+    const keySource = [plan.sourceSite, plan.detailUrl ?? plan.planName].join('|');
+    return crypto.createHash('sha256').update(keySource).digest('hex');
   }
 
   /**
-   * 문자열에서 숫자 추출 (예: "7,990원" -> 7990, "7개월 이후 38,500원" -> 38500)
+   * 이력(PlanVersion)에 기록할 요금제 필드 추출
+   * 프로모션 종료 후 요금과 12/24개월 총 납부액을 함께 계산합니다.
    */
-  private extractNumber(text: string): number {
-    const cleaned = text.replace(/[^0-9]/g, '');
-    return cleaned ? parseInt(cleaned, 10) : 0;
+  private toVersionFields(plan: CrawledPlanData, dataHash: string) {
+    const pricePostPromo = resolvePostPromoPrice(
+      plan.pricePromo,
+      plan.pricePostPromo,
+      plan.promotionDurationMonths,
+    );
+
+    return {
+      dataHash,
+      planName: plan.planName,
+      mvno: plan.mvno,
+      network: normalizeNetwork(plan.network),
+      technology: normalizeTechnology(plan.technology),
+      pricePromo: plan.pricePromo,
+      priceOriginal: plan.priceOriginal,
+      pricePostPromo,
+      totalCost12M: calculateTotalCost(
+        plan.pricePromo,
+        pricePostPromo,
+        plan.promotionDurationMonths,
+        12,
+      ),
+      totalCost24M: calculateTotalCost(
+        plan.pricePromo,
+        pricePostPromo,
+        plan.promotionDurationMonths,
+        24,
+      ),
+      promotionDurationMonths: plan.promotionDurationMonths,
+      promotionEndDate: plan.promotionEndDate,
+      isLifetimePromotion: plan.isLifetimePromotion,
+      dataBaseGB: plan.dataBaseGB,
+      isDataUnlimited: plan.isDataUnlimited,
+      dataDailyGB: plan.dataDailyGB,
+      dataPostSpeedMbps: plan.dataPostSpeedMbps,
+      dataDailyPostSpeedMbps: plan.dataDailyPostSpeedMbps,
+      tetheringGB: plan.tetheringGB,
+      sharingGB: plan.sharingGB,
+      talkMinutes: plan.talkMinutes,
+      isTalkUnlimited: plan.isTalkUnlimited,
+      smsCount: plan.smsCount,
+      isSmsUnlimited: plan.isSmsUnlimited,
+      benefitSummary: plan.benefitSummary,
+    };
   }
 
   /**
-   * 복합 데이터 표현 파싱
-   * 예: "월 11GB + 매일 2GB + 3Mbps" -> { baseGB: 71, dailyGB: 2, speedMbps: 3 }
-   * 매일 2GB는 30일 기준 60GB로 환산하여 기본 데이터에 추가
+   * 요금제 1건 저장
+   *
+   * - planKey로 기존 요금제 조회
+   * - 신규: RawPlan과 첫 번째 PlanVersion 생성
+   * - dataHash 변경: 현재 버전을 닫고(validTo) 새 버전 추가 후 RawPlan 갱신
+   * - 변경 없음: RawPlan만 갱신 (updatedAt 및 해시에 포함되지 않는 필드)
+   * - 해시 입력 규칙만 바뀌어 값은 그대로인 경우: 새 버전 없이 RawPlan과 현재 버전의 dataHash만 갱신
+   * - 모든 경우 lastSeenAt 갱신 및 활성 상태로 복구
+   * - 사업자명은 MvnoDirectoryService로 정규화한 대표 이름으로 저장하고 Mvno와 연결
+   * - 혜택은 PlanBenefit으로 저장하고 1회성 혜택 가치 합계(benefitValueKrw) 갱신
+   * - 가성비 점수(실질 월 요금, GB/분당 요금)는 혜택 가치를 반영하여 매번 다시 계산
+   * - 통신망/통신 기술은 Network/Technology 열거형으로 정규화 (해시도 정규화된 값 기준)
+   * - 가입 조건은 상세 페이지를 수집한 경우에만 갱신 (미수집 시 기존 값 유지, 해시 미포함)
    */
-  private parseComplexDataExpression(text: string): {
-    totalGB: number;
-    dailyGB: number | null;
-    speedMbps: number | null;
-  } {
-    if (!text) return { totalGB: 0, dailyGB: null, speedMbps: null };
-    if (text.includes('무제한')) return { totalGB: 999, dailyGB: null, speedMbps: null };
-
-    let totalGB = 0;
-    let dailyGB: number | null = null;
-    let speedMbps: number | null = null;
-
-    // "월 XGB" 또는 단독 "XGB" 추출
-    const monthlyMatch = text.match(/(?:월\s*)?(\d+(?:\.\d+)?)\s*GB/i);
-    if (monthlyMatch) {
-      totalGB += parseFloat(monthlyMatch[1]);
+  private async upsertPlan(crawledPlan: CrawledPlanData, seenAt: Date): Promise<RawPlan> {
+    const network = normalizeNetwork(crawledPlan.network);
+    const technology = normalizeTechnology(crawledPlan.technology);
+    const mvno = await this.mvnoDirectoryService.resolve({
+      name: crawledPlan.mvno,
+      network,
+      logoUrl: crawledPlan.mvnoLogoUrl,
+    });
+    const plan: CrawledPlanData = {
+      ...crawledPlan,
+      mvno: mvno?.name ?? crawledPlan.mvno,
+      network,
+      technology,
+    };
+
+    const planKey = this.generatePlanKey(plan);
+    const dataHash = this.generateDataHash(plan);
+    const fields = this.toVersionFields(plan, dataHash);
+
+    const benefitValueKrw = sumBenefitValue(plan.benefits);
+    const planFields = {
+      mvnoId: mvno?.id ?? null,
+      benefitValueKrw,
+      ...calculateValueScore({ ...fields, benefitValueKrw }),
+    };
+    const signupFields = this.toSignupFields(plan.signup, seenAt);
+
+    const existing = await this.prisma.rawPlan.findUnique({ where: { planKey } });
+
+    if (!existing) {
+      return await this.prisma.rawPlan.create({
+        data: {
+          ...fields,
+          ...planFields,
+          ...signupFields,
+          planKey,
+          sourceSite: plan.sourceSite,
+          detailUrl: plan.detailUrl,
+          firstSeenAt: seenAt,
+          lastSeenAt: seenAt,
+          versions: { create: fields },
+          benefits: { create: plan.benefits },
+        },
+      });
     }
 
-    // "매일 XGB" 추출 (30일 기준 환산)
-    const dailyMatch = text.match(/매일\s*(\d+(?:\.\d+)?)\s*GB/i);
-    if (dailyMatch) {
-      dailyGB = parseFloat(dailyMatch[1]);
-      totalGB += dailyGB * 30; // 30일 기준 총 데이터량에 합산
+    const hashChanged = existing.dataHash !== dataHash;
+    if (hashChanged && findChangedPlanFields(existing, fields).length > 0) {
+      this.logger.log(
+        `요금제 변경 감지: ${plan.planName} (${plan.sourceSite}) ${existing.pricePromo}원 → ${plan.pricePromo}원`,
+      );
+
+      // 버전 이력과 혜택이 함께 반영되도록 하나의 트랜잭션으로 저장
+      const now = new Date();
+      return await this.prisma.$transaction(async (tx) => {
+        await tx.planVersion.updateMany({
+          where: { rawPlanId: existing.id, validTo: null },
+          data: { validTo: now },
+        });
+        await tx.planVersion.create({
+          data: { ...fields, rawPlanId: existing.id, validFrom: now },
+        });
+        const updatedPlan = await tx.rawPlan.update({
+          where: { id: existing.id },
+          data: {
+            ...fields,
+            ...planFields,
+            ...signupFields,
+            detailUrl: plan.detailUrl,
+            lastSeenAt: seenAt,
+            isActive: true,
+          },
+        });
+
+        await this.syncBenefits(tx, existing.id, plan.benefits);
+        return updatedPlan;
+      });
     }
 
-    // "XMbps" 속도 제한 추출
-    const speedMatch = text.match(/(\d+(?:\.\d+)?)\s*Mbps/i);
-    if (speedMatch) {
-      speedMbps = parseFloat(speedMatch[1]);
-    }
+    return await this.prisma.$transaction(async (tx) => {
+      if (hashChanged) {
+        await tx.planVersion.updateMany({
+          where: { rawPlanId: existing.id, validTo: null },
+          data: { dataHash },
+        });
+      }
 
-    // MB 단위 처리
-    const mbMatch = text.match(/(\d+(?:\.\d+)?)\s*MB/i);
-    if (mbMatch && totalGB === 0) {
-      totalGB = parseFloat(mbMatch[1]) / 1024;
-    }
+      const updatedPlan = await tx.rawPlan.update({
+        where: { id: existing.id },
+        data: {
+          ...fields,
+          ...planFields,
+          ...signupFields,
+          detailUrl: plan.detailUrl,
+          lastSeenAt: seenAt,
+          isActive: true,
+          updatedAt: new Date(),
+        },
+      });
 
-    return { totalGB, dailyGB, speedMbps };
+      await this.syncBenefits(tx, existing.id, plan.benefits);
+      return updatedPlan;
+    });
   }
 
   /**
-   * 데이터량 텍스트를 GB 숫자로 변환 (하위 호환성 유지)
-   * 예: "5GB" -> 5, "무제한" -> 999, "500MB" -> 0.5
+   * 저장 전 데이터 품질 검증
+   * 검증 규칙(validateCrawledPlan)을 통과하지 못한 요금제는 격리하고 false를 반환합니다.
    */
-  private parseDataAmount(text: string): number {
-    const parsed = this.parseComplexDataExpression(text);
-    return parsed.totalGB;
+  private async passesValidation(
+    plan: CrawledPlanData,
+    seenAt: Date,
+    crawlRunId: number | null,
+  ): Promise<boolean> {
+    const reasons = validateCrawledPlan(plan);
+    if (reasons.length === 0) {
+      return true;
+    }
+
+    await this.planQuarantineService.quarantine({
+      planKey: this.generatePlanKey(plan),
+      plan,
+      reasons,
+      seenAt,
+      crawlRunId,
+    });
+    return false;
   }
 
   /**
-   * 통화/문자 제공량 파싱
-   * 무제한은 9999로 반환
+   * 격리된 요금제 릴리스: 검토된 값으로 RawPlan 저장 후 격리 기록을 RELEASED로 갱신
+   *
+   * 상태/검증 확인은 호출하는 쪽(CrawlerController)에서 처리합니다.
+   * 저장 시각(lastSeenAt)은 크롤링에서 마지막으로 확인된 시각을 사용합니다.
+   *
+   * @param record 검토 대기(PENDING) 격리 기록
+   * @param reviewedBy 검토자
+   * @param reviewNote 릴리스 사유 (검증 사유가 남은 채 강제 릴리스하는 경우 등)
    */
-  private parseUnlimitedOrNumber(text: string): number {
-    if (!text) return 0;
-    if (text.includes('무제한') || text.includes('기본제공')) return 9999;
-    return this.extractNumber(text);
+  async releaseQuarantinedPlan(
+    record: QuarantinedPlan,
+    reviewedBy: string,
+    reviewNote: string | null,
+  ): Promise<{ plan: RawPlan; record: QuarantinedPlan }> {
+    const plan = await this.upsertPlan(
+      this.planQuarantineService.toPlanData(record),
+      record.lastSeenAt,
+    );
+    const released = await this.planQuarantineService.markReleased(
+      record.id,
+      plan.id,
+      reviewedBy,
+      reviewNote,
+    );
+    await this.syncCanonicalPlans();
+
+    return { plan, record: released };
   }
 
   /**
-   * 속도 제한 파싱 (예: "3Mbps" -> 3, "무제한" -> null)
+   * 가입 조건 저장 필드 변환
+   * 상세 페이지를 수집하지 않았으면 빈 객체를 반환하여 기존 값을 덮어쓰지 않습니다.
+   * (프로모션 종료일은 버전 필드로 저장되므로 제외)
    */
-  private parseSpeed(text: string): number | null {
-    if (!text || text.includes('무제한')) return null;
-    const match = text.match(/(\d+(?:\.\d+)?)\s*Mbps/i);
-    return match ? parseFloat(match[1]) : null;
+  private toSignupFields(
+    signup: SignupConditionData | null | undefined,
+    seenAt: Date,
+  ): Partial<Omit<SignupConditionData, 'promotionEndDate'> & { detailCrawledAt: Date }> {
+    if (!signup) {
+      return {};
+    }
+
+    const { promotionEndDate, ...conditions } = signup;
+    return { ...conditions, detailCrawledAt: seenAt };
   }
 
   /**
-   * 할인 기간 파싱 (예: "7개월 이후" -> 7, "평생" -> 999)
+   * 요금제 혜택(PlanBenefit) 동기화
+   * 파싱된 혜택 목록이 저장된 목록과 다를 때만 통째로 교체합니다.
+   *
+   * @param tx 요금제/버전을 저장하는 트랜잭션 (혜택 교체도 같은 트랜잭션에서 처리)
    */
-  private parsePromotionDuration(text: string): number | null {
-    if (!text) return null;
-    if (text.includes('평생') || text.includes('영구')) return 999;
+  private async syncBenefits(
+    tx: Prisma.TransactionClient,
+    rawPlanId: number,
+    benefits: PlanBenefitData[],
+  ): Promise<void> {
+    const stored = await tx.planBenefit.findMany({
+      where: { rawPlanId },
+      orderBy: { id: 'asc' },
+    });
+
+    const toComparable = (benefit: PlanBenefitData) =>
+      [
+        benefit.type,
+        benefit.title,
+        benefit.valueKrw,
+        benefit.monthlyDiscountKrw,
+        benefit.bonusDataGB,
+        benefit.conditions,
+        benefit.rawText,
+      ].join('|');
+
+    const unchanged =
+      stored.length === benefits.length &&
+      stored.every((benefit, index) => toComparable(benefit) === toComparable(benefits[index]));
+    if (unchanged) {
+      return;
+    }
 
-    const match = text.match(/(\d+)\s*개월/);
-    return match ? parseInt(match[1], 10) : null;
+    await tx.planBenefit.deleteMany({ where: { rawPlanId } });
+    await tx.planBenefit.createMany({
+      data: benefits.map((benefit) => ({ ...benefit, rawPlanId })),
+    });
   }
 
   /**
-   * 사은품 정보 파싱 및 포맷팅
-   * 예: ["네이버페이 10,000P 제공", "데이터 결합 (추가데이터 20GB)"]
-   *     -> "네이버페이 10,000P | 추가 데이터 20GB"
+   * 요금제 가격/스펙 변경 이력 조회 (최신순)
+   *
+   * @param rawPlanId 요금제 ID
+   * @returns 요금제와 이력 목록, 요금제가 없으면 null
    */
-  private parseBenefits(benefitTexts: string[]): string | null {
-    if (!benefitTexts || benefitTexts.length === 0) return null;
-
-    const cleanedBenefits = benefitTexts
-      .map((text) => {
-        // 불필요한 접두사/접미사 제거
-        return text
-          .replace(/제공$/, '')
-          .replace(/^\s*-\s*/, '')
-          .replace(/데이터 결합\s*\(/g, '')
-          .replace(/추가데이터/g, '추가 데이터')
-          .replace(/\)$/g, '')
-          .trim();
-      })
-      .filter((text) => text.length > 0);
-
-    return cleanedBenefits.length > 0 ? cleanedBenefits.join(' | ') : null;
+  async getPlanHistory(rawPlanId: number): Promise<(RawPlan & { versions: PlanVersion[] }) | null> {
+    return await this.prisma.rawPlan.findUnique({
+      where: { id: rawPlanId },
+      include: {
+        versions: {
+          orderBy: { validFrom: 'desc' },
+        },
+      },
+    });
   }
 
   /**
-   * moyoplan.com에서 알뜰폰 요금제 크롤링
-   * 혜택 상세 정보 버튼을 모두 펼친 후 데이터 추출
+   * 등록된 모든 크롤링 소스 조회
    */
-  async crawlPlans(): Promise<CrawledPlanData[]> {
-    const targetUrl =
-      this.configService.get<string>('CRAWLER_TARGET_URL') || 'https://www.moyoplan.com';
-
-    this.logger.log(`크롤링 시작: ${targetUrl}`);
-    const context = await this.playwrightService.createContext();
-
-    // 데이터 피커 모달 방지 쿠키 설정
-    await context.addCookies([
-      {
-        name: '_moyo_plans_filter_data_picker_saw',
-        value: 'true',
-        domain: 'www.moyoplan.com',
-        path: '/',
-        httpOnly: false,
-        secure: false,
-        expires: Math.floor(Date.now() / 1000) + 60 * 60 * 24, // +1일
-      },
-    ]);
-
-    const page = await context.newPage();
-
-    try {
-      // 대상 URL로 이동
-      await page.goto(targetUrl, { waitUntil: 'domcontentloaded', timeout: 60000 });
-      await page.locator('a[href="/plans"]').first().click();
-      this.logger.log('페이지 로드 완료, 요금제 카드 대기 중...');
-
-      // 데이터 피커 모달 닫기 함수
-      const closeDataPickerModal = async () => {
-        const modal = page.locator('div[data-sentry-component="PlansDataPickerModal"]');
-        if (await modal.isVisible()) {
-          this.logger.log('데이터 피커 모달 발견, 닫기 시도...');
-          await page.mouse.click(10, 10);
-          await page.waitForTimeout(300);
-        }
-      };
-
-      await closeDataPickerModal();
-
-      // 요금제 카드 로드 대기
-      await page.waitForSelector('div[class*="basic-plan-card"]', { timeout: 30000 });
-      this.logger.log('요금제 카드 로드 완료.');
-
-      // ============================================================
-      // 1️⃣ 모든 혜택/상세 정보 버튼 펼치기
-      // ============================================================
-      const expandAllAccordions = async () => {
-        let closedButtons = page.locator(
-          'button[data-orientation="vertical"][data-state="closed"]',
-        );
-        let count = await closedButtons.count();
-        let tries = 0;
-
-        while (count > 0 && tries < 8) {
-          this.logger.log(`닫힌 버튼 ${count}개 발견, 펼치는 중...`);
-          for (let i = 0; i < count; i++) {
-            try {
-              await closedButtons.nth(i).click({ force: true, timeout: 1000 });
-            } catch {
-              // 버튼 클릭 실패 무시
-            }
-          }
-          await page.waitForTimeout(400);
-          closedButtons = page.locator('button[data-orientation="vertical"][data-state="closed"]');
-          count = await closedButtons.count();
-          tries++;
-        }
-      };
-
-      await expandAllAccordions();
-      this.logger.log('모든 상세 정보 버튼 펼치기 완료.');
-
-      // DOM 업데이트 대기
-      await page.waitForTimeout(1000);
-      this.logger.log('DOM 업데이트 대기 완료, 크롤링 시작...');
-
-      // ============================================================
-      // 2️⃣ 모든 페이지 순회
-      // ============================================================
-      const allPlans: {
-        planName: string;
-        detailUrl: string | null;
-        mvno: string;
-        dataSummary: string;
-        promoPriceText: string;
-        originalPriceText: string;
-        talkText: string;
-        smsText: string;
-        networkText: string;
-        technologyText: string;
-        benefits: string[];
-      }[] = [];
-      let currentPage = 1;
-      let hasMorePages = true;
-
-      while (hasMorePages) {
-        this.logger.log(`========== 페이지 ${currentPage} 크롤링 시작 ==========`);
-
-        // 요금제 카드만 선택 (숫자 ID가 포함된 /plans/ 링크만)
-        const cards = page.locator('a[href^="/plans/"]:has(img[alt])');
-        const count = await cards.count();
-        this.logger.log(`페이지 ${currentPage}에서 ${count}개 카드 발견`);
-
-        for (let i = 0; i < count; i++) {
-          try {
-            this.logger.debug(`카드 ${i + 1}/${count} 처리 중...`);
-            const card = cards.nth(i);
-
-            // 요금제 상세 페이지 URL 추출
-            this.logger.debug(`  - URL 추출 중...`);
-            const planUrl = (await card.getAttribute('href')) || '';
-            const detailUrl = planUrl ? `https://www.moyoplan.com${planUrl}` : null;
-            this.logger.debug(`    URL: ${detailUrl}`);
-
-            // MVNO 이름 (img의 alt 속성)
-            this.logger.debug(`  - MVNO 추출 중...`);
-            const mvno = await card
-              .locator('img[alt]')
-              .first()
-              .getAttribute('alt', { timeout: 3000 })
-              .catch(() => null);
-            this.logger.debug(`    MVNO: ${mvno}`);
-
-            // 요금제 이름과 데이터 요약 추출
-            this.logger.debug(`  - 요금제 이름 & 데이터 요약 추출 중...`);
-            const allSpans = await card.locator('span').allTextContents();
-            this.logger.debug(`    전체 span 개수: ${allSpans.length}`);
-
-            // GB/Mbps 포함 텍스트들 (데이터 요약 후보)
-            const dataTexts = allSpans.filter(
-              (text) =>
-                (text.includes('GB') || text.includes('Mbps')) &&
-                text.length > 2 && // 최소 길이 완화 (5 → 2)
-                !text.includes('원'), // 가격 제외
-            );
-
-            // 데이터 요약: "월" 포함하거나 "+" 포함 (예: "월 100GB + 5Mbps")
-            const dataSummary =
-              dataTexts.find(
-                (text) => text.includes('월') || (text.includes('+') && text.includes('Mbps')),
-              ) ||
-              dataTexts[0] ||
-              '';
-
-            // 요금제 이름: 데이터 요약이 아닌 것 중에서
-            // 1. 대괄호 포함 (예: [모요핫딜])
-            // 2. 괄호 포함 (예: 5G 스마트플러스(200분 + 5GB))
-            // 3. 8자 이상이고 제외 키워드 없는 것
-            const planName =
-              allSpans.find((text) => {
-                const trimmed = text.trim();
-                if (trimmed === dataSummary) return false; // 데이터 요약 제외
-                if (trimmed.length < 5) return false;
-
-                // 제외 패턴
-                if (trimmed.includes('원')) return false; // 가격
-                if (trimmed.includes('선택')) return false; // "XXX명이 선택"
-                if (trimmed.match(/^\d+\.\d+$/)) return false; // 별점 (예: "4.3")
-                if (trimmed.match(/^(통화|문자)\s*(무제한|\d+분|\d+건)$/)) return false; // "통화 200분", "문자 100건"
-                if (trimmed.match(/^(KT|SKT|LG U\+)망$/)) return false; // "SKT망"
-                if (trimmed.match(/^(LTE|5G)$/)) return false; // "LTE", "5G"
-                if (trimmed.match(/^월\s*\d+GB$/i)) return false; // "월 5GB" (데이터 요약)
-
-                // 포함 패턴 (우선순위 순)
-                if (trimmed.includes('[')) return true; // 대괄호 우선 (예: [모요핫딜])
-                if (trimmed.includes('(') && trimmed.includes(')')) return true; // 괄호 포함 (예: 스마트플러스(200분 + 5GB))
-                if (trimmed.length >= 8) return true; // 8자 이상
-
-                return false;
-              }) || null;
-
-            this.logger.debug(`    planName: ${planName}`);
-            this.logger.debug(`    dataSummary: ${dataSummary}`);
-
-            // 프로모션 가격 ("월" 포함하고 "이후" 미포함)
-            this.logger.debug(`  - 프로모션 가격 추출 중...`);
-            const promoPrice =
-              allSpans.find(
-                (text) => text.includes('월') && text.includes('원') && !text.includes('이후'),
-              ) || '';
-
-            // 원래 가격 ("개월 이후" 포함)
-            this.logger.debug(`  - 원래 가격 추출 중...`);
-            const originalPrice =
-              allSpans.find((text) => text.includes('개월') && text.includes('이후')) || '';
-
-            // 통화/문자/망/기술 스펙
-            this.logger.debug(`  - 스펙 정보 추출 중...`);
-            const specs = allSpans.filter(
-              (text) =>
-                text.includes('통화') ||
-                text.includes('문자') ||
-                text.includes('망') ||
-                /LTE|5G/.test(text),
-            );
-
-            const talkText = specs.find((t) => t.includes('통화')) || '';
-            const smsText = specs.find((t) => t.includes('문자')) || '';
-            const networkText = specs.find((t) => /(KT|SKT|LG U\+|LGU)/.test(t)) || ''; // "LG U+" 추가
-            const technologyText = specs.find((t) => /(LTE|5G)/.test(t)) || '';
-
-            // 사은품 정보 추출 (Accordion 내부 - data-state="open"인 div 안의 p 태그)
-            this.logger.debug(`  - 사은품 정보 추출 중...`);
-            const benefitItems = await card
-              .locator('div[data-state="open"] p')
-              .allTextContents()
-              .catch(() => []);
-
-            if (mvno && planName) {
-              allPlans.push({
-                planName: planName.trim(),
-                detailUrl,
-                mvno,
-                dataSummary: dataSummary?.trim(),
-                promoPriceText: promoPrice?.trim(),
-                originalPriceText: originalPrice?.trim(),
-                talkText,
-                smsText,
-                networkText,
-                technologyText,
-                benefits: benefitItems,
-              });
-              this.logger.debug(`✓ 카드 ${i + 1} 완료: ${planName?.trim()}`);
-            } else {
-              this.logger.warn(`✗ 카드 ${i + 1} 스킵: mvno=${mvno}, planName=${planName}`);
-            }
-          } catch (error) {
-            this.logger.error(`카드 ${i + 1} 처리 중 에러:`, error);
-            // 개별 카드 에러는 무시하고 계속 진행
-          }
-        }
-
-        this.logger.log(`페이지 ${currentPage} 완료: 총 ${allPlans.length}개 누적`);
-
-        // 다음 페이지로 이동
-        const nextPageLink = page.locator(`a[href="/plans?page=${currentPage + 1}"]`);
-        const hasNextPage = await nextPageLink.isVisible();
-
-        if (hasNextPage) {
-          this.logger.log(`다음 페이지(${currentPage + 1})로 이동 중...`);
-          await nextPageLink.first().click();
-          await page.waitForLoadState('networkidle');
-          this.logger.log(`페이지 ${currentPage + 1} 로드 완료`);
-
-          await closeDataPickerModal();
-          await expandAllAccordions();
-          await page.waitForTimeout(1000); // DOM 업데이트 대기
-
-          currentPage++;
-        } else {
-          hasMorePages = false;
-          this.logger.log(
-            `========== 모든 페이지 크롤링 완료 (총 ${currentPage}페이지) ==========`,
-          );
-        }
-      }
-
-      // ============================================================
-      // 3️⃣ 데이터 후처리 및 CrawledPlanData 변환
-      // ============================================================
-      this.logger.log(`데이터 변환 시작: ${allPlans.length}개 요금제`);
-      const crawledPlans: CrawledPlanData[] = allPlans.map((plan) => {
-        const mvno = plan.mvno;
-        const planName = plan.planName;
-        const sourceSite = 'moyoplan'; // 현재 크롤링 출처
-        const detailUrl = plan.detailUrl;
-
-        // 망 정보 정규화 ("KT망" → "KT", "LG U+망" → "LG U+")
-        let network = (plan.networkText || 'Unknown').replace(/망$/, '').trim();
-        // "LGU" → "LG U+" 정규화
-        if (network === 'LGU') {
-          network = 'LG U+';
-        }
-
-        const technology = plan.technologyText || 'LTE';
-        const pricePromo = this.extractNumber(plan.promoPriceText);
-        const priceOriginal = plan.originalPriceText
-          ? this.extractNumber(plan.originalPriceText)
-          : null;
-        const promotionDurationMonths = this.parsePromotionDuration(plan.originalPriceText || '');
-        const promotionEndDate = null;
-
-        // 복합 데이터 표현 파싱 (월 11GB + 매일 2GB + 3Mbps)
-        const dataInfo = this.parseComplexDataExpression(plan.dataSummary);
-        const dataBaseGB = dataInfo.totalGB;
-        const dataPostSpeedMbps = dataInfo.speedMbps;
-
-        const talkMinutes = this.parseUnlimitedOrNumber(plan.talkText);
-        const smsCount = this.parseUnlimitedOrNumber(plan.smsText);
-        const benefitSummary = this.parseBenefits(plan.benefits);
-
-        return {
-          planName,
-          sourceSite,
-          detailUrl,
-          mvno,
-          network,
-          technology,
-          pricePromo,
-          priceOriginal,
-          promotionDurationMonths,
-          promotionEndDate,
-          dataBaseGB,
-          dataPostSpeedMbps,
-          talkMinutes,
-          smsCount,
-          benefitSummary,
-        };
-      });
-
-      this.logger.log(`총 ${crawledPlans.length}개 요금제 크롤링 완료`);
-      return crawledPlans;
-    } catch (error) {
-      this.logger.error('크롤링 실패:', error);
-      throw error;
-    } finally {
-      await page.close();
-      await context.close();
-      await this.playwrightService.closeBrowser();
-    }
+  getSources(): CrawlerSource[] {
+    return this.sources;
   }
 
   /**
-   * U+ 알뜰폰 공식몰 크롤링
-   * - 출처: https://www.uplusmvno.com/plan/plan-list
-   * - SPA 기반 사이트, Playwright로 DOM 접근
-   * - 페이지네이션 지원 (다음 버튼 클릭)
+   * 실행할 크롤링 소스 선택
+   *
+   * - 소스 이름을 지정하지 않으면 활성화(enabled)된 소스 전체
+   * - 이름을 지정하면 활성화 여부와 관계없이 해당 소스 실행
+   * - 등록되지 않은 이름이 포함되면 에러
    */
-  async crawlPlansUplus(): Promise<CrawledPlanData[]> {
-    const targetUrl = 'https://www.uplusmvno.com/plan/plan-list';
-    this.logger.log(`U+ 알뜰폰 크롤링 시작: ${targetUrl}`);
+  private resolveSources(names?: string[]): CrawlerSource[] {
+    if (!names || names.length === 0) {
+      return this.sources.filter((source) => source.getConfig().enabled);
+    }
 
-    const context = await this.playwrightService.createContext();
-    const page = await context.newPage();
+    const unknownNames = names.filter((name) => !this.sources.some((s) => s.name === name));
+    if (unknownNames.length > 0) {
+      const registered = this.sources.map((s) => s.name).join(', ');
+      throw new Error(
+        `등록되지 않은 크롤링 소스: ${unknownNames.join(', ')} (등록된 소스: ${registered})`,
+      );
+    }
 
-    try {
-      // 페이지 이동
-      await page.goto(targetUrl, { waitUntil: 'domcontentloaded', timeout: 60000 });
-
-      // .plan_item 렌더링 대기
-      await page.waitForSelector('.plan_item', { timeout: 30000 });
-      this.logger.log('.plan_item 로드 완료');
-
-      const crawledPlans: CrawledPlanData[] = [];
-      let currentPage = 1;
-      let hasNextPage = true;
-
-      // ============================================================
-      // 모든 페이지 순회
-      // ============================================================
-      while (hasNextPage) {
-        this.logger.log(`========== 페이지 ${currentPage} 크롤링 시작 ==========`);
-
-        // 현재 페이지의 모든 요금제 카드 수집
-        const planItems = page.locator('.plan_item');
-        const count = await planItems.count();
-        this.logger.log(`페이지 ${currentPage}에서 ${count}개 요금제 발견`);
-
-        for (let i = 0; i < count; i++) {
-          try {
-            const item = planItems.nth(i);
-
-            // 1. 요금제명
-            const planName =
-              (await item.locator('.plan_tit').first().textContent({ timeout: 3000 })) || 'Unknown';
-
-            // 2. 데이터 요약 (예: "월 100GB + 5Mbps")
-            const dataSummary =
-              (await item
-                .locator('.plan_tit_sub')
-                .first()
-                .textContent({ timeout: 3000 })
-                .catch(() => null)) || '';
-
-            // 3. 제휴사 (data-gtm-click-text에서 추출)
-            // 예: "에스원안심모바일|[유심/eSIM무료+Npay 3만P] 100GB+/통화마음껏_24개월|월 100GB + 5Mbps"
-            const gtmClickText =
-              (await item
-                .locator('a.link_list')
-                .first()
-                .getAttribute('data-gtm-click-text', { timeout: 3000 })
-                .catch(() => null)) || null;
-
-            let mvno = 'Unknown';
-            if (gtmClickText) {
-              // 파이프(|)로 분리하여 첫 번째 부분이 MVNO
-              const parts = gtmClickText.split('|');
-              if (parts.length > 0) {
-                mvno = parts[0].trim() || 'Unknown';
-              }
-            }
-
-            // 4. 네트워크 (LTE/5G)
-            const cellularText =
-              (await item
-                .locator('.cellular')
-                .first()
-                .textContent({ timeout: 3000 })
-                .catch(() => null)) || '';
-            const technology = cellularText.includes('5G') ? '5G' : 'LTE';
-
-            // 5. 통화량
-            const phoneText =
-              (await item
-                .locator('.phone')
-                .first()
-                .textContent({ timeout: 3000 })
-                .catch(() => null)) || '';
-            const talkMinutes =
-              phoneText.includes('기본제공') || phoneText.includes('무제한')
-                ? 9999
-                : this.extractNumber(phoneText);
-
-            // 6. 월 요금 (텍스트 노드만 추출하여 tooltip 제외)
-            const monthPriceText =
-              (await item
-                .locator('.card_price .month')
-                .first()
-                .evaluate((el: Element) => {
-                  // childNodes에서 텍스트 노드만 추출 (tooltip 버튼 제외)
-                  const textNodes = Array.from(el.childNodes)
-                    .filter((node) => node.nodeType === Node.TEXT_NODE)
-                    .map((node) => node.textContent?.trim() || '')
-                    .filter((text) => text.length > 0);
-                  return textNodes.join(' ');
-                })
-                .catch(() => '')) || '';
-            const pricePromo = this.extractNumber(monthPriceText);
-
-            // 7. 정상 요금 및 계약 기간 (예: "24개월 이후 44,000원")
-            const periodText =
-              (await item
-                .locator('.card_price .period')
-                .first()
-                .textContent({ timeout: 3000 })
-                .catch(() => null)) || '';
-            const priceOriginal = periodText ? this.extractNumber(periodText) : null;
-
-            // 계약 기간 파싱
-            const contractMatch = periodText.match(/(\d+)\s*개월/);
-            const contractPeriod = contractMatch ? parseInt(contractMatch[1], 10) : null;
-
-            // 8. 상세 URL
-            const detailUrl =
-              (await item
-                .locator('a.link_list')
-                .first()
-                .getAttribute('data-gtm-click-url', { timeout: 3000 })
-                .catch(() => null)) || null;
-
-            // 9. 혜택 정보 (사은품 버튼 클릭하여 추출)
-            let benefitSummary: string | null = null;
-            try {
-              const benefitButton = item.locator('button.btn_acc');
-              const benefitButtonExists = await benefitButton.count();
-
-              if (benefitButtonExists > 0) {
-                // aria-expanded가 false면 버튼 클릭하여 펼치기
-                const isExpanded = (await benefitButton.getAttribute('aria-expanded')) === 'true';
-
-                if (!isExpanded) {
-                  await benefitButton.click({ timeout: 2000 });
-                  await page.waitForTimeout(500); // 애니메이션 대기
-                }
-
-                // 혜택 이미지의 alt 텍스트 수집
-                const giftImages = item.locator('.bag_list img[alt]');
-                const benefitAlts = await giftImages.evaluateAll((imgs: Element[]) =>
-                  imgs
-                    .map((img: Element) => (img as HTMLImageElement).alt)
-                    .filter((alt: string) => alt && alt.trim() && !alt.includes('이미지')),
-                );
-
-                if (benefitAlts.length > 0) {
-                  benefitSummary = benefitAlts.join(' | ');
-                }
-              }
-            } catch (benefitError) {
-              this.logger.debug(`혜택 정보 추출 실패 (카드 ${i + 1}):`, benefitError);
-              // 혜택 정보 실패는 무시하고 계속 진행
-            }
-
-            // 데이터량 파싱 (예: "월 100GB + 5Mbps" -> 100)
-            const dataBaseGB = this.parseDataAmount(dataSummary);
-
-            // 속도 제한 파싱 (예: "월 100GB + 5Mbps" -> 5)
-            const dataPostSpeedMbps = this.parseSpeed(dataSummary);
-
-            // CrawledPlanData 생성
-            const crawledPlan: CrawledPlanData = {
-              planName: planName.trim(),
-              sourceSite: 'uplus',
-              detailUrl,
-              mvno,
-              network: 'LG U+', // U+ 알뜰폰은 모두 LG U+ 망 사용
-              technology,
-              pricePromo,
-              priceOriginal,
-              promotionDurationMonths: contractPeriod,
-              promotionEndDate: null,
-              dataBaseGB,
-              dataPostSpeedMbps,
-              talkMinutes,
-              smsCount: 9999, // U+ 알뜰폰은 일반적으로 문자 무제한 제공
-              benefitSummary,
-            };
-
-            crawledPlans.push(crawledPlan);
-            this.logger.debug(`✓ ${i + 1}/${count} 완료: ${planName.trim()}`);
-          } catch (error) {
-            this.logger.error(`카드 ${i + 1} 처리 중 에러:`, error);
-            // 개별 카드 에러는 무시하고 계속 진행
-          }
-        }
+    return this.sources.filter((source) => names.includes(source.name));
+  }
 
-        this.logger.log(`페이지 ${currentPage} 완료: 총 ${crawledPlans.length}개 누적`);
-
-        // 다음 페이지로 이동
-        const nextButton = page.locator('button:has-text("다음")').first();
-        const nextButtonExists = await nextButton.count();
-
-        if (nextButtonExists > 0 && (await nextButton.isVisible())) {
-          this.logger.log(`다음 페이지(${currentPage + 1})로 이동 중...`);
-          await nextButton.click();
-          await page.waitForTimeout(2000); // 페이지 로딩 대기
-          await page.waitForSelector('.plan_item', { timeout: 10000 });
-          currentPage++;
-        } else {
-          hasNextPage = false;
-          this.logger.log(
-            `========== 모든 페이지 크롤링 완료 (총 ${currentPage}페이지) ==========`,
-          );
-        }
-      }
+  /**
+   * 요금제 데이터를 기반으로 해시 생성
+   * 핵심 스펙 필드만 사용하여 변경 감지 (planId 제거, sourceSite와 planName 조합 사용)
+   */
+  private generateDataHash(plan: CrawledPlanData): string {
+    const hashSource = [
+      plan.sourceSite,
+      plan.planName,
+      plan.mvno,
+      plan.pricePromo,
+      plan.priceOriginal,
+      plan.pricePostPromo,
+      plan.dataBaseGB,
+      plan.isDataUnlimited,
+      plan.dataDailyGB,
+      plan.dataPostSpeedMbps,
+      plan.dataDailyPostSpeedMbps,
+      plan.tetheringGB,
+      plan.sharingGB,
+      plan.talkMinutes,
+      plan.isTalkUnlimited,
+      plan.smsCount,
+      plan.isSmsUnlimited,
+      plan.promotionDurationMonths,
+      plan.isLifetimePromotion,
+      plan.technology,
+    ].join('|');
 
-      this.logger.log(`U+ 알뜰폰 크롤링 완료: ${crawledPlans.length}개 요금제`);
-      return crawledPlans;
-    } catch (error) {
-      this.logger.error('U+ 알뜰폰 크롤링 실패:', error);
-      throw error;
-    } finally {
-      await page.close();
-      await context.close();
-      await this.playwrightService.closeBrowser();
-    }
+    return crypto.createHash('sha256').update(hashSource).digest('hex');
   }
 
   /**
@@ -750,13 +465,23 @@ export class CrawlerService {
         technology: 'LTE',
         pricePromo: 12000,
         priceOriginal: 38500,
+        pricePostPromo: 38500,
         promotionDurationMonths: 7,
         promotionEndDate: null,
+        isLifetimePromotion: false,
         dataBaseGB: 11,
-        dataPostSpeedMbps: 3,
-        talkMinutes: 9999,
-        smsCount: 9999,
+        isDataUnlimited: false,
+        dataDailyGB: 2,
+        dataPostSpeedMbps: null,
+        dataDailyPostSpeedMbps: 3,
+        tetheringGB: null,
+        sharingGB: null,
+        talkMinutes: null,
+        isTalkUnlimited: true,
+        smsCount: null,
+        isSmsUnlimited: true,
         benefitSummary: '7개월 할인, 기본 통화 + 11GB 데이터',
+        benefits: [],
       },
       {
         planName: '알뜰 5G 무제한',
@@ -767,13 +492,23 @@ export class CrawlerService {
         technology: '5G',
         pricePromo: 35000,
         priceOriginal: 40000,
+        pricePostPromo: 40000,
         promotionDurationMonths: 12,
         promotionEndDate: null,
-        dataBaseGB: 999,
+        isLifetimePromotion: false,
+        dataBaseGB: 0,
+        isDataUnlimited: true,
+        dataDailyGB: null,
         dataPostSpeedMbps: null,
-        talkMinutes: 9999,
-        smsCount: 9999,
+        dataDailyPostSpeedMbps: null,
+        tetheringGB: null,
+        sharingGB: null,
+        talkMinutes: null,
+        isTalkUnlimited: true,
+        smsCount: null,
+        isSmsUnlimited: true,
         benefitSummary: '12개월 할인, 무제한 통화 + 무제한 데이터',
+        benefits: [],
       },
       {
         planName: '프리티 프리미엄',
@@ -784,13 +519,23 @@ export class CrawlerService {
         technology: '5G',
         pricePromo: 55000,
         priceOriginal: null,
+        pricePostPromo: null,
         promotionDurationMonths: null,
         promotionEndDate: null,
-        dataBaseGB: 999,
+        isLifetimePromotion: false,
+        dataBaseGB: 0,
+        isDataUnlimited: true,
+        dataDailyGB: null,
         dataPostSpeedMbps: null,
-        talkMinutes: 9999,
-        smsCount: 9999,
+        dataDailyPostSpeedMbps: null,
+        tetheringGB: null,
+        sharingGB: null,
+        talkMinutes: null,
+        isTalkUnlimited: true,
+        smsCount: null,
+        isSmsUnlimited: true,
         benefitSummary: '무제한 통화 + 무제한 데이터',
+        benefits: [],
       },
     ];
 
@@ -802,123 +547,435 @@ export class CrawlerService {
    * 크롤링 및 DB 저장 메인 메서드
    *
    * @param useDemo true면 더미 데이터, false면 실제 크롤링
-   * @param sources 크롤링할 소스 배열 (기본값: ['moyo', 'uplus'])
+   * @param sourceNames 크롤링할 소스 이름 배열 (기본값: 활성화된 모든 소스)
    * @returns Upsert된 요금제 데이터 배열
    */
-  async crawlAndSavePlans(
-    useDemo = true,
-    sources: ('moyo' | 'uplus')[] = ['moyo', 'uplus'],
-  ): Promise<RawPlan[]> {
+  async crawlAndSavePlans(useDemo = true, sourceNames?: string[]): Promise<RawPlan[]> {
     try {
       this.logger.log('크롤러 워크플로우 시작...');
 
-      let crawledPlans: CrawledPlanData[] = [];
+      // 이번 크롤링에서 확인된 요금제의 lastSeenAt 기준 시각
+      const seenAt = new Date();
+      const upsertedPlans: RawPlan[] = [];
 
       if (useDemo) {
-        // 1-A. 더미 데이터 생성
-        crawledPlans = this.crawlPlansDemo();
+        // 1-A. 더미 데이터 생성 및 저장 (판매 종료 감지 없음)
+        const crawledPlans = this.crawlPlansDemo();
+        this.logger.log(`${crawledPlans.length}개 요금제 데이터 추출 완료`);
+
+        upsertedPlans.push(...(await this.savePlans(crawledPlans, seenAt)));
       } else {
-        // 1-B. 실제 크롤링 (병렬 실행)
-        const crawlTasks: Promise<CrawledPlanData[]>[] = [];
-
-        if (sources.includes('moyo')) {
-          crawlTasks.push(
-            this.crawlPlans().catch((error) => {
-              this.logger.error('Moyo 크롤링 실패:', error);
-              return []; // 실패 시 빈 배열 반환
-            }),
-          );
-        }
+        // 1-B. 실제 크롤링 (등록된 소스 병렬 실행, 일부 실패해도 계속 진행)
+        const sources = this.resolveSources(sourceNames);
 
-        if (sources.includes('uplus')) {
-          crawlTasks.push(
-            this.crawlPlansUplus().catch((error) => {
-              this.logger.error('U+ 크롤링 실패:', error);
-              return []; // 실패 시 빈 배열 반환
-            }),
-          );
-        }
+        const results = await Promise.all(sources.map((source) => this.runSource(source, seenAt)));
+        upsertedPlans.push(...results.flat());
+      }
 
-        // Promise.allSettled로 병렬 실행 (일부 실패해도 계속 진행)
-        const results = await Promise.allSettled(crawlTasks);
+      // 2. 저장/판매 종료 처리가 끝난 요금제로 대표 요금제 갱신
+      await this.syncCanonicalPlans();
 
-        crawledPlans = results
-          .filter((result) => result.status === 'fulfilled')
-          .flatMap((result) => result.value);
+      this.logger.log(`크롤러 워크플로우 완료: ${upsertedPlans.length}개 요금제 처리됨`);
+
+      return upsertedPlans;
+    } catch (error) {
+      this.logger.error('크롤러 워크플로우 실패:', error);
+      throw error;
+    }
+  }
 
-        this.logger.log(
-          `크롤링 완료: Moyo ${sources.includes('moyo') ? '✓' : '✗'}, U+ ${sources.includes('uplus') ? '✓' : '✗'}`,
-        );
+  /**
+   * 단일 소스 크롤링 실행 및 CrawlRun 기록
+   *
+   * - 실행 시작 시 RUNNING 상태의 CrawlRun 생성
+   * - 셀렉터 프로필을 다시 읽어 크롤링에 사용하고 프로필 버전 기록
+   * - 카드 수집 → 파싱 → 수집량 평가 → 저장(원본 포함) → 판매 종료 감지 후 SUCCESS로 갱신
+   * - 수집량이 급감한 경우(degraded) 일부 요금제만 수집된 것으로 보고 판매 종료 처리 생략
+   * - 크롤링 실패 시 실패 시점까지의 통계와 에러 메시지를 FAILED로 기록
+   * - 실패/카드 오류 시 저장된 아티팩트(스크린샷/HTML/트레이스) 디렉토리를 artifactDir로 기록
+   *
+   * @returns 저장된 요금제 배열 (실패 시 빈 배열)
+   */
+  private async runSource(source: CrawlerSource, seenAt: Date): Promise<RawPlan[]> {
+    const run = await this.prisma.crawlRun.create({
+      data: { sourceSite: source.name },
+    });
+    const stats: CrawlStats = { pagesVisited: 0, cardsFound: 0, parseErrors: 0 };
+    const artifactDir = getArtifactDir('crawl-runs', run.id);
+
+    let cards: CapturedCard[];
+    try {
+      const profile: SelectorProfile = this.selectorProfileService.load(
+        source.name,
+        source.selectorKeys,
+      );
+      await this.prisma.crawlRun.update({
+        where: { id: run.id },
+        data: { selectorProfileVersion: profile.version },
+      });
+
+      cards = await source.crawl(stats, profile, artifactDir);
+    } catch (error) {
+      this.logger.error(`${source.label} 크롤링 실패:`, error);
+      const artifacts = this.failureArtifactService.list(artifactDir);
+
+      await this.prisma.crawlRun.update({
+        where: { id: run.id },
+        data: {
+          ...stats,
+          status: 'FAILED',
+          finishedAt: new Date(),
+          errorMessage: (error as Error).message,
+          artifactDir: artifacts.length > 0 ? artifactDir : null,
+        },
+      });
+
+      return [];
+    }
+
+    const parsedCards = this.parseCards(source, cards);
+    const plansParsed = parsedCards.filter((parsed) => parsed.plan).length;
+    stats.parseErrors += parsedCards.length - plansParsed;
+
+    this.logger.log(`${source.label}: ${plansParsed}개 요금제 데이터 추출 완료`);
+    const health = await this.crawlHealthService.evaluate(source.name, {
+      cardsFound: stats.cardsFound,
+      plansParsed,
+    });
+    const upsertedPlans = await this.saveCaptures(run.id, source, parsedCards, seenAt);
+    const quarantined = await this.planQuarantineService.countByRun(run.id);
+
+    // 정상 수집된 소스만 판매 종료 여부 판단 (실패/급감 시 기존 상태 유지)
+    const deactivated = health.degraded
+      ? 0
+      : await this.deactivateUnseenPlans(source, plansParsed, seenAt);
+
+    await this.prisma.crawlRun.update({
+      where: { id: run.id },
+      data: {
+        ...stats,
+        status: 'SUCCESS',
+        finishedAt: new Date(),
+        plansParsed,
+        upserts: upsertedPlans.length,
+        quarantined,
+        deactivated,
+        isDegraded: health.degraded,
+        healthNote: health.reason,
+        artifactDir: this.failureArtifactService.list(artifactDir).length > 0 ? artifactDir : null,
+      },
+    });
+
+    this.logger.log(
+      `${source.label} 크롤링 기록 완료 (Run ID: ${run.id}, 페이지 ${stats.pagesVisited}, 카드 ${stats.cardsFound}, 저장 ${upsertedPlans.length}, 격리 ${quarantined}, 파싱 오류 ${stats.parseErrors})`,
+    );
+
+    await this.pruneCaptures();
+    this.failureArtifactService.prune();
+
+    return upsertedPlans;
+  }
+
+  /**
+   * 수집한 카드 파싱
+   *
+   * 개별 카드 파싱 실패는 로그만 남기고 plan을 null로 반환합니다.
+   */
+  private parseCards(source: CrawlerSource, cards: CapturedCard[]): ParsedCard[] {
+    return cards.map((card, index) => {
+      try {
+        const plan = source.parse(card);
+        if (!plan) {
+          this.logger.warn(`${source.label} 카드 ${index + 1} 스킵: 필수 정보 누락`);
+        }
+        return { card, plan };
+      } catch (error) {
+        this.logger.error(`${source.label} 카드 ${index + 1} 파싱 실패:`, error);
+        return { card, plan: null };
       }
+    });
+  }
 
-      this.logger.log(`${crawledPlans.length}개 요금제 데이터 추출 완료`);
+  /**
+   * 파싱된 요금제와 카드 원본 저장
+   *
+   * - 파싱에 성공한 카드는 검증을 통과하면 요금제를 Upsert한 뒤 RawCapture와 연결
+   * - 검증에 실패한 요금제는 격리(QuarantinedPlan)하고 저장하지 않음
+   * - 파싱 실패 카드도 원본은 저장 (파서 개선 후 재파싱 대상)
+   *
+   * @returns 저장된 요금제 배열
+   */
+  private async saveCaptures(
+    crawlRunId: number,
+    source: CrawlerSource,
+    parsedCards: ParsedCard[],
+    seenAt: Date,
+  ): Promise<RawPlan[]> {
+    const upsertedPlans: RawPlan[] = [];
+    const captures: Prisma.RawCaptureCreateManyInput[] = [];
 
-      // 2. Upsert: dataHash 기준으로 데이터 삽입/업데이트
-      const upsertedPlans: RawPlan[] = [];
+    for (const { card, plan } of parsedCards) {
+      let rawPlanId: number | null = null;
 
-      for (const plan of crawledPlans) {
+      if (plan && (await this.passesValidation(plan, seenAt, crawlRunId))) {
         try {
-          // dataHash 생성 (sourceSite + planName + 핵심 스펙 조합)
-          const dataHash = this.generateDataHash(plan);
-
-          const upsertedPlan = await this.prisma.rawPlan.upsert({
-            where: {
-              dataHash, // dataHash를 Upsert 기준으로 사용
-            },
-            update: {
-              planName: plan.planName,
-              sourceSite: plan.sourceSite,
-              detailUrl: plan.detailUrl,
-              mvno: plan.mvno,
-              network: plan.network,
-              technology: plan.technology,
-              pricePromo: plan.pricePromo,
-              priceOriginal: plan.priceOriginal,
-              promotionDurationMonths: plan.promotionDurationMonths,
-              promotionEndDate: plan.promotionEndDate,
-              dataBaseGB: plan.dataBaseGB,
-              dataPostSpeedMbps: plan.dataPostSpeedMbps,
-              talkMinutes: plan.talkMinutes,
-              smsCount: plan.smsCount,
-              benefitSummary: plan.benefitSummary,
-              updatedAt: new Date(),
-            },
-            create: {
-              planName: plan.planName,
-              dataHash,
-              sourceSite: plan.sourceSite,
-              detailUrl: plan.detailUrl,
-              mvno: plan.mvno,
-              network: plan.network,
-              technology: plan.technology,
-              pricePromo: plan.pricePromo,
-              priceOriginal: plan.priceOriginal,
-              promotionDurationMonths: plan.promotionDurationMonths,
-              promotionEndDate: plan.promotionEndDate,
-              dataBaseGB: plan.dataBaseGB,
-              dataPostSpeedMbps: plan.dataPostSpeedMbps,
-              talkMinutes: plan.talkMinutes,
-              smsCount: plan.smsCount,
-              benefitSummary: plan.benefitSummary,
-            },
-          });
-
+          const upsertedPlan = await this.upsertPlan(plan, seenAt);
           upsertedPlans.push(upsertedPlan);
-          this.logger.debug(`Upsert 완료: ${upsertedPlan.planName} (${upsertedPlan.sourceSite})`);
+          rawPlanId = upsertedPlan.id;
         } catch (error) {
           this.logger.error(`Upsert 실패: ${plan.planName} (${plan.sourceSite})`, error);
         }
       }
 
-      this.logger.log(`크롤러 워크플로우 완료: ${upsertedPlans.length}개 요금제 처리됨`);
+      captures.push({
+        crawlRunId,
+        sourceSite: source.name,
+        rawPlanId,
+        payload: card.payload as Prisma.InputJsonObject,
+        html: card.html,
+      });
+    }
 
-      return upsertedPlans;
+    await this.prisma.rawCapture.createMany({ data: captures });
+
+    return upsertedPlans;
+  }
+
+  /**
+   * 보관 기간이 지난 카드 원본 삭제
+   *
+   * 설정: CRAWLER_CAPTURE_RETENTION_DAYS (기본값: 30일)
+   */
+  private async pruneCaptures(): Promise<void> {
+    const retentionDays =
+      Number(this.configService.get<string>('CRAWLER_CAPTURE_RETENTION_DAYS')) || 30;
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const { count } = await this.prisma.rawCapture.deleteMany({
+      where: { capturedAt: { lt: cutoff } },
+    });
+
+    if (count > 0) {
+      this.logger.log(`보관 기간(${retentionDays}일)이 지난 카드 원본 ${count}개 삭제`);
+    }
+  }
+
+  /**
+   * 저장된 카드 원본 재파싱
+   *
+   * 소스별 가장 최근 성공한 크롤링 실행의 RawCapture를 현재 파서로 다시 변환하여
+   * 요금제를 Upsert합니다. 파서(parseComplexDataExpression 등) 개선 사항을
+   * 재크롤링 없이 반영할 때 사용합니다. 이전 실행의 원본은 최신 데이터를
+   * 과거 값으로 덮어쓸 수 있어 대상에서 제외합니다.
+   *
+   * @param sourceNames 재파싱할 소스 이름 목록 (미지정 시 활성화된 전체 소스)
+   * @returns 소스별 재파싱 결과
+   */
+  async reparseLatestCaptures(sourceNames?: string[]): Promise<ReparseResult[]> {
+    const results: ReparseResult[] = [];
+
+    for (const source of this.resolveSources(sourceNames)) {
+      const run = await this.prisma.crawlRun.findFirst({
+        where: { sourceSite: source.name, status: 'SUCCESS' },
+        orderBy: { startedAt: 'desc' },
+        include: { captures: { orderBy: { id: 'asc' } } },
+      });
+
+      if (!run) {
+        this.logger.warn(`${source.label}: 재파싱할 크롤링 실행 기록이 없습니다`);
+        continue;
+      }
+
+      this.logger.log(
+        `${source.label} 재파싱 시작 (Run ID: ${run.id}, 원본 ${run.captures.length}개)`,
+      );
+
+      const parsedCards = this.parseCards(
+        source,
+        run.captures.map((capture) => ({
+          payload: capture.payload as Record<string, unknown>,
+          html: capture.html,
+        })),
+      );
+
+      let upserts = 0;
+      let quarantined = 0;
+      for (const [index, { plan }] of parsedCards.entries()) {
+        if (!plan) continue;
+        if (!(await this.passesValidation(plan, run.startedAt, run.id))) {
+          quarantined++;
+          continue;
+        }
+
+        try {
+          const upsertedPlan = await this.upsertPlan(plan, run.startedAt);
+          await this.prisma.rawCapture.update({
+            where: { id: run.captures[index].id },
+            data: { rawPlanId: upsertedPlan.id },
+          });
+          upserts++;
+        } catch (error) {
+          this.logger.error(`재파싱 Upsert 실패: ${plan.planName} (${plan.sourceSite})`, error);
+        }
+      }
+
+      const parsed = parsedCards.filter((parsedCard) => parsedCard.plan).length;
+      results.push({
+        crawlRunId: run.id,
+        sourceSite: source.name,
+        captures: run.captures.length,
+        parsed,
+        upserts,
+        quarantined,
+        parseErrors: run.captures.length - parsed,
+      });
+
+      this.logger.log(
+        `${source.label} 재파싱 완료: ${parsed}개 파싱, ${upserts}개 저장, ${quarantined}개 격리`,
+      );
+    }
+
+    await this.syncCanonicalPlans();
+    return results;
+  }
+
+  /**
+   * 요금제 가져오기 (제휴 사업자 요금표, 크롤러가 없는 소스의 수동 등록)
+   *
+   * 크롤링과 같은 저장 경로(upsertPlan)를 사용하므로 planKey/dataHash 기준으로
+   * 갱신되고 가격/스펙 변경 이력도 남습니다. 일부 요금제만 담긴 파일일 수 있어
+   * 가져오지 않은 기존 요금제는 비활성화하지 않습니다.
+   *
+   * @param records CrawledPlanData 형식의 레코드 (CSV 행 또는 JSON 객체)
+   * @param sourceSite 저장할 출처 이름 (레코드의 sourceSite는 무시)
+   */
+  async importPlans(records: Record<string, unknown>[], sourceSite: string): Promise<ImportResult> {
+    const seenAt = new Date();
+    const result: ImportResult = { sourceSite, total: records.length, upserts: 0, errors: [] };
+
+    for (const [index, record] of records.entries()) {
+      const { plan, errors } = toImportedPlan(record, sourceSite);
+      const reasons = plan ? validateCrawledPlan(plan) : errors;
+      const planName = typeof record.planName === 'string' ? record.planName : null;
+
+      if (!plan || reasons.length > 0) {
+        result.errors.push({ row: index + 1, planName, reasons });
+        continue;
+      }
+
+      try {
+        await this.upsertPlan(plan, seenAt);
+        result.upserts++;
+      } catch (error) {
+        this.logger.error(`가져오기 Upsert 실패: ${plan.planName} (${sourceSite})`, error);
+        result.errors.push({ row: index + 1, planName, reasons: [(error as Error).message] });
+      }
+    }
+
+    this.logger.log(
+      `요금제 가져오기 완료 (${sourceSite}): ${result.total}개 중 ${result.upserts}개 저장, ${result.errors.length}개 오류`,
+    );
+
+    if (result.upserts > 0) {
+      await this.syncCanonicalPlans();
+    }
+
+    return result;
+  }
+
+  /**
+   * 대표 요금제(CanonicalPlan) 동기화
+   *
+   * 요금제 저장은 이미 끝났으므로 실패해도 로그만 남기고 진행합니다.
+   * (대표 요금제 조회/분석은 저장된 RawPlan으로 매번 다시 묶으므로 영향 없음)
+   */
+  private async syncCanonicalPlans(): Promise<void> {
+    try {
+      await this.catalogService.syncCanonicalPlans();
     } catch (error) {
-      this.logger.error('크롤러 워크플로우 실패:', error);
-      throw error;
+      this.logger.error('대표 요금제 동기화 실패:', error);
     }
   }
 
+  /**
+   * 최근 크롤링 실행 기록 조회 (최신순)
+   *
+   * @param sourceName 소스 이름 (미지정 시 전체 소스)
+   * @param limit 조회 개수 (최대 100)
+   */
+  async getRecentRuns(sourceName?: string, limit = 20): Promise<CrawlRun[]> {
+    return await this.prisma.crawlRun.findMany({
+      where: sourceName ? { sourceSite: sourceName } : undefined,
+      orderBy: { startedAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), 100),
+    });
+  }
+
+  /**
+   * 크롤링된 요금제 목록 저장
+   *
+   * - planKey 기준 Upsert (dataHash 변경 시 이력 기록)
+   * - 검증에 실패한 요금제는 격리하고 저장하지 않음
+   * - 개별 요금제 저장 실패는 로그만 남기고 계속 진행
+   *
+   * @param plans 크롤링된 요금제 배열
+   * @param seenAt 요금제 확인 시각 (lastSeenAt)
+   * @returns 저장된 요금제 배열
+   */
+  private async savePlans(plans: CrawledPlanData[], seenAt: Date): Promise<RawPlan[]> {
+    const upsertedPlans: RawPlan[] = [];
+
+    for (const plan of plans) {
+      if (!(await this.passesValidation(plan, seenAt, null))) continue;
+
+      try {
+        const upsertedPlan = await this.upsertPlan(plan, seenAt);
+
+        upsertedPlans.push(upsertedPlan);
+        this.logger.debug(`Upsert 완료: ${upsertedPlan.planName} (${upsertedPlan.sourceSite})`);
+      } catch (error) {
+        this.logger.error(`Upsert 실패: ${plan.planName} (${plan.sourceSite})`, error);
+      }
+    }
+
+    return upsertedPlans;
+  }
+
+  /**
+   * 판매 종료 요금제 비활성화
+   *
+   * 크롤링에 성공한 소스에서 이번 크롤링 중 확인되지 않은(lastSeenAt < seenAt)
+   * 활성 요금제를 비활성화합니다. 수집된 요금제가 0개면 사이트 구조 변경 등으로
+   * 판단하여 비활성화하지 않습니다.
+   *
+   * @returns 비활성화된 요금제 개수
+   */
+  private async deactivateUnseenPlans(
+    source: CrawlerSource,
+    crawledCount: number,
+    seenAt: Date,
+  ): Promise<number> {
+    if (crawledCount === 0) {
+      this.logger.warn(`${source.label}: 수집된 요금제가 없어 판매 종료 감지를 건너뜁니다`);
+      return 0;
+    }
+
+    const { count } = await this.prisma.rawPlan.updateMany({
+      where: {
+        sourceSite: source.name,
+        isActive: true,
+        lastSeenAt: { lt: seenAt },
+      },
+      data: { isActive: false },
+    });
+
+    if (count > 0) {
+      this.logger.log(`${source.label}: 판매 종료로 ${count}개 요금제 비활성화`);
+    }
+
+    return count;
+  }
+
   /**
    * 이전 메서드와의 호환성을 위한 별칭
    */
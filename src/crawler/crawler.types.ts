@@ -0,0 +1,186 @@
+import { BenefitType } from '@prisma/client';
+import { CrawlPolicy } from '@/playwright/crawl-policy';
+import { CrawlProfile } from '@/playwright/crawl-profile';
+
+/**
+ * 크롤링된 요금제 데이터 인터페이스
+ */
+export interface CrawledPlanData {
+  planName: string;
+  sourceSite: string; // 크롤링 출처 사이트 (예: "moyoplan", "mvnohub")
+  detailUrl: string | null; // 요금제 상세 페이지 URL
+  mvno: string; // 크롤링된 사업자명 (저장 시 MvnoDirectoryService가 대표 이름으로 정규화)
+  mvnoLogoUrl?: string | null; // 카드에 표시된 사업자 로고 URL (Mvno.logoUrl 보강용)
+  network: string; // 통신망 원문 (저장 시 normalizeNetwork로 Network 열거형 변환)
+  technology: string; // 통신 기술 원문 (저장 시 normalizeTechnology로 Technology 열거형 변환)
+  pricePromo: number;
+  priceOriginal: number | null;
+  pricePostPromo: number | null; // 프로모션 종료 후 월 요금 ("N개월 이후 X원"의 X)
+  promotionDurationMonths: number | null; // 할인 유지 개월 수 (프로모션 없음/평생 할인이면 null)
+  promotionEndDate: Date | null;
+  isLifetimePromotion: boolean; // 평생(상시) 할인 여부
+  dataBaseGB: number; // 월 기본 제공량 (매일 제공량 제외, 완전 무제한이면 0)
+  isDataUnlimited: boolean; // 데이터 완전 무제한 여부
+  dataDailyGB: number | null; // 매일 제공량
+  dataPostSpeedMbps: number | null; // 월 기본 제공량 소진 후 속도
+  dataDailyPostSpeedMbps: number | null; // 매일 제공량 소진 후 속도
+  tetheringGB: number | null; // 테더링 제공량
+  sharingGB: number | null; // 데이터 쉐어링 제공량
+  talkMinutes: number | null; // 통화 제공량 (무제한이면 null)
+  isTalkUnlimited: boolean;
+  smsCount: number | null; // 문자 제공량 (무제한이면 null)
+  isSmsUnlimited: boolean;
+  benefitSummary: string | null;
+  benefits: PlanBenefitData[]; // 구조화된 사은품/할인 혜택 (PlanBenefit으로 저장)
+  signup?: SignupConditionData | null; // 상세 페이지 가입 조건 (상세 페이지를 수집한 경우에만)
+}
+
+/**
+ * 상세 페이지에서 수집한 가입 조건 (parseSignupConditions 결과)
+ *
+ * 각 필드는 상세 페이지에서 확인하지 못하면 null입니다.
+ */
+export interface SignupConditionData {
+  usimSupported: boolean | null; // 유심 개통 지원
+  esimSupported: boolean | null; // eSIM 개통 지원
+  activationFeeKrw: number | null; // 가입비/개통비 (원)
+  usimFeeKrw: number | null; // 유심 비용 (원)
+  numberPortAllowed: boolean | null; // 번호이동 가입 가능 여부
+  minAge: number | null; // 가입 가능 최소 나이 (만)
+  maxAge: number | null; // 가입 가능 최대 나이 (만)
+  contractMonths: number | null; // 약정 기간 (무약정은 0)
+  penaltyTerms: string | null; // 위약금/해지 조건 원문
+  promotionEndDate: Date | null; // 프로모션 종료일
+}
+
+/**
+ * 구조화된 혜택 정보 (parseBenefitItems 결과)
+ *
+ * - valueKrw: 1회성 지급 혜택의 원화 가치 (포인트/상품권 등)
+ * - monthlyDiscountKrw: 매월 할인 금액 (단말/가족 결합 할인 등)
+ * - bonusDataGB: 추가 제공 데이터량
+ * - conditions: 지급 조건 (예: "3개월 유지 시", "데이터 결합")
+ */
+export interface PlanBenefitData {
+  type: BenefitType;
+  title: string;
+  valueKrw: number | null;
+  monthlyDiscountKrw: number | null;
+  bonusDataGB: number | null;
+  conditions: string | null;
+  rawText: string;
+}
+
+/**
+ * 크롤링 소스별 설정
+ *
+ * - enabled: 기본 크롤링(소스 미지정 시) 대상 포함 여부
+ * - targetUrl: 크롤링 시작 URL
+ * - policy: 대상 도메인 크롤링 정책 (CRAWLER_<SOURCE>_* 환경 변수, readCrawlPolicy)
+ * - crawlProfile: 리소스 차단 설정 (readCrawlProfile)
+ */
+export interface CrawlerSourceConfig {
+  enabled: boolean;
+  targetUrl: string;
+  policy: CrawlPolicy;
+  crawlProfile: CrawlProfile;
+}
+
+/**
+ * 크롤링 실행 통계
+ *
+ * 소스가 크롤링 중 직접 누적하며, 크롤링이 실패하더라도
+ * 실패 시점까지의 값이 CrawlRun 기록에 남습니다.
+ */
+export interface CrawlStats {
+  pagesVisited: number; // 방문한 목록 페이지 수
+  cardsFound: number; // 발견한 요금제 카드 수
+  parseErrors: number; // 파싱 실패 또는 스킵된 카드 수
+}
+
+/**
+ * 크롤링 중 수집한 요금제 카드 원본
+ *
+ * - payload: 카드에서 추출한 원본 텍스트 (소스별 구조, RawCapture.payload에 저장)
+ * - html: 카드 outerHTML (수집 실패 시 null)
+ *
+ * 파싱 로직이 개선되면 저장된 원본을 CrawlerSource.parse로 다시 변환할 수 있습니다.
+ */
+export interface CapturedCard {
+  payload: Record<string, unknown>;
+  html: string | null;
+}
+
+/**
+ * 카드 원본 재파싱 결과 (소스별)
+ */
+export interface ReparseResult {
+  crawlRunId: number; // 재파싱한 크롤링 실행 ID
+  sourceSite: string;
+  captures: number; // 재파싱한 카드 원본 수
+  parsed: number; // 파싱 성공 수
+  upserts: number; // 저장된 요금제 수
+  quarantined: number; // 검증 실패로 격리된 요금제 수
+  parseErrors: number; // 파싱 실패/스킵 수
+}
+
+/**
+ * 요금제 가져오기 결과 (CSV/JSON)
+ *
+ * - errors.row: 가져온 레코드 순번 (1부터, CSV는 헤더 제외)
+ * - 형식 오류나 데이터 품질 검증에 실패한 레코드는 저장하지 않고 사유를 반환
+ */
+export interface ImportResult {
+  sourceSite: string;
+  total: number; // 가져온 레코드 수
+  upserts: number; // 저장된 요금제 수
+  errors: { row: number; planName: string | null; reasons: string[] }[];
+}
+
+/**
+ * 소스별 셀렉터 프로필 (config/selectors/<source>.json)
+ *
+ * 사이트 마크업이 바뀌면 코드 배포 없이 프로필 파일만 수정하고 version을 올립니다.
+ * 프로필은 크롤링 실행마다 다시 읽으며, 사용된 version은 CrawlRun에 기록됩니다.
+ */
+export interface SelectorProfile {
+  source: string; // 소스 이름 (CrawlerSource.name과 동일)
+  version: number; // 프로필 버전 (수정 시 1씩 증가)
+  selectors: Record<string, string>; // 셀렉터 키 → CSS/Playwright 셀렉터 (또는 쿠키/속성 이름)
+}
+
+/**
+ * 크롤링 소스 어댑터 인터페이스
+ *
+ * 새로운 알뜰폰 사이트를 추가하려면 이 인터페이스를 구현한 Provider를 만들고
+ * CrawlerModule의 소스 목록에 등록하면 됩니다.
+ */
+export interface CrawlerSource {
+  /** 소스 이름 (RawPlan.sourceSite 값과 동일, 예: "moyoplan") */
+  readonly name: string;
+
+  /** 로그 출력용 표시 이름 (예: "모요") */
+  readonly label: string;
+
+  /** 셀렉터 프로필에 반드시 있어야 하는 셀렉터 키 목록 */
+  readonly selectorKeys: readonly string[];
+
+  /** 소스별 설정 조회 */
+  getConfig(): CrawlerSourceConfig;
+
+  /**
+   * 요금제 카드 수집 실행 (진행 통계는 stats에 누적)
+   *
+   * 크롤링/카드 처리에 실패하면 페이지 캡처와 트레이스를 artifactDir에 저장합니다.
+   * (PlaywrightService.captureFailure, artifactDir: 실행별 아티팩트 디렉토리)
+   */
+  crawl(stats: CrawlStats, profile: SelectorProfile, artifactDir: string): Promise<CapturedCard[]>;
+
+  /** 수집한 카드를 요금제 데이터로 변환 (필수 정보가 없으면 null) */
+  parse(card: CapturedCard): CrawledPlanData | null;
+}
+
+/**
+ * 등록된 크롤링 소스 배열 주입 토큰
+ */
+export const CRAWLER_SOURCES = Symbol('CRAWLER_SOURCES');
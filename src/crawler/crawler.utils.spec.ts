@@ -0,0 +1,263 @@
+import { BenefitType, Network, Technology } from '@prisma/client';
+import {
+  calculateTotalCost,
+  calculateValueScore,
+  findChangedPlanFields,
+  normalizeNetwork,
+  normalizeTechnology,
+  parseAllowance,
+  parseBenefitItems,
+  parseComplexDataExpression,
+  parsePromotionDuration,
+  parseSignupConditions,
+  parseTetheringAndSharing,
+  resolvePostPromoPrice,
+} from './crawler.utils';
+
+describe('parseComplexDataExpression', () => {
+  it('should keep monthly and daily data separate', () => {
+    expect(parseComplexDataExpression('월 11GB + 매일 2GB + 3Mbps')).toEqual({
+      monthlyGB: 11,
+      unlimited: false,
+      dailyGB: 2,
+      postSpeedMbps: null,
+      dailyPostSpeedMbps: 3,
+    });
+  });
+
+  it('should treat a single speed without daily data as the post-base speed', () => {
+    expect(parseComplexDataExpression('월 100GB + 5Mbps')).toEqual({
+      monthlyGB: 100,
+      unlimited: false,
+      dailyGB: null,
+      postSpeedMbps: 5,
+      dailyPostSpeedMbps: null,
+    });
+  });
+
+  it('should read two speeds as post-base and post-daily speeds', () => {
+    const spec = parseComplexDataExpression('월 10GB + 1Mbps + 일 2GB + 3Mbps');
+
+    expect(spec.postSpeedMbps).toBe(1);
+    expect(spec.dailyPostSpeedMbps).toBe(3);
+  });
+
+  it('should convert MB and unlimited data', () => {
+    expect(parseComplexDataExpression('500MB').monthlyGB).toBeCloseTo(0.49, 2);
+    expect(parseComplexDataExpression('무제한')).toMatchObject({ monthlyGB: 0, unlimited: true });
+  });
+});
+
+describe('parseAllowance', () => {
+  it('should flag unlimited talk/SMS instead of using a sentinel amount', () => {
+    expect(parseAllowance('기본제공')).toEqual({ unlimited: true, amount: null });
+    expect(parseAllowance('200분')).toEqual({ unlimited: false, amount: 200 });
+  });
+});
+
+describe('parsePromotionDuration', () => {
+  it('should flag lifetime discounts without a month count', () => {
+    expect(parsePromotionDuration('평생 할인')).toEqual({ months: null, lifetime: true });
+    expect(parsePromotionDuration('7개월 이후 38,500원')).toEqual({ months: 7, lifetime: false });
+  });
+});
+
+describe('parseTetheringAndSharing', () => {
+  it('should extract tethering and sharing allowances', () => {
+    expect(parseTetheringAndSharing(['테더링 20GB', '데이터 쉐어링 최대 10GB'])).toEqual({
+      tetheringGB: 20,
+      sharingGB: 10,
+    });
+  });
+});
+
+describe('calculateTotalCost', () => {
+  it('should switch to the post-promotion price after the promotion ends', () => {
+    expect(calculateTotalCost(12000, 38500, 7, 12)).toBe(12000 * 7 + 38500 * 5);
+    expect(calculateTotalCost(12000, 38500, 7, 24)).toBe(12000 * 7 + 38500 * 17);
+  });
+
+  it('should keep the promotion price when the promotion outlasts the horizon', () => {
+    expect(calculateTotalCost(9900, 9900, 999, 24)).toBe(9900 * 24);
+    expect(calculateTotalCost(20000, 20000, null, 12)).toBe(20000 * 12);
+  });
+});
+
+describe('resolvePostPromoPrice', () => {
+  it('should fall back to the promotion price without a limited promotion', () => {
+    expect(resolvePostPromoPrice(9900, 30000, null)).toBe(9900);
+    expect(resolvePostPromoPrice(9900, null, 7)).toBe(9900);
+    expect(resolvePostPromoPrice(9900, 30000, 7)).toBe(30000);
+  });
+});
+
+describe('normalizeNetwork', () => {
+  it('should map free-text network names to the enum', () => {
+    expect(normalizeNetwork('LG U+망')).toBe(Network.LGU_PLUS);
+    expect(normalizeNetwork('LGU+')).toBe(Network.LGU_PLUS);
+    expect(normalizeNetwork('lg')).toBe(Network.LGU_PLUS);
+    expect(normalizeNetwork('KT망')).toBe(Network.KT);
+    expect(normalizeNetwork('olleh')).toBe(Network.KT);
+  });
+
+  it('should not mistake SK Telecom for KT', () => {
+    expect(normalizeNetwork('SK Telecom')).toBe(Network.SKT);
+    expect(normalizeNetwork('SKT망')).toBe(Network.SKT);
+  });
+
+  it('should keep normalized values and fall back to UNKNOWN', () => {
+    expect(normalizeNetwork(Network.LGU_PLUS)).toBe(Network.LGU_PLUS);
+    expect(normalizeNetwork('Unknown')).toBe(Network.UNKNOWN);
+  });
+});
+
+describe('normalizeTechnology', () => {
+  it('should detect 5G and default to LTE', () => {
+    expect(normalizeTechnology('5G')).toBe(Technology.FIVE_G);
+    expect(normalizeTechnology(Technology.FIVE_G)).toBe(Technology.FIVE_G);
+    expect(normalizeTechnology('LTE')).toBe(Technology.LTE);
+  });
+});
+
+describe('parseBenefitItems', () => {
+  it('should extract point value and bonus data with its condition', () => {
+    const [point, data] = parseBenefitItems([
+      '네이버페이 10,000P 제공',
+      '데이터 결합 (추가데이터 20GB)',
+    ]);
+
+    expect(point).toMatchObject({
+      type: BenefitType.POINT,
+      title: '네이버페이 10,000P',
+      valueKrw: 10000,
+    });
+    expect(data).toMatchObject({
+      type: BenefitType.BONUS_DATA,
+      title: '추가 데이터 20GB',
+      bonusDataGB: 20,
+      conditions: '데이터 결합',
+    });
+  });
+
+  it('should treat monthly discounts separately from one-time value', () => {
+    const [family, gift] = parseBenefitItems([
+      '가족결합 월 5,500원 할인',
+      '신세계 상품권 3만원 (3개월 유지 시)',
+    ]);
+
+    expect(family).toMatchObject({
+      type: BenefitType.FAMILY_DISCOUNT,
+      valueKrw: null,
+      monthlyDiscountKrw: 5500,
+    });
+    expect(gift).toMatchObject({
+      type: BenefitType.GIFT_CARD,
+      valueKrw: 30000,
+      conditions: '3개월 유지 시',
+    });
+  });
+});
+
+describe('calculateValueScore', () => {
+  const base = {
+    benefitValueKrw: 0,
+    dataBaseGB: 10,
+    dataDailyGB: null,
+    isDataUnlimited: false,
+    talkMinutes: 100,
+    isTalkUnlimited: false,
+  };
+
+  it('should rank a short teaser promotion behind a stable cheap plan', () => {
+    const teaser = calculateValueScore({
+      ...base,
+      totalCost24M: calculateTotalCost(180, 33000, 6, 24),
+    });
+    const stable = calculateValueScore({ ...base, totalCost24M: 15000 * 24 });
+
+    expect(teaser.effectiveMonthlyCost).toBe(24795);
+    expect(stable.effectiveMonthlyCost).toBeLessThan(teaser.effectiveMonthlyCost);
+  });
+
+  it('should amortize one-time benefits and skip unit costs for unlimited allowances', () => {
+    const score = calculateValueScore({
+      ...base,
+      totalCost24M: 240000,
+      benefitValueKrw: 24000,
+      isTalkUnlimited: true,
+      talkMinutes: null,
+    });
+
+    expect(score).toEqual({ effectiveMonthlyCost: 9000, costPerGB: 900, costPerMinute: null });
+  });
+});
+
+describe('parseSignupConditions', () => {
+  it('should extract sign-up terms from detail page text', () => {
+    const conditions = parseSignupConditions(
+      [
+        '개통 방식: 유심 / eSIM 개통 가능',
+        '가입비 면제, 유심비 7,700원',
+        '번호이동 불가 (신규 가입만 가능)',
+        '만 19세 이상 가입 가능',
+        '무약정 요금제로 위약금 없음',
+        '프로모션 기간: 2025.12.31까지',
+      ].join('\n'),
+    );
+
+    expect(conditions).toMatchObject({
+      usimSupported: true,
+      esimSupported: true,
+      activationFeeKrw: 0,
+      usimFeeKrw: 7700,
+      numberPortAllowed: false,
+      minAge: 19,
+      maxAge: null,
+      contractMonths: 0,
+      penaltyTerms: '무약정 요금제로 위약금 없음',
+    });
+    expect(conditions.promotionEndDate).toEqual(new Date(2025, 11, 31));
+  });
+
+  it('should leave unmentioned conditions as null', () => {
+    expect(parseSignupConditions('요금제 안내')).toMatchObject({
+      esimSupported: null,
+      activationFeeKrw: null,
+      numberPortAllowed: null,
+    });
+  });
+});
+
+describe('findChangedPlanFields', () => {
+  const stored = {
+    planName: '음성기본 100GB+',
+    mvno: '찬스모바일',
+    technology: Technology.LTE,
+    pricePromo: 22000,
+    priceOriginal: 38500,
+    pricePostPromo: 38500,
+    promotionDurationMonths: null,
+    isLifetimePromotion: true,
+    dataBaseGB: 0,
+    isDataUnlimited: true,
+    dataDailyGB: null,
+    dataPostSpeedMbps: 5,
+    dataDailyPostSpeedMbps: null,
+    tetheringGB: null,
+    sharingGB: null,
+    talkMinutes: null,
+    isTalkUnlimited: true,
+    smsCount: null,
+    isSmsUnlimited: true,
+  };
+
+  it('should find no changes when only the hash inputs were normalized', () => {
+    expect(findChangedPlanFields(stored, { ...stored })).toEqual([]);
+  });
+
+  it('should list the tracked values that changed', () => {
+    expect(
+      findChangedPlanFields(stored, { ...stored, pricePromo: 19800, dataBaseGB: 100 }),
+    ).toEqual(['pricePromo', 'dataBaseGB']);
+  });
+});
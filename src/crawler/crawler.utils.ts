@@ -0,0 +1,516 @@
+/**
+ * 크롤러 공통 파싱 유틸리티
+ *
+ * - 각 크롤링 소스에서 공통으로 사용하는 텍스트 → 숫자 변환 로직
+ * - 상태를 갖지 않는 순수 함수로만 구성
+ */
+import { BenefitType, Network, RawPlan, Technology } from '@prisma/client';
+import { PlanBenefitData, SignupConditionData } from './crawler.types';
+
+/**
+ * 문자열에서 숫자 추출 (예: "7,990원" -> 7990, "7개월 이후 38,500원" -> 38500)
+ */
+export function extractNumber(text: string): number {
+  const cleaned = text.replace(/[^0-9]/g, '');
+  return cleaned ? parseInt(cleaned, 10) : 0;
+}
+
+/**
+ * 통신망 표시 이름 (블로그/분석 입력용)
+ */
+export const NETWORK_LABELS: Record<Network, string> = {
+  [Network.SKT]: 'SKT',
+  [Network.KT]: 'KT',
+  [Network.LGU_PLUS]: 'LG U+',
+  [Network.UNKNOWN]: '기타',
+};
+
+/**
+ * 통신 기술 표시 이름
+ */
+export const TECHNOLOGY_LABELS: Record<Technology, string> = {
+  [Technology.LTE]: 'LTE',
+  [Technology.FIVE_G]: '5G',
+};
+
+/**
+ * 통신망 텍스트 정규화
+ * 예: "LG U+망", "LGU+", "lg", "유플러스" -> LGU_PLUS, "SK텔레콤" -> SKT, "olleh" -> KT
+ *
+ * - 이미 정규화된 값(Network)은 그대로 반환
+ * - SK는 KT보다 먼저 확인 ("sktelecom"에 "kt"가 포함되므로)
+ * - 인식하지 못한 표기는 UNKNOWN
+ */
+export function normalizeNetwork(text: string): Network {
+  if (Object.values(Network).includes(text as Network)) {
+    return text as Network;
+  }
+
+  const normalized = text.replace(/망$/, '').replace(/\s+/g, '').toLowerCase();
+
+  if (/^lg|lgu|유플러스|u\+/.test(normalized)) {
+    return Network.LGU_PLUS;
+  }
+  if (/^sk/.test(normalized)) {
+    return Network.SKT;
+  }
+  if (/kt|olleh|케이티/.test(normalized)) {
+    return Network.KT;
+  }
+  return Network.UNKNOWN;
+}
+
+/**
+ * 통신 기술 텍스트 정규화 (예: "5G", "5g 요금제" -> FIVE_G, 그 외 -> LTE)
+ */
+export function normalizeTechnology(text: string): Technology {
+  return /5g|five_g/i.test(text) ? Technology.FIVE_G : Technology.LTE;
+}
+
+/**
+ * 데이터 제공량 파싱 결과
+ *
+ * - monthlyGB: 월 기본 제공량 (매일 제공량 제외, 완전 무제한은 0)
+ * - unlimited: 제공량 없이 "무제한"으로만 표기된 완전 무제한 여부
+ * - dailyGB: 매일 제공량
+ * - postSpeedMbps: 월 기본 제공량 소진 후 속도 (매일 제공량이 있으면 그 사이 구간 속도)
+ * - dailyPostSpeedMbps: 매일 제공량 소진 후 속도
+ */
+export interface DataSpec {
+  monthlyGB: number;
+  unlimited: boolean;
+  dailyGB: number | null;
+  postSpeedMbps: number | null;
+  dailyPostSpeedMbps: number | null;
+}
+
+/**
+ * 복합 데이터 표현 파싱
+ *
+ * 예:
+ * - "월 100GB + 5Mbps" -> { monthlyGB: 100, dailyGB: null, postSpeedMbps: 5, dailyPostSpeedMbps: null }
+ * - "월 11GB + 매일 2GB + 3Mbps" -> { monthlyGB: 11, dailyGB: 2, postSpeedMbps: null, dailyPostSpeedMbps: 3 }
+ *
+ * 매일 제공량이 있으면 마지막 속도는 매일 제공량 소진 후 속도로 보고,
+ * 속도가 두 개 이상이면 첫 번째를 월 기본 제공량 소진 후 속도로 사용합니다.
+ */
+export function parseComplexDataExpression(text: string): DataSpec {
+  const spec: DataSpec = {
+    monthlyGB: 0,
+    unlimited: false,
+    dailyGB: null,
+    postSpeedMbps: null,
+    dailyPostSpeedMbps: null,
+  };
+  if (!text) return spec;
+
+  // "매일 XGB" 추출 후 월 제공량 매칭에서 제외
+  const dailyMatch = text.match(/(?:매일|하루|(?<![가-힣])일)\s*(\d+(?:\.\d+)?)\s*GB/i);
+  if (dailyMatch) {
+    spec.dailyGB = parseFloat(dailyMatch[1]);
+  }
+  const monthlyText = dailyMatch ? text.replace(dailyMatch[0], '') : text;
+
+  // "월 XGB" 또는 단독 "XGB" 추출 (없으면 MB 단위 처리)
+  const monthlyMatch = monthlyText.match(/(?:월\s*)?(\d+(?:\.\d+)?)\s*GB/i);
+  const mbMatch = monthlyText.match(/(\d+(?:\.\d+)?)\s*MB/i);
+  if (monthlyMatch) {
+    spec.monthlyGB = parseFloat(monthlyMatch[1]);
+  } else if (mbMatch) {
+    spec.monthlyGB = parseFloat(mbMatch[1]) / 1024;
+  } else if (text.includes('무제한')) {
+    spec.unlimited = true;
+  }
+
+  // "XMbps" 속도 제한 추출 (등장 순서대로)
+  const speeds = [...text.matchAll(/(\d+(?:\.\d+)?)\s*Mbps/gi)].map((match) =>
+    parseFloat(match[1]),
+  );
+  if (speeds.length > 0) {
+    if (spec.dailyGB !== null) {
+      spec.dailyPostSpeedMbps = speeds[speeds.length - 1];
+      spec.postSpeedMbps = speeds.length > 1 ? speeds[0] : null;
+    } else {
+      spec.postSpeedMbps = speeds[0];
+    }
+  }
+
+  return spec;
+}
+
+/**
+ * 테더링/데이터 쉐어링 제공량 파싱
+ * 예: ["테더링 20GB", "데이터 쉐어링 10GB"] -> { tetheringGB: 20, sharingGB: 10 }
+ */
+export function parseTetheringAndSharing(texts: string[]): {
+  tetheringGB: number | null;
+  sharingGB: number | null;
+} {
+  const joined = texts.join(' ');
+
+  const tetheringMatch = joined.match(/테더링\s*(?:최대\s*)?(\d+(?:\.\d+)?)\s*GB/i);
+  const sharingMatch = joined.match(
+    /(?:쉐어링|셰어링|나눠\s*쓰기)\s*(?:최대\s*)?(\d+(?:\.\d+)?)\s*GB/i,
+  );
+
+  return {
+    tetheringGB: tetheringMatch ? parseFloat(tetheringMatch[1]) : null,
+    sharingGB: sharingMatch ? parseFloat(sharingMatch[1]) : null,
+  };
+}
+
+/**
+ * 통화/문자 제공량 파싱 결과
+ *
+ * - unlimited: 무제한(기본제공) 여부
+ * - amount: 제공량 (분/건). 무제한이면 null
+ */
+export interface Allowance {
+  unlimited: boolean;
+  amount: number | null;
+}
+
+/**
+ * 통화/문자 제공량 파싱 (예: "200분" -> { unlimited: false, amount: 200 }, "무제한" -> { unlimited: true, amount: null })
+ */
+export function parseAllowance(text: string): Allowance {
+  if (text && (text.includes('무제한') || text.includes('기본제공'))) {
+    return { unlimited: true, amount: null };
+  }
+  return { unlimited: false, amount: text ? extractNumber(text) : 0 };
+}
+
+/**
+ * 할인 기간 파싱 결과
+ *
+ * - months: 할인 유지 개월 수 (프로모션 정보가 없거나 평생 할인이면 null)
+ * - lifetime: 평생(상시) 할인 여부
+ */
+export interface PromotionDuration {
+  months: number | null;
+  lifetime: boolean;
+}
+
+/**
+ * 할인 기간 파싱 (예: "7개월 이후" -> { months: 7, lifetime: false }, "평생" -> { months: null, lifetime: true })
+ */
+export function parsePromotionDuration(text: string): PromotionDuration {
+  if (!text) return { months: null, lifetime: false };
+  if (text.includes('평생') || text.includes('영구')) return { months: null, lifetime: true };
+
+  const match = text.match(/(\d+)\s*개월/);
+  return { months: match ? parseInt(match[1], 10) : null, lifetime: false };
+}
+
+/**
+ * 프로모션 종료 후 월 요금 결정
+ *
+ * - 프로모션 기간이 없으면(프로모션 없음/평생 할인) 현재 요금 유지
+ * - 그 외에는 "N개월 이후 X원"의 X, 정보가 없으면 현재 요금 유지로 간주
+ */
+export function resolvePostPromoPrice(
+  pricePromo: number,
+  pricePostPromo: number | null,
+  promotionDurationMonths: number | null,
+): number {
+  if (promotionDurationMonths === null) {
+    return pricePromo;
+  }
+  return pricePostPromo ?? pricePromo;
+}
+
+/**
+ * 약정 기간 총 납부 요금 계산
+ * 예: 7개월간 12,000원 → 이후 38,500원, 24개월 = 12,000 x 7 + 38,500 x 17 = 738,500원
+ *
+ * @param months 계산 기간 (개월)
+ */
+export function calculateTotalCost(
+  pricePromo: number,
+  pricePostPromo: number,
+  promotionDurationMonths: number | null,
+  months: number,
+): number {
+  const promoMonths =
+    promotionDurationMonths === null ? months : Math.min(promotionDurationMonths, months);
+  return pricePromo * promoMonths + pricePostPromo * (months - promoMonths);
+}
+
+/**
+ * 혜택 원문 정리 (접두사/접미사 제거, 표기 통일)
+ */
+function cleanBenefitText(text: string): string {
+  return text
+    .replace(/제공$/, '')
+    .replace(/^\s*-\s*/, '')
+    .replace(/데이터 결합\s*\(/g, '')
+    .replace(/추가데이터/g, '추가 데이터')
+    .replace(/\)$/g, '')
+    .trim();
+}
+
+/**
+ * 혜택 문구에서 원화 금액 추출 (예: "10,000P" -> 10000, "2만원" -> 20000, "5천 포인트" -> 5000)
+ */
+export function parseKrwAmount(text: string): number | null {
+  const match = text.match(/(\d[\d,]*(?:\.\d+)?)\s*(만|천)?\s*(?:원|P\b|포인트|페이|캐시)/i);
+  if (!match) return null;
+
+  const unit = match[2] === '만' ? 10000 : match[2] === '천' ? 1000 : 1;
+  return Math.round(parseFloat(match[1].replace(/,/g, '')) * unit);
+}
+
+/**
+ * 혜택 유형 판별 (키워드 기준)
+ */
+function detectBenefitType(text: string): BenefitType {
+  if (/가족|결합/.test(text) && /할인/.test(text)) return BenefitType.FAMILY_DISCOUNT;
+  if (/단말|기기|휴대폰|공기계|자급제/.test(text) && /할인|지원/.test(text)) {
+    return BenefitType.DEVICE_DISCOUNT;
+  }
+  if (/상품권|기프티콘|기프트\s*카드|쿠폰|교환권/.test(text)) return BenefitType.GIFT_CARD;
+  if (/페이|포인트|캐시|\d\s*P\b|마일리지/i.test(text)) return BenefitType.POINT;
+  if (/\d+(?:\.\d+)?\s*GB/i.test(text) && /데이터/.test(text)) return BenefitType.BONUS_DATA;
+  return BenefitType.OTHER;
+}
+
+/**
+ * 사은품/할인 혜택을 구조화된 레코드로 파싱
+ * 예: "네이버페이 10,000P 제공" -> { type: POINT, valueKrw: 10000 }
+ *     "데이터 결합 (추가데이터 20GB)" -> { type: BONUS_DATA, bonusDataGB: 20, conditions: "데이터 결합" }
+ *     "가족결합 월 5,500원 할인" -> { type: FAMILY_DISCOUNT, monthlyDiscountKrw: 5500 }
+ *
+ * - 괄호 안 문구가 조건(유지/가입/결합 등)이면 conditions로 분리
+ * - "데이터 결합 (추가데이터 20GB)"처럼 괄호 안이 혜택 본문이면 바깥 문구를 조건으로 사용
+ */
+export function parseBenefitItems(benefitTexts: string[]): PlanBenefitData[] {
+  if (!benefitTexts) return [];
+
+  return benefitTexts
+    .map((rawText) => rawText.trim())
+    .filter((rawText) => rawText.length > 0)
+    .map((rawText) => {
+      let title = rawText;
+      const conditions: string[] = [];
+
+      const wrapped = rawText.match(/^(.+?)\s*\((.+)\)\s*$/);
+      if (wrapped) {
+        const [, outer, inner] = wrapped;
+        if (/\d+(?:\.\d+)?\s*(?:GB|원|P\b)/i.test(inner) && !/\d/.test(outer)) {
+          title = inner;
+          conditions.push(outer.trim());
+        } else if (/유지|조건|가입|이상|결합|신청|충족|시$/.test(inner)) {
+          title = outer;
+          conditions.push(inner.trim());
+        }
+      }
+
+      const noteIndex = title.indexOf('※');
+      if (noteIndex > 0) {
+        conditions.push(title.slice(noteIndex + 1).trim());
+        title = title.slice(0, noteIndex);
+      }
+
+      title = cleanBenefitText(title);
+      const type = detectBenefitType(rawText);
+      const amount = parseKrwAmount(title);
+      const isMonthly = /월\s*\d|매월|\/\s*월/.test(title);
+      const dataMatch = title.match(/(\d+(?:\.\d+)?)\s*GB/i);
+
+      return {
+        type,
+        title,
+        valueKrw: amount !== null && !isMonthly ? amount : null,
+        monthlyDiscountKrw: amount !== null && isMonthly ? amount : null,
+        bonusDataGB: type === BenefitType.BONUS_DATA && dataMatch ? parseFloat(dataMatch[1]) : null,
+        conditions: conditions.length > 0 ? conditions.join(', ') : null,
+        rawText,
+      };
+    })
+    .filter((benefit) => benefit.title.length > 0);
+}
+
+/**
+ * 1회성 혜택 가치 합계 (포인트/상품권 등 valueKrw 합산, 월 할인은 제외)
+ */
+export function sumBenefitValue(benefits: PlanBenefitData[]): number {
+  return benefits.reduce((sum, benefit) => sum + (benefit.valueKrw ?? 0), 0);
+}
+
+/**
+ * 가성비 점수 계산 기간 (개월, totalCost24M과 동일)
+ */
+export const VALUE_HORIZON_MONTHS = 24;
+
+/**
+ * 가성비 점수
+ *
+ * - effectiveMonthlyCost: 실질 월 요금 (24개월 총 납부액 - 1회성 혜택 가치) / 24
+ * - costPerGB: 실질 월 요금 / 월 환산 데이터 (완전 무제한이거나 데이터가 없으면 null)
+ * - costPerMinute: 실질 월 요금 / 통화 제공량 (무제한이거나 통화가 없으면 null)
+ */
+export interface ValueScore {
+  effectiveMonthlyCost: number;
+  costPerGB: number | null;
+  costPerMinute: number | null;
+}
+
+/**
+ * 월 환산 데이터 제공량 (매일 제공량은 30일 기준으로 합산)
+ */
+export function toMonthlyDataGB(dataBaseGB: number, dataDailyGB: number | null): number {
+  return dataBaseGB + (dataDailyGB ?? 0) * 30;
+}
+
+/**
+ * 가성비 점수 계산
+ * 예: 6개월 180원 → 이후 33,000원 요금제는 24개월 실질 월 요금 24,795원으로,
+ *     프로모션 월 요금만 볼 때보다 상시 저가 요금제와 공정하게 비교됩니다.
+ */
+export function calculateValueScore(
+  plan: Pick<
+    RawPlan,
+    | 'totalCost24M'
+    | 'benefitValueKrw'
+    | 'dataBaseGB'
+    | 'dataDailyGB'
+    | 'isDataUnlimited'
+    | 'talkMinutes'
+    | 'isTalkUnlimited'
+  >,
+): ValueScore {
+  const effectiveMonthlyCost = Math.max(
+    0,
+    Math.round((plan.totalCost24M - plan.benefitValueKrw) / VALUE_HORIZON_MONTHS),
+  );
+  const monthlyDataGB = toMonthlyDataGB(plan.dataBaseGB, plan.dataDailyGB);
+  const round2 = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    effectiveMonthlyCost,
+    costPerGB:
+      plan.isDataUnlimited || monthlyDataGB <= 0
+        ? null
+        : round2(effectiveMonthlyCost / monthlyDataGB),
+    costPerMinute:
+      plan.isTalkUnlimited || !plan.talkMinutes
+        ? null
+        : round2(effectiveMonthlyCost / plan.talkMinutes),
+  };
+}
+
+/**
+ * 키워드 뒤 같은 구절(줄바꿈, 쉼표, 슬래시 전까지)에 해당하는 문자 패턴
+ * 금액의 천 단위 쉼표(7,700원)는 구절을 끊지 않습니다.
+ */
+const CLAUSE_CHAR = String.raw`(?:[^\n,/]|(?<=\d),(?=\d))`;
+
+/**
+ * 지원 여부 문구 판별 (예: "eSIM 가능" -> true, "eSIM 불가" -> false, 언급 없음 -> null)
+ */
+function detectSupport(text: string, keyword: RegExp): boolean | null {
+  const match = text.match(new RegExp(`(?:${keyword.source})${CLAUSE_CHAR}{0,15}`, 'i'));
+  if (!match) return null;
+  return !/불가|미지원|지원\s*(?:안|하지)|제한/.test(match[0]);
+}
+
+/**
+ * 비용 문구 파싱 (예: "가입비 7,200원" -> 7200, "유심비 무료" -> 0, 언급 없음 -> null)
+ */
+function parseFee(text: string, keyword: RegExp): number | null {
+  const match = text.match(new RegExp(`(?:${keyword.source})${CLAUSE_CHAR}{0,20}`, 'i'));
+  if (!match) return null;
+
+  const amount = match[0].match(/(\d[\d,]*)\s*원/);
+  if (amount) return parseInt(amount[1].replace(/,/g, ''), 10);
+  return /무료|면제|없음/.test(match[0]) ? 0 : null;
+}
+
+/**
+ * 상세 페이지 본문에서 가입 조건 파싱
+ * 예: "eSIM 개통 가능", "가입비 면제", "유심비 7,700원", "번호이동 불가", "만 19세 이상",
+ *     "무약정", "위약금 없음", "2025.12.31까지"
+ */
+export function parseSignupConditions(text: string): SignupConditionData {
+  const minAgeMatch = text.match(/만\s*(\d+)\s*세\s*이상/);
+  const maxAgeMatch = text.match(/만\s*(\d+)\s*세\s*(?:이하|미만)/);
+  const contractMatch = text.match(/약정\s*(\d+)\s*개월/);
+  const penaltyMatch = text.match(/[^\n.]*위약금[^\n.]*/);
+  const endDateMatch = text.match(
+    /(\d{4})\s*[.\-년]\s*(\d{1,2})\s*[.\-월]\s*(\d{1,2})\s*일?\s*(?:까지|종료)/,
+  );
+
+  return {
+    usimSupported: detectSupport(text, /유심|USIM/),
+    esimSupported: detectSupport(text, /eSIM|이심/),
+    activationFeeKrw: parseFee(text, /가입비|개통비/),
+    usimFeeKrw: parseFee(text, /유심\s*(?:비용|구매비|비)|USIM\s*비용/),
+    numberPortAllowed: detectSupport(text, /번호\s*이동/),
+    minAge: minAgeMatch ? parseInt(minAgeMatch[1], 10) : null,
+    maxAge: maxAgeMatch ? parseInt(maxAgeMatch[1], 10) : null,
+    contractMonths: /무약정/.test(text) ? 0 : contractMatch ? parseInt(contractMatch[1], 10) : null,
+    penaltyTerms: penaltyMatch ? penaltyMatch[0].trim().slice(0, 500) : null,
+    promotionEndDate: endDateMatch
+      ? new Date(
+          parseInt(endDateMatch[1], 10),
+          parseInt(endDateMatch[2], 10) - 1,
+          parseInt(endDateMatch[3], 10),
+        )
+      : null,
+  };
+}
+
+/**
+ * 사은품 정보 파싱 및 포맷팅
+ * 예: ["네이버페이 10,000P 제공", "데이터 결합 (추가데이터 20GB)"]
+ *     -> "네이버페이 10,000P | 추가 데이터 20GB"
+ */
+export function parseBenefits(benefitTexts: string[]): string | null {
+  if (!benefitTexts || benefitTexts.length === 0) return null;
+
+  const cleanedBenefits = benefitTexts
+    .map((text) => cleanBenefitText(text))
+    .filter((text) => text.length > 0);
+
+  return cleanedBenefits.length > 0 ? cleanedBenefits.join(' | ') : null;
+}
+
+/**
+ * 버전 이력으로 추적하는 요금제 값 (dataHash 입력 중 RawPlan에 저장되는 값)
+ */
+export const VERSIONED_PLAN_FIELDS = [
+  'planName',
+  'mvno',
+  'technology',
+  'pricePromo',
+  'priceOriginal',
+  'pricePostPromo',
+  'promotionDurationMonths',
+  'isLifetimePromotion',
+  'dataBaseGB',
+  'isDataUnlimited',
+  'dataDailyGB',
+  'dataPostSpeedMbps',
+  'dataDailyPostSpeedMbps',
+  'tetheringGB',
+  'sharingGB',
+  'talkMinutes',
+  'isTalkUnlimited',
+  'smsCount',
+  'isSmsUnlimited',
+] as const satisfies readonly (keyof RawPlan)[];
+
+/**
+ * 저장된 요금제와 새 값 사이에 실제로 바뀐 추적 값
+ *
+ * dataHash 입력 규칙만 바뀐 경우(예: 센티널 값을 명시적 필드로 바꾼 마이그레이션 후) 해시는 달라도
+ * 빈 배열을 반환하므로, 새 버전을 만들지 않고 해시만 갱신하는 데 사용합니다.
+ *
+ * @returns 바뀐 필드 이름 (없으면 빈 배열)
+ */
+export function findChangedPlanFields(
+  stored: Pick<RawPlan, (typeof VERSIONED_PLAN_FIELDS)[number]>,
+  next: Pick<RawPlan, (typeof VERSIONED_PLAN_FIELDS)[number]>,
+): string[] {
+  return VERSIONED_PLAN_FIELDS.filter((field) => stored[field] !== next[field]);
+}
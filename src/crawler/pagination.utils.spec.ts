@@ -0,0 +1,79 @@
+import { crawlPagesConcurrently, dedupeByKey } from './pagination.utils';
+
+describe('pagination utils', () => {
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it('should merge pages in page order and ignore failures past the last page', async () => {
+    const visited: number[] = [];
+
+    const items = await crawlPagesConcurrently(3, async (pageNumber) => {
+      visited.push(pageNumber);
+      // 앞 페이지가 늦게 끝나도 결과는 페이지 순서로 합쳐짐
+      await sleep(pageNumber === 1 ? 20 : 1);
+      if (pageNumber > 4) throw new Error('요금제 카드 없음');
+      return { items: [`${pageNumber}-a`, `${pageNumber}-b`], hasNextPage: pageNumber < 4 };
+    });
+
+    expect(items).toEqual(['1-a', '1-b', '2-a', '2-b', '3-a', '3-b', '4-a', '4-b']);
+    expect(Math.max(...visited)).toBeLessThanOrEqual(4 + 2);
+  });
+
+  it('should crawl one page at a time with a single worker', async () => {
+    const workers = new Set<number>();
+    const visited: number[] = [];
+
+    await crawlPagesConcurrently(1, (pageNumber, workerIndex) => {
+      workers.add(workerIndex);
+      visited.push(pageNumber);
+      return Promise.resolve({ items: [pageNumber], hasNextPage: pageNumber < 3 });
+    });
+
+    expect([...workers]).toEqual([0]);
+    expect(visited).toEqual([1, 2, 3]);
+  });
+
+  it('should stop assigning pages after a failure and rethrow it', async () => {
+    const visited: number[] = [];
+
+    await expect(
+      crawlPagesConcurrently(2, async (pageNumber) => {
+        visited.push(pageNumber);
+        await sleep(1);
+        if (pageNumber === 2) throw new Error('timeout');
+        return { items: [pageNumber], hasNextPage: true };
+      }),
+    ).rejects.toThrow('timeout');
+    expect(visited).toEqual([1, 2, 3]);
+  });
+
+  it('should fail instead of ending the list at a page that did not load', async () => {
+    await expect(
+      crawlPagesConcurrently(3, async (pageNumber) => {
+        await sleep(pageNumber === 4 ? 20 : 1);
+        if (pageNumber === 4) throw new Error('요금제 카드 없음');
+        return { items: [pageNumber], hasNextPage: pageNumber < 6 };
+      }),
+    ).rejects.toThrow('요금제 카드 없음');
+  });
+
+  it('should keep the first occurrence of duplicated keys', () => {
+    expect(
+      dedupeByKey(
+        [
+          { url: '/plans/1', page: 1 },
+          { url: null, page: 1 },
+          { url: '/plans/1', page: 2 },
+          { url: null, page: 2 },
+        ],
+        (item) => item.url,
+      ),
+    ).toEqual({
+      items: [
+        { url: '/plans/1', page: 1 },
+        { url: null, page: 1 },
+        { url: null, page: 2 },
+      ],
+      duplicates: 1,
+    });
+  });
+});
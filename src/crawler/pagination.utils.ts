@@ -0,0 +1,99 @@
+/**
+ * 목록 페이지 병렬 순회 유틸리티
+ *
+ * - 페이지 번호를 작업 큐처럼 나눠 주고, 워커(브라우저 페이지)마다 하나씩 가져가 크롤링
+ * - 마지막 페이지(다음 페이지 없음)가 확인되면 그 이후 번호는 더 배정하지 않음
+ * - 빈 페이지를 마지막으로 추정하지 않음 (마지막 페이지는 앞 페이지가 다음 페이지 없음을 알려야 확정)
+ * - 결과는 페이지 번호 순으로 합쳐서 반환 (워커 완료 순서와 무관)
+ */
+
+/**
+ * 페이지 하나의 크롤링 결과
+ */
+export interface PageCrawlResult<T> {
+  items: T[];
+  hasNextPage: boolean;
+}
+
+/**
+ * 목록 페이지를 최대 concurrency개씩 동시에 크롤링
+ *
+ * 이미 배정된 페이지가 마지막 페이지 이후로 확인되면 결과와 오류를 모두 무시합니다.
+ * (목록 끝을 넘은 페이지는 카드가 없거나 HAR 재생 시 요청이 중단되므로 실패할 수 있음)
+ * 한 페이지라도 실패하면 새 페이지 배정을 멈추고, 진행 중인 페이지가 끝난 뒤
+ * 마지막 페이지 이내의 실패가 있으면 가장 앞 페이지의 오류를 던집니다.
+ * (느린 페이지 하나 때문에 이후 페이지가 빠진 채 성공 처리되면 판매 종료로 잘못 처리되므로)
+ *
+ * @param concurrency 동시에 크롤링할 페이지 수 (워커 수, 최소 1)
+ * @param crawlPage 페이지 크롤링 함수 (workerIndex: 0부터 시작하는 워커 번호, 워커별 페이지 재사용용,
+ *   카드가 없으면 빈 결과 대신 예외를 던질 것)
+ * @param maxPages 최대 페이지 수 (무한 순회 방지)
+ * @returns 페이지 번호 순으로 합친 항목
+ */
+export async function crawlPagesConcurrently<T>(
+  concurrency: number,
+  crawlPage: (pageNumber: number, workerIndex: number) => Promise<PageCrawlResult<T>>,
+  maxPages = 500,
+): Promise<T[]> {
+  const results = new Map<number, T[]>();
+  const errors = new Map<number, unknown>();
+  let nextPage = 1;
+  let lastPage = maxPages; // 다음 페이지가 없다고 확인된 가장 앞 페이지
+  let failed = false;
+
+  const runWorker = async (workerIndex: number) => {
+    while (!failed && nextPage <= lastPage) {
+      const pageNumber = nextPage++;
+      try {
+        const { items, hasNextPage } = await crawlPage(pageNumber, workerIndex);
+        results.set(pageNumber, items);
+        if (!hasNextPage) {
+          lastPage = Math.min(lastPage, pageNumber);
+        }
+      } catch (error) {
+        // 마지막 페이지 이후였는지는 앞 페이지 결과가 모두 나온 뒤에 판정
+        errors.set(pageNumber, error);
+        failed = true;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.floor(concurrency));
+  await Promise.all(
+    Array.from({ length: workerCount }, (_, workerIndex) => runWorker(workerIndex)),
+  );
+
+  const failedPages = [...errors.keys()].filter((pageNumber) => pageNumber <= lastPage);
+  if (failedPages.length > 0) {
+    throw errors.get(Math.min(...failedPages));
+  }
+
+  return [...results.entries()]
+    .filter(([pageNumber]) => pageNumber <= lastPage)
+    .sort(([a], [b]) => a - b)
+    .flatMap(([, items]) => items);
+}
+
+/**
+ * 중복 항목 제거 (먼저 나온 항목 유지)
+ *
+ * 병렬 순회 중 목록 순서가 바뀌면 같은 요금제가 두 페이지에 나타날 수 있어 사용합니다.
+ *
+ * @param keyOf 중복 판정 키 (null이면 중복 검사 없이 유지)
+ * @returns 중복을 제거한 항목과 제거된 개수
+ */
+export function dedupeByKey<T>(
+  items: T[],
+  keyOf: (item: T) => string | null,
+): { items: T[]; duplicates: number } {
+  const seen = new Set<string>();
+  const unique = items.filter((item) => {
+    const key = keyOf(item);
+    if (key === null) return true;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return { items: unique, duplicates: items.length - unique.length };
+}
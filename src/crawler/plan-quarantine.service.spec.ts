@@ -0,0 +1,148 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { CrawledPlanData } from './crawler.types';
+import { PlanQuarantineService, validateCrawledPlan } from './plan-quarantine.service';
+
+function makePlan(overrides: Partial<CrawledPlanData>): CrawledPlanData {
+  return {
+    planName: '음성기본 11GB+일 2GB+',
+    sourceSite: 'moyoplan',
+    detailUrl: 'https://www.moyoplan.com/plans/29214',
+    mvno: '찬스모바일',
+    network: 'LG U+',
+    technology: 'LTE',
+    pricePromo: 12000,
+    priceOriginal: 38500,
+    pricePostPromo: 38500,
+    promotionDurationMonths: 7,
+    promotionEndDate: null,
+    isLifetimePromotion: false,
+    dataBaseGB: 11,
+    isDataUnlimited: false,
+    dataDailyGB: 2,
+    dataPostSpeedMbps: null,
+    dataDailyPostSpeedMbps: 3,
+    tetheringGB: null,
+    sharingGB: null,
+    talkMinutes: null,
+    isTalkUnlimited: true,
+    smsCount: null,
+    isSmsUnlimited: true,
+    benefitSummary: null,
+    benefits: [],
+    ...overrides,
+  };
+}
+
+describe('validateCrawledPlan', () => {
+  it('should pass a well-formed plan', () => {
+    expect(validateCrawledPlan(makePlan({}))).toEqual([]);
+  });
+
+  it('should allow a zero-won promotion with an original price', () => {
+    expect(validateCrawledPlan(makePlan({ pricePromo: 0 }))).toEqual([]);
+  });
+
+  it('should reject parser fallbacks for price, MVNO and network', () => {
+    const reasons = validateCrawledPlan(
+      makePlan({ pricePromo: 0, priceOriginal: null, mvno: 'Unknown', network: 'Unknown' }),
+    );
+
+    expect(reasons).toHaveLength(3);
+    expect(reasons.join()).toContain('월 요금 0원');
+    expect(reasons.join()).toContain('사업자명 없음');
+    expect(reasons.join()).toContain('알 수 없는 통신망');
+  });
+
+  it('should reject implausible prices and allowances', () => {
+    const reasons = validateCrawledPlan(
+      makePlan({
+        pricePromo: 385000,
+        priceOriginal: 38500,
+        dataBaseGB: 0,
+        dataDailyGB: null,
+        talkMinutes: 300000,
+      }),
+    );
+
+    expect(reasons).toEqual([
+      '월 요금 범위 초과 (385000원)',
+      '할인 전 가격이 월 요금보다 낮음 (38500원 < 385000원)',
+      '데이터 제공량 없음',
+      '통화 제공량 범위 초과 (300000분)',
+    ]);
+  });
+
+  it('should accept unlimited data without a monthly amount', () => {
+    expect(
+      validateCrawledPlan(makePlan({ dataBaseGB: 0, dataDailyGB: null, isDataUnlimited: true })),
+    ).toEqual([]);
+  });
+});
+
+describe('PlanQuarantineService.quarantine', () => {
+  type StoredPlan = { planKey: string; lastSeenAt: Date; isActive: boolean };
+
+  // 격리 기록 저장과 rawPlan.updateMany(planKey, lastSeenAt < 조건)만 흉내 낸 PrismaService
+  const createService = (rawPlans: StoredPlan[]) => {
+    const prisma = {
+      rawPlan: {
+        updateMany: ({
+          where,
+          data,
+        }: {
+          where: { planKey: string; lastSeenAt: { lt: Date } };
+          data: { lastSeenAt: Date };
+        }) => {
+          const matched = rawPlans.filter(
+            (stored) => stored.planKey === where.planKey && stored.lastSeenAt < where.lastSeenAt.lt,
+          );
+          matched.forEach((stored) => (stored.lastSeenAt = data.lastSeenAt));
+          return Promise.resolve({ count: matched.length });
+        },
+      },
+      quarantinedPlan: {
+        findFirst: () => Promise.resolve(null),
+        create: ({ data }: { data: unknown }) => Promise.resolve(data),
+      },
+    };
+    return new PlanQuarantineService(prisma as unknown as PrismaService);
+  };
+
+  it('should mark an existing plan as seen so the same run does not delist it', async () => {
+    const stored: StoredPlan = {
+      planKey: 'key',
+      lastSeenAt: new Date('2025-11-01'),
+      isActive: true,
+    };
+    const seenAt = new Date('2025-11-08');
+
+    await createService([stored]).quarantine({
+      planKey: 'key',
+      plan: makePlan({ pricePromo: -1 }),
+      reasons: ['가격 오류'],
+      seenAt,
+      crawlRunId: 1,
+    });
+
+    // deactivateUnseenPlans 조건: lastSeenAt < seenAt
+    expect(stored.lastSeenAt < seenAt).toBe(false);
+  });
+
+  it('should not move lastSeenAt backwards when re-quarantining an older capture', async () => {
+    const stored: StoredPlan = {
+      planKey: 'key',
+      lastSeenAt: new Date('2025-11-08'),
+      isActive: true,
+    };
+
+    await createService([stored]).quarantine({
+      planKey: 'key',
+      plan: makePlan({ pricePromo: -1 }),
+      reasons: ['가격 오류'],
+      seenAt: new Date('2025-11-01'),
+      crawlRunId: 1,
+    });
+
+    expect(stored.lastSeenAt).toEqual(new Date('2025-11-08'));
+  });
+});
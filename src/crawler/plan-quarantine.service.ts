@@ -0,0 +1,297 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import { Network, Prisma, QuarantinedPlan, QuarantineStatus } from '@prisma/client';
+import { CrawledPlanData } from './crawler.types';
+import { normalizeNetwork } from './crawler.utils';
+
+/**
+ * 요금제 데이터 품질 검증 기준값
+ *
+ * - maxPrice: 월 요금 상한 (원). 알뜰폰 최고가 요금제보다 충분히 높게 설정
+ * - maxDataGB / maxDailyDataGB: 월/매일 데이터 제공량 상한 (GB)
+ * - maxTalkMinutes / maxSmsCount: 통화(분)/문자(건) 제공량 상한
+ */
+export const PLAN_VALIDATION_LIMITS = {
+  maxPrice: 200000,
+  maxDataGB: 1000,
+  maxDailyDataGB: 100,
+  maxTalkMinutes: 10000,
+  maxSmsCount: 10000,
+} as const;
+
+/**
+ * 크롤링된 이름이 비어 있거나 파서 기본값('Unknown')인지 확인
+ */
+function isMissingName(name: string): boolean {
+  const trimmed = name.trim();
+  return trimmed.length === 0 || trimmed === 'Unknown';
+}
+
+/**
+ * 요금제 데이터 품질 검증
+ *
+ * 파서가 값을 찾지 못해 0이나 'Unknown'으로 채운 요금제가 저장되지 않도록
+ * 다음 규칙을 검사합니다.
+ * - 요금제 이름/사업자명이 비어 있지 않을 것
+ * - 통신망이 SKT/KT/LG U+ 중 하나로 정규화될 것
+ * - 월 요금이 0원 초과 maxPrice 이하일 것 (할인 전 가격이 있는 0원 프로모션은 허용)
+ * - 할인 전 가격/프로모션 종료 후 요금이 범위 내이고 할인 전 가격이 할인 가격 이상일 것
+ * - 데이터 제공량이 범위 내이고, 무제한이 아니면 월/매일 제공량 중 하나는 있을 것
+ * - 통화/문자 제공량이 범위 내일 것
+ *
+ * @returns 검증 실패 사유 목록 (통과하면 빈 배열)
+ */
+export function validateCrawledPlan(plan: CrawledPlanData): string[] {
+  const limits = PLAN_VALIDATION_LIMITS;
+  const reasons: string[] = [];
+  const isPriceInRange = (price: number) => price > 0 && price <= limits.maxPrice;
+
+  if (isMissingName(plan.planName)) {
+    reasons.push('요금제 이름 없음');
+  }
+  if (isMissingName(plan.mvno)) {
+    reasons.push('사업자명 없음');
+  }
+  if (normalizeNetwork(plan.network) === Network.UNKNOWN) {
+    reasons.push(`알 수 없는 통신망 (${plan.network || '없음'})`);
+  }
+
+  if (plan.pricePromo === 0) {
+    if (plan.priceOriginal === null || plan.priceOriginal <= 0) {
+      reasons.push('월 요금 0원 (할인 전 가격 없음, 가격 파싱 실패 의심)');
+    }
+  } else if (!isPriceInRange(plan.pricePromo)) {
+    reasons.push(`월 요금 범위 초과 (${plan.pricePromo}원)`);
+  }
+  if (plan.priceOriginal !== null) {
+    if (!isPriceInRange(plan.priceOriginal)) {
+      reasons.push(`할인 전 가격 범위 초과 (${plan.priceOriginal}원)`);
+    } else if (plan.priceOriginal < plan.pricePromo) {
+      reasons.push(
+        `할인 전 가격이 월 요금보다 낮음 (${plan.priceOriginal}원 < ${plan.pricePromo}원)`,
+      );
+    }
+  }
+  if (plan.pricePostPromo !== null && !isPriceInRange(plan.pricePostPromo)) {
+    reasons.push(`프로모션 종료 후 요금 범위 초과 (${plan.pricePostPromo}원)`);
+  }
+
+  if (plan.dataBaseGB < 0 || plan.dataBaseGB > limits.maxDataGB) {
+    reasons.push(`월 데이터 제공량 범위 초과 (${plan.dataBaseGB}GB)`);
+  }
+  if (
+    plan.dataDailyGB !== null &&
+    (plan.dataDailyGB <= 0 || plan.dataDailyGB > limits.maxDailyDataGB)
+  ) {
+    reasons.push(`매일 데이터 제공량 범위 초과 (${plan.dataDailyGB}GB)`);
+  }
+  if (!plan.isDataUnlimited && plan.dataBaseGB === 0 && !plan.dataDailyGB) {
+    reasons.push('데이터 제공량 없음');
+  }
+
+  if (
+    plan.talkMinutes !== null &&
+    (plan.talkMinutes < 0 || plan.talkMinutes > limits.maxTalkMinutes)
+  ) {
+    reasons.push(`통화 제공량 범위 초과 (${plan.talkMinutes}분)`);
+  }
+  if (plan.smsCount !== null && (plan.smsCount < 0 || plan.smsCount > limits.maxSmsCount)) {
+    reasons.push(`문자 제공량 범위 초과 (${plan.smsCount}건)`);
+  }
+
+  return reasons;
+}
+
+/**
+ * 격리 요청 정보
+ */
+export interface QuarantineInput {
+  planKey: string;
+  plan: CrawledPlanData;
+  reasons: string[];
+  seenAt: Date;
+  crawlRunId: number | null;
+}
+
+/**
+ * 요금제 격리(quarantine) 서비스: 검증 실패 요금제 보관 및 검토
+ *
+ * - 검증 규칙(validateCrawledPlan)을 통과하지 못한 요금제를 사유와 함께 QuarantinedPlan에 보관
+ * - 같은 요금제가 검토 전에 다시 격리되면 새 기록 대신 기존 기록의 값/사유/횟수 갱신
+ * - 이미 저장된 요금제가 격리되면 RawPlan의 lastSeenAt만 갱신 (판매 종료로 비활성화되지 않도록)
+ * - 검토자가 값을 수정하면 사유를 다시 검증하여 갱신
+ * - 릴리스(RawPlan 저장)는 CrawlerService.releaseQuarantinedPlan이 담당
+ */
+@Injectable()
+export class PlanQuarantineService {
+  private readonly logger = new Logger(PlanQuarantineService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * 검증 실패 요금제 격리
+   *
+   * @returns 생성 또는 갱신된 격리 기록
+   */
+  async quarantine(input: QuarantineInput): Promise<QuarantinedPlan> {
+    const { planKey, plan, reasons, seenAt, crawlRunId } = input;
+    const data = {
+      planName: plan.planName,
+      payload: plan as unknown as Prisma.InputJsonObject,
+      reasons,
+      lastSeenAt: seenAt,
+      crawlRunId,
+    };
+
+    this.logger.warn(`요금제 격리: ${plan.planName} (${plan.sourceSite}) - ${reasons.join(', ')}`);
+
+    // 목록에서는 확인된 요금제이므로, 한 번의 파싱 오류로 판매 종료 처리되지 않도록 확인 시각만 갱신
+    // (재파싱처럼 과거 시각으로 격리하는 경우 더 최근 확인 시각을 유지)
+    await this.prisma.rawPlan.updateMany({
+      where: { planKey, lastSeenAt: { lt: seenAt } },
+      data: { lastSeenAt: seenAt },
+    });
+
+    const pending = await this.prisma.quarantinedPlan.findFirst({
+      where: { planKey, status: QuarantineStatus.PENDING },
+    });
+
+    if (pending) {
+      return await this.prisma.quarantinedPlan.update({
+        where: { id: pending.id },
+        data: { ...data, occurrences: { increment: 1 } },
+      });
+    }
+
+    return await this.prisma.quarantinedPlan.create({
+      data: { ...data, planKey, sourceSite: plan.sourceSite },
+    });
+  }
+
+  /**
+   * 격리 기록 목록 조회 (최근 확인순)
+   *
+   * @param status 검토 상태 (미지정 시 전체)
+   * @param limit 조회 개수 (최대 100)
+   */
+  async findAll(status?: QuarantineStatus, limit = 50): Promise<QuarantinedPlan[]> {
+    return await this.prisma.quarantinedPlan.findMany({
+      where: status ? { status } : undefined,
+      orderBy: { lastSeenAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), 100),
+    });
+  }
+
+  /**
+   * 격리 기록 조회
+   */
+  async findOne(id: number): Promise<QuarantinedPlan | null> {
+    return await this.prisma.quarantinedPlan.findUnique({ where: { id } });
+  }
+
+  /**
+   * 크롤링 실행에서 격리된 요금제 수
+   */
+  async countByRun(crawlRunId: number): Promise<number> {
+    return await this.prisma.quarantinedPlan.count({ where: { crawlRunId } });
+  }
+
+  /**
+   * 저장된 payload를 요금제 데이터로 복원 (JSON 문자열로 저장된 날짜 변환)
+   */
+  toPlanData(record: QuarantinedPlan): CrawledPlanData {
+    const plan = record.payload as unknown as CrawledPlanData;
+    const toDate = (value: Date | string | null | undefined) => (value ? new Date(value) : null);
+
+    return {
+      ...plan,
+      promotionEndDate: toDate(plan.promotionEndDate),
+      signup: plan.signup
+        ? { ...plan.signup, promotionEndDate: toDate(plan.signup.promotionEndDate) }
+        : plan.signup,
+    };
+  }
+
+  /**
+   * 검토 대기 요금제 값 수정
+   * 수정한 값으로 다시 검증하여 사유를 갱신합니다. (사유가 비면 릴리스 가능)
+   *
+   * @param record 검토 대기(PENDING) 격리 기록
+   * @param changes 수정할 요금제 필드 (parsePlanChanges로 변환/검증된 값, 예: { pricePromo: 22000 })
+   * @param reviewedBy 검토자
+   * @returns 갱신된 격리 기록
+   */
+  async fix(
+    record: QuarantinedPlan,
+    changes: Partial<CrawledPlanData>,
+    reviewedBy: string,
+  ): Promise<QuarantinedPlan> {
+    const plan: CrawledPlanData = { ...this.toPlanData(record), ...changes };
+    const reasons = validateCrawledPlan(plan);
+
+    const updated = await this.prisma.quarantinedPlan.update({
+      where: { id: record.id },
+      data: {
+        planName: plan.planName,
+        payload: plan as unknown as Prisma.InputJsonObject,
+        reasons,
+        reviewedBy,
+      },
+    });
+
+    this.logger.log(
+      `격리 요금제 수정 (ID: ${record.id}, 검토자: ${reviewedBy}, 남은 사유 ${reasons.length}개)`,
+    );
+    return updated;
+  }
+
+  /**
+   * 릴리스 처리 (RawPlan 저장 후 호출)
+   */
+  async markReleased(
+    id: number,
+    rawPlanId: number,
+    reviewedBy: string,
+    reviewNote: string | null,
+  ): Promise<QuarantinedPlan> {
+    const updated = await this.prisma.quarantinedPlan.update({
+      where: { id },
+      data: {
+        status: QuarantineStatus.RELEASED,
+        rawPlanId,
+        reviewedBy,
+        reviewNote,
+        resolvedAt: new Date(),
+      },
+    });
+
+    this.logger.log(`격리 요금제 릴리스 (ID: ${id}, RawPlan ID: ${rawPlanId})`);
+    return updated;
+  }
+
+  /**
+   * 격리 요금제 폐기 (잘못 수집된 데이터)
+   *
+   * @param record 검토 대기(PENDING) 격리 기록
+   * @param reviewedBy 검토자
+   * @param reviewNote 폐기 사유
+   */
+  async discard(
+    record: QuarantinedPlan,
+    reviewedBy: string,
+    reviewNote: string | null,
+  ): Promise<QuarantinedPlan> {
+    const updated = await this.prisma.quarantinedPlan.update({
+      where: { id: record.id },
+      data: {
+        status: QuarantineStatus.DISCARDED,
+        reviewedBy,
+        reviewNote,
+        resolvedAt: new Date(),
+      },
+    });
+
+    this.logger.log(`격리 요금제 폐기 (ID: ${record.id}, 검토자: ${reviewedBy})`);
+    return updated;
+  }
+}
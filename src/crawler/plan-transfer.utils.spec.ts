@@ -0,0 +1,97 @@
+import {
+  csvToRecords,
+  parseCsv,
+  parsePlanChanges,
+  toImportedPlan,
+  toPlansCsv,
+} from './plan-transfer.utils';
+
+describe('plan transfer utils', () => {
+  it('should parse quoted cells with commas, quotes and line breaks', () => {
+    const rows = parseCsv(
+      '\uFEFFplanName,benefitSummary\r\n"음성 11GB, 일 2GB","1줄\n""2줄"""\r\n\r\n',
+    );
+
+    expect(rows).toEqual([
+      ['planName', 'benefitSummary'],
+      ['음성 11GB, 일 2GB', '1줄\n"2줄"'],
+    ]);
+  });
+
+  it('should convert a CSV row into plan data for the chosen source', () => {
+    const [record] = csvToRecords(
+      [
+        'planName,sourceSite,mvno,network,technology,pricePromo,priceOriginal,dataBaseGB,isTalkUnlimited,benefits',
+        '"제휴 11GB",other,찬스모바일,LG U+,LTE,"12,000",38500,11,Y,"네이버페이 10,000P 제공 | 데이터 결합 (추가데이터 20GB)"',
+      ].join('\n'),
+    );
+
+    const { plan, errors } = toImportedPlan(record, 'partner-sheet');
+
+    expect(errors).toEqual([]);
+    expect(plan).toMatchObject({
+      planName: '제휴 11GB',
+      sourceSite: 'partner-sheet',
+      pricePromo: 12000,
+      priceOriginal: 38500,
+      dataBaseGB: 11,
+      dataDailyGB: null,
+      isTalkUnlimited: true,
+      isSmsUnlimited: false,
+      benefitSummary: '네이버페이 10,000P | 추가 데이터 20GB',
+    });
+    expect(plan?.benefits).toHaveLength(2);
+  });
+
+  it('should report missing required columns and malformed values', () => {
+    const { plan, errors } = toImportedPlan(
+      { planName: '제휴 요금제', mvno: '', network: 'KT', technology: 'LTE', dataBaseGB: '많음' },
+      'partner-sheet',
+    );
+
+    expect(plan).toBeNull();
+    expect(errors).toEqual([
+      '필수 컬럼 누락: mvno',
+      '필수 컬럼 누락: pricePromo',
+      'dataBaseGB 형식 오류 (number): "많음"',
+    ]);
+  });
+
+  it('should re-import exported CSV unchanged', () => {
+    const { plan } = toImportedPlan(
+      {
+        planName: '프리티 "5G" 무제한',
+        mvno: '프리티',
+        network: 'KT',
+        technology: '5G',
+        pricePromo: 55000,
+        isDataUnlimited: true,
+        promotionEndDate: '2025-12-31T00:00:00.000Z',
+        benefits: ['네이버페이 10,000P 제공'],
+      },
+      'partner-sheet',
+    );
+
+    expect(plan).not.toBeNull();
+    const [record] = csvToRecords(toPlansCsv(plan ? [plan] : []));
+
+    expect(toImportedPlan(record, 'partner-sheet').plan).toEqual(plan);
+  });
+
+  it('should convert quarantine changes and reject identity fields and malformed values', () => {
+    expect(parsePlanChanges({ pricePromo: '22,000', dataDailyGB: null, network: 'KT' })).toEqual({
+      changes: { pricePromo: 22000, dataDailyGB: null, network: 'KT' },
+      errors: [],
+    });
+
+    const { errors } = parsePlanChanges({
+      pricePromo: 'abc',
+      sourceSite: 'uplus',
+      detailUrl: '/plans/2',
+      planName: '다른 요금제',
+      mvno: '',
+      unknownField: 1,
+    });
+    expect(errors).toHaveLength(6);
+  });
+});
@@ -0,0 +1,324 @@
+import { PlanBenefit, RawPlan } from '@prisma/client';
+import { CrawledPlanData } from './crawler.types';
+import {
+  NETWORK_LABELS,
+  parseBenefitItems,
+  parseBenefits,
+  TECHNOLOGY_LABELS,
+} from './crawler.utils';
+
+/**
+ * 요금제 가져오기/내보내기 유틸리티 (CSV/JSON, CrawledPlanData 형식)
+ *
+ * - 제휴 사업자 요금표나 크롤러가 없는 소스를 수동으로 등록할 때 사용
+ * - 가져온 요금제는 크롤러와 같은 저장 경로(검증, planKey/dataHash, 이력)로 저장
+ * - 내보낸 파일은 그대로 다시 가져올 수 있도록 같은 컬럼을 사용
+ */
+
+type ColumnType =
+  | 'string'
+  | 'nullableString'
+  | 'number'
+  | 'nullableNumber'
+  | 'boolean'
+  | 'nullableDate';
+
+/**
+ * 가져오기/내보내기 컬럼 (CrawledPlanData 필드, CSV 헤더 순서)
+ *
+ * - 필수: planName, mvno, network, technology, pricePromo
+ * - 그 외 컬럼이 비어 있으면 수치는 0(기본 제공량) 또는 null, 여부는 false
+ * - benefits: 혜택 원문 목록 (CSV는 " | "로 구분, 크롤러와 같은 parseBenefitItems로 구조화)
+ * - sourceSite는 가져올 때 지정한 값으로 덮어씀
+ */
+export const PLAN_TRANSFER_COLUMNS = {
+  planName: 'string',
+  sourceSite: 'nullableString',
+  detailUrl: 'nullableString',
+  mvno: 'string',
+  network: 'string',
+  technology: 'string',
+  pricePromo: 'number',
+  priceOriginal: 'nullableNumber',
+  pricePostPromo: 'nullableNumber',
+  promotionDurationMonths: 'nullableNumber',
+  promotionEndDate: 'nullableDate',
+  isLifetimePromotion: 'boolean',
+  dataBaseGB: 'number',
+  isDataUnlimited: 'boolean',
+  dataDailyGB: 'nullableNumber',
+  dataPostSpeedMbps: 'nullableNumber',
+  dataDailyPostSpeedMbps: 'nullableNumber',
+  tetheringGB: 'nullableNumber',
+  sharingGB: 'nullableNumber',
+  talkMinutes: 'nullableNumber',
+  isTalkUnlimited: 'boolean',
+  smsCount: 'nullableNumber',
+  isSmsUnlimited: 'boolean',
+  benefitSummary: 'nullableString',
+} as const satisfies Partial<Record<keyof CrawledPlanData, ColumnType>>;
+
+type TransferColumn = keyof typeof PLAN_TRANSFER_COLUMNS;
+
+const REQUIRED_COLUMNS: TransferColumn[] = [
+  'planName',
+  'mvno',
+  'network',
+  'technology',
+  'pricePromo',
+];
+
+// 격리 요금제 수정에서 바꿀 수 없는 식별 컬럼 (바꾸면 planKey나 출처가 달라져 다른 요금제가 됨)
+const IDENTITY_COLUMNS: TransferColumn[] = ['sourceSite', 'detailUrl', 'planName'];
+
+const BENEFIT_SEPARATOR = ' | ';
+
+/**
+ * CSV 텍스트를 행 배열로 파싱 (RFC 4180: 따옴표 안 쉼표/줄바꿈, "" 이스케이프 지원)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim().length > 0));
+}
+
+/**
+ * CSV 셀 값 이스케이프 (쉼표/따옴표/줄바꿈이 있으면 따옴표로 감쌈)
+ */
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV 행 배열을 레코드 배열로 변환 (첫 행은 헤더)
+ */
+export function csvToRecords(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  return rows.map((cells) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      record[column] =
+        column === 'benefits'
+          ? (cells[index] ?? '').split('|').map((text) => text.trim())
+          : (cells[index] ?? '');
+    });
+    return record;
+  });
+}
+
+/**
+ * 컬럼 값 변환 (CSV 문자열과 JSON 값 모두 허용)
+ *
+ * @returns 변환된 값, 형식이 맞지 않으면 undefined
+ */
+function convertValue(value: unknown, type: ColumnType): unknown {
+  const isEmpty = value === null || value === undefined || value === '';
+
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+    case 'nullableString':
+      return isEmpty ? null : typeof value === 'string' ? value.trim() : undefined;
+    case 'number':
+    case 'nullableNumber': {
+      if (isEmpty) return type === 'number' ? 0 : null;
+      const number =
+        typeof value === 'string' ? Number(value.replace(/,/g, '')) : (value as number);
+      return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      if (isEmpty) return false;
+      if (typeof value === 'boolean') return value;
+      if (typeof value !== 'string') return undefined;
+      if (/^(true|1|y|yes|o)$/i.test(value.trim())) return true;
+      if (/^(false|0|n|no|x)$/i.test(value.trim())) return false;
+      return undefined;
+    case 'nullableDate': {
+      if (isEmpty) return null;
+      if (typeof value !== 'string') return undefined;
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? undefined : date;
+    }
+  }
+}
+
+/**
+ * 가져온 레코드를 요금제 데이터로 변환
+ *
+ * - 컬럼 형식 오류와 필수 컬럼 누락을 errors로 반환 (데이터 품질 검증은 저장 시 별도로 수행)
+ * - 혜택은 원문(문자열) 또는 내보낸 혜택 객체의 rawText로 다시 파싱
+ * - 혜택 요약이 없으면 혜택 원문으로 생성
+ *
+ * @param record CSV 행 또는 JSON 객체
+ * @param sourceSite 저장할 출처 이름
+ */
+export function toImportedPlan(
+  record: Record<string, unknown>,
+  sourceSite: string,
+): { plan: CrawledPlanData | null; errors: string[] } {
+  const errors: string[] = [];
+  const values: Record<string, unknown> = {};
+
+  for (const [column, type] of Object.entries(PLAN_TRANSFER_COLUMNS)) {
+    const raw = record[column];
+    if (REQUIRED_COLUMNS.includes(column as TransferColumn) && (raw ?? '') === '') {
+      errors.push(`필수 컬럼 누락: ${column}`);
+      continue;
+    }
+
+    const value = convertValue(raw, type);
+    if (value === undefined) {
+      errors.push(`${column} 형식 오류 (${type}): ${JSON.stringify(raw)}`);
+      continue;
+    }
+    values[column] = value;
+  }
+
+  const benefitTexts = (Array.isArray(record.benefits) ? (record.benefits as unknown[]) : [])
+    .map((benefit) =>
+      typeof benefit === 'object' && benefit !== null
+        ? (benefit as { rawText?: unknown }).rawText
+        : benefit,
+    )
+    .filter((text): text is string => typeof text === 'string' && text.trim().length > 0);
+
+  if (errors.length > 0) {
+    return { plan: null, errors };
+  }
+
+  const plan = {
+    ...values,
+    sourceSite,
+    benefitSummary: values.benefitSummary ?? parseBenefits(benefitTexts),
+    benefits: parseBenefitItems(benefitTexts),
+  } as CrawledPlanData;
+
+  return { plan, errors };
+}
+
+/**
+ * 격리된 요금제 수정 값 변환 (가져오기와 같은 컬럼 형식으로 검증)
+ *
+ * - 식별 컬럼(sourceSite, detailUrl, planName)과 가져오기 컬럼이 아닌 필드는 수정 불가
+ * - 필수 컬럼은 비울 수 없음
+ *
+ * @param changes 요청 본문의 changes (예: { pricePromo: 22000, network: "KT" })
+ * @returns 변환된 수정 값과 오류 목록
+ */
+export function parsePlanChanges(changes: Record<string, unknown>): {
+  changes: Partial<CrawledPlanData>;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const values: Record<string, unknown> = {};
+
+  for (const [column, raw] of Object.entries(changes)) {
+    if (IDENTITY_COLUMNS.includes(column as TransferColumn)) {
+      errors.push(`식별 필드는 수정할 수 없습니다: ${column}`);
+      continue;
+    }
+    if (!(column in PLAN_TRANSFER_COLUMNS)) {
+      errors.push(`수정할 수 없는 필드: ${column}`);
+      continue;
+    }
+    if (REQUIRED_COLUMNS.includes(column as TransferColumn) && (raw ?? '') === '') {
+      errors.push(`필수 필드는 비울 수 없습니다: ${column}`);
+      continue;
+    }
+
+    const type = PLAN_TRANSFER_COLUMNS[column as TransferColumn];
+    const value = convertValue(raw, type);
+    if (value === undefined) {
+      errors.push(`${column} 형식 오류 (${type}): ${JSON.stringify(raw)}`);
+      continue;
+    }
+    values[column] = value;
+  }
+
+  return { changes: values as Partial<CrawledPlanData>, errors };
+}
+
+/**
+ * 저장된 요금제를 내보내기 형식으로 변환 (통신망/통신 기술은 표시 이름 사용)
+ */
+export function toExportedPlan(plan: RawPlan & { benefits: PlanBenefit[] }): CrawledPlanData {
+  const record = Object.fromEntries(
+    Object.keys(PLAN_TRANSFER_COLUMNS).map((column) => [column, plan[column as TransferColumn]]),
+  ) as unknown as CrawledPlanData;
+
+  return {
+    ...record,
+    network: NETWORK_LABELS[plan.network],
+    technology: TECHNOLOGY_LABELS[plan.technology],
+    benefits: plan.benefits.map((benefit) => ({
+      type: benefit.type,
+      title: benefit.title,
+      valueKrw: benefit.valueKrw,
+      monthlyDiscountKrw: benefit.monthlyDiscountKrw,
+      bonusDataGB: benefit.bonusDataGB,
+      conditions: benefit.conditions,
+      rawText: benefit.rawText,
+    })),
+  };
+}
+
+/**
+ * 요금제 목록을 CSV로 변환 (Excel에서 한글이 깨지지 않도록 BOM 포함)
+ */
+export function toPlansCsv(plans: CrawledPlanData[]): string {
+  const columns = [...Object.keys(PLAN_TRANSFER_COLUMNS), 'benefits'];
+
+  const rows = plans.map((plan) =>
+    columns.map((column) => {
+      const value =
+        column === 'benefits'
+          ? plan.benefits.map((benefit) => benefit.rawText).join(BENEFIT_SEPARATOR)
+          : plan[column as TransferColumn];
+
+      if (value === null || value === undefined) return '';
+      return escapeCsvCell(value instanceof Date ? value.toISOString() : String(value));
+    }),
+  );
+
+  return '\uFEFF' + [columns, ...rows].map((cells) => cells.join(',')).join('\r\n') + '\r\n';
+}
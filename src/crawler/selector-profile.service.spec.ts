@@ -0,0 +1,23 @@
+import { validateSelectorProfile } from './selector-profile.service';
+
+describe('validateSelectorProfile', () => {
+  const requiredKeys = ['planItem', 'planTitle'];
+
+  it('should return a valid profile', () => {
+    const raw = {
+      source: 'uplus',
+      version: 2,
+      selectors: { planItem: '.plan_item', planTitle: '.plan_tit' },
+    };
+
+    expect(validateSelectorProfile(raw, 'uplus', requiredKeys)).toEqual(raw);
+  });
+
+  it('should report every problem at once', () => {
+    const raw = { source: 'moyoplan', version: 0, selectors: { planItem: ' ' } };
+
+    expect(() => validateSelectorProfile(raw, 'uplus', requiredKeys)).toThrow(
+      /source가 일치하지 않습니다.*version은 1 이상의 정수.*필수 셀렉터 누락: planItem.*필수 셀렉터 누락: planTitle/,
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import * as fs from 'fs';
+import { SelectorProfile } from './crawler.types';
+
+/**
+ * 셀렉터 프로필 검증
+ *
+ * - source가 요청한 소스 이름과 일치하는지
+ * - version이 1 이상의 정수인지
+ * - 필수 셀렉터 키가 모두 비어 있지 않은 문자열인지
+ *
+ * @param raw JSON.parse 결과
+ * @param sourceName 소스 이름
+ * @param requiredKeys 필수 셀렉터 키 목록
+ * @returns 검증된 SelectorProfile
+ * @throws 검증 실패 시 모든 오류를 모은 Error
+ */
+export function validateSelectorProfile(
+  raw: unknown,
+  sourceName: string,
+  requiredKeys: readonly string[],
+): SelectorProfile {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error(`[${sourceName}] 셀렉터 프로필이 객체가 아닙니다`);
+  }
+
+  const profile = raw as Partial<SelectorProfile>;
+  const errors: string[] = [];
+
+  if (profile.source !== sourceName) {
+    errors.push(`source가 일치하지 않습니다 (기대값: ${sourceName}, 실제값: ${profile.source})`);
+  }
+
+  if (!Number.isInteger(profile.version) || (profile.version as number) < 1) {
+    errors.push(`version은 1 이상의 정수여야 합니다 (실제값: ${profile.version})`);
+  }
+
+  const selectors = profile.selectors;
+  if (typeof selectors !== 'object' || selectors === null) {
+    errors.push('selectors 객체가 없습니다');
+  } else {
+    for (const key of requiredKeys) {
+      const value = selectors[key];
+      if (typeof value !== 'string' || value.trim().length === 0) {
+        errors.push(`필수 셀렉터 누락: ${key}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`[${sourceName}] 셀렉터 프로필 검증 실패: ${errors.join(', ')}`);
+  }
+
+  return profile as SelectorProfile;
+}
+
+/**
+ * 셀렉터 프로필 서비스: 소스별 셀렉터 프로필 파일 로드 및 검증
+ *
+ * - 프로필 파일: <CRAWLER_SELECTOR_DIR>/<source>.json
+ * - 크롤링 실행마다 파일을 다시 읽으므로 수정 후 재배포/재시작 불필요
+ * - 앱 시작 시 CrawlerService가 모든 소스의 프로필을 검증 (잘못된 프로필이면 시작 실패)
+ *
+ * 설정:
+ * - CRAWLER_SELECTOR_DIR: 프로필 디렉토리 (기본값: 프로젝트 루트의 config/selectors)
+ */
+@Injectable()
+export class SelectorProfileService {
+  private readonly logger = new Logger(SelectorProfileService.name);
+
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * 프로필 디렉토리 경로 (프로젝트 루트 기준, dev/prod 모드 모두 동일하게 동작)
+   */
+  private getProfileDir(): string {
+    return path.resolve(
+      process.cwd(),
+      this.configService.get<string>('CRAWLER_SELECTOR_DIR') || path.join('config', 'selectors'),
+    );
+  }
+
+  /**
+   * 소스의 셀렉터 프로필 로드 및 검증
+   *
+   * @param sourceName 소스 이름
+   * @param requiredKeys 필수 셀렉터 키 목록
+   * @throws 파일이 없거나 JSON 형식/검증 오류가 있으면 Error
+   */
+  load(sourceName: string, requiredKeys: readonly string[]): SelectorProfile {
+    const profilePath = path.join(this.getProfileDir(), `${sourceName}.json`);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(profilePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `[${sourceName}] 셀렉터 프로필 로드 실패 (${profilePath}): ${(error as Error).message}`,
+      );
+    }
+
+    const profile = validateSelectorProfile(raw, sourceName, requiredKeys);
+    this.logger.debug(`[${sourceName}] 셀렉터 프로필 로드 완료 (v${profile.version})`);
+
+    return profile;
+  }
+}
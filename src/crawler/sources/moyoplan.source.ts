@@ -0,0 +1,531 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Page } from 'playwright';
+import { readCrawlPolicy } from '@/playwright/crawl-policy';
+import { readCrawlProfile } from '@/playwright/crawl-profile';
+import { PlaywrightService } from '@/playwright/playwright.service';
+import {
+  CapturedCard,
+  CrawledPlanData,
+  CrawlerSource,
+  CrawlerSourceConfig,
+  CrawlStats,
+  SelectorProfile,
+} from '../crawler.types';
+import {
+  extractNumber,
+  parseAllowance,
+  parseBenefitItems,
+  parseBenefits,
+  parseComplexDataExpression,
+  parsePromotionDuration,
+  parseSignupConditions,
+  parseTetheringAndSharing,
+} from '../crawler.utils';
+import { crawlPagesConcurrently, dedupeByKey, PageCrawlResult } from '../pagination.utils';
+
+/**
+ * 모요 요금제 카드에서 수집한 원본 텍스트 (RawCapture.payload)
+ */
+type MoyoplanCardPayload = {
+  planName: string | null;
+  detailUrl: string | null;
+  mvno: string | null;
+  mvnoLogoUrl?: string | null; // 사업자 로고 이미지 URL (img의 src 속성)
+  dataSummary: string;
+  promoPriceText: string;
+  originalPriceText: string;
+  talkText: string;
+  smsText: string;
+  networkText: string;
+  technologyText: string;
+  benefits: string[];
+  cardTexts?: string[]; // 카드 전체 텍스트 (테더링/쉐어링 등 부가 스펙 파싱용)
+  detailText?: string | null; // 상세 페이지 본문 텍스트 (상세 페이지 크롤링 시에만 수집)
+};
+
+// 목록 페이지 동시 순회 수 기본값 (MAX_CONCURRENT_PAGES 설정이 없을 때)
+const MOYOPLAN_DEFAULT_CONCURRENT_PAGES = 3;
+
+/**
+ * 모요(moyoplan.com) 크롤링 소스
+ *
+ * - 혜택 상세 정보 버튼을 모두 펼친 후 데이터 추출
+ * - 목록 페이지 URL(/plans?page=N)로 직접 이동하여 여러 페이지를 동시에 순회
+ *   (CRAWLER_MOYOPLAN_MAX_CONCURRENT_PAGES, 기본값: MOYOPLAN_DEFAULT_CONCURRENT_PAGES)
+ * - 셀렉터: config/selectors/moyoplan.json
+ *
+ * 설정:
+ * - CRAWLER_TARGET_URL: 크롤링 시작 URL (기본값: https://www.moyoplan.com)
+ * - CRAWLER_MOYOPLAN_ENABLED: 'false'면 기본 크롤링 대상에서 제외
+ * - CRAWLER_MOYOPLAN_MIN_DELAY_MS 등: 크롤링 정책 (readCrawlPolicy)
+ * - CRAWLER_MOYOPLAN_RESOURCE_ALLOWLIST 등: 리소스 차단 설정 (readCrawlProfile)
+ */
+@Injectable()
+export class MoyoplanSource implements CrawlerSource {
+  private readonly logger = new Logger(MoyoplanSource.name);
+  readonly name = 'moyoplan';
+  readonly label = '모요';
+  readonly selectorKeys = [
+    'dataPickerCookieName',
+    'pageUrl', // 목록 페이지 경로, {page} 자리에 페이지 번호 치환
+    'dataPickerModal',
+    'planCard',
+    'closedAccordionButton',
+    'cardLink',
+    'mvnoImage',
+    'cardText',
+    'benefitItem',
+    'nextPageLink', // {page} 자리에 페이지 번호 치환
+    'detailContent', // 상세 페이지 본문 (가입 조건 파싱용)
+  ] as const;
+
+  constructor(
+    private configService: ConfigService,
+    private playwrightService: PlaywrightService,
+  ) {}
+
+  getConfig(): CrawlerSourceConfig {
+    return {
+      enabled: this.configService.get<string>('CRAWLER_MOYOPLAN_ENABLED') !== 'false',
+      targetUrl: this.configService.get<string>('CRAWLER_TARGET_URL') || 'https://www.moyoplan.com',
+      policy: readCrawlPolicy(this.configService, this.name, {
+        maxConcurrentPages: MOYOPLAN_DEFAULT_CONCURRENT_PAGES,
+      }),
+      crawlProfile: readCrawlProfile(this.configService, this.name),
+    };
+  }
+
+  /**
+   * 상세 페이지 크롤링 여부 (기본값: 비활성화, 요금제 수만큼 페이지를 추가로 방문하므로 선택 사항)
+   */
+  private isDetailCrawlEnabled(): boolean {
+    return this.configService.get<string>('CRAWLER_MOYOPLAN_DETAIL_ENABLED') === 'true';
+  }
+
+  /**
+   * 상세 페이지 순회: 카드별 detailUrl을 열어 본문 텍스트를 payload.detailText에 저장
+   *
+   * - CRAWLER_MOYOPLAN_DETAIL_LIMIT(기본값: 50)개까지만 방문
+   * - 상세 페이지 실패는 목록 수집 결과에 영향을 주지 않도록 경고만 남김
+   */
+  private async crawlDetailPages(
+    page: Page,
+    captures: CapturedCard[],
+    detailContentSelector: string,
+  ): Promise<void> {
+    const limit = parseInt(
+      this.configService.get<string>('CRAWLER_MOYOPLAN_DETAIL_LIMIT') || '50',
+      10,
+    );
+    const targets = captures
+      .map((capture) => capture.payload as MoyoplanCardPayload)
+      .filter((payload) => payload.detailUrl !== null)
+      .slice(0, limit);
+
+    this.logger.log(`상세 페이지 크롤링 시작: ${targets.length}개`);
+    let succeeded = 0;
+
+    for (const payload of targets) {
+      try {
+        await page.goto(payload.detailUrl as string, {
+          waitUntil: 'domcontentloaded',
+          timeout: 30000,
+        });
+        const content = page.locator(detailContentSelector).first();
+        await content.waitFor({ timeout: 10000 });
+        payload.detailText = (await content.innerText()).trim();
+        succeeded++;
+      } catch (error) {
+        this.logger.warn(`상세 페이지 수집 실패: ${payload.detailUrl} (${error})`);
+      }
+    }
+
+    this.logger.log(`상세 페이지 크롤링 완료: ${succeeded}/${targets.length}개 성공`);
+  }
+
+  /**
+   * 수집한 카드 텍스트를 CrawledPlanData로 변환
+   * MVNO 또는 요금제 이름이 없는 카드는 null 반환
+   */
+  parse(card: CapturedCard): CrawledPlanData | null {
+    const plan = card.payload as MoyoplanCardPayload;
+    if (!plan.mvno || !plan.planName) {
+      return null;
+    }
+
+    const mvno = plan.mvno;
+    const planName = plan.planName;
+    const sourceSite = this.name; // 현재 크롤링 출처
+    const detailUrl = plan.detailUrl;
+
+    // 망 정보 원문 ("KT망", "LG U+망"), 저장 시 Network 열거형으로 정규화
+    const network = plan.networkText || 'Unknown';
+
+    const technology = plan.technologyText || 'LTE';
+    const pricePromo = extractNumber(plan.promoPriceText);
+    const priceOriginal = plan.originalPriceText ? extractNumber(plan.originalPriceText) : null;
+    // "7개월 이후 38,500원" → 프로모션 종료 후 요금
+    const pricePostPromo = plan.originalPriceText.includes('이후') ? priceOriginal : null;
+    const promotion = parsePromotionDuration(plan.originalPriceText || '');
+
+    // 상세 페이지 가입 조건 (유심/eSIM, 가입비, 번호이동, 연령, 약정, 프로모션 종료일)
+    const signup = plan.detailText ? parseSignupConditions(plan.detailText) : null;
+    const promotionEndDate = signup?.promotionEndDate ?? null;
+
+    // 복합 데이터 표현 파싱 (월 11GB + 매일 2GB + 3Mbps)
+    const dataSpec = parseComplexDataExpression(plan.dataSummary);
+    const { tetheringGB, sharingGB } = parseTetheringAndSharing([
+      ...(plan.cardTexts ?? []),
+      ...plan.benefits,
+    ]);
+
+    const talk = parseAllowance(plan.talkText);
+    const sms = parseAllowance(plan.smsText);
+    const benefitSummary = parseBenefits(plan.benefits);
+
+    return {
+      planName,
+      sourceSite,
+      detailUrl,
+      mvno,
+      mvnoLogoUrl: plan.mvnoLogoUrl ?? null,
+      network,
+      technology,
+      pricePromo,
+      priceOriginal,
+      pricePostPromo,
+      promotionDurationMonths: promotion.months,
+      promotionEndDate,
+      isLifetimePromotion: promotion.lifetime,
+      dataBaseGB: dataSpec.monthlyGB,
+      isDataUnlimited: dataSpec.unlimited,
+      dataDailyGB: dataSpec.dailyGB,
+      dataPostSpeedMbps: dataSpec.postSpeedMbps,
+      dataDailyPostSpeedMbps: dataSpec.dailyPostSpeedMbps,
+      tetheringGB,
+      sharingGB,
+      talkMinutes: talk.amount,
+      isTalkUnlimited: talk.unlimited,
+      smsCount: sms.amount,
+      isSmsUnlimited: sms.unlimited,
+      benefitSummary,
+      benefits: parseBenefitItems(plan.benefits),
+      signup,
+    };
+  }
+
+  /**
+   * 현재 페이지의 요금제 카드에서 원본 텍스트/HTML 추출
+   *
+   * 카드 처리 중 오류가 나면 페이지 스크린샷/HTML을 artifactDir에 저장하고 다음 카드로 진행합니다.
+   */
+  private async extractCards(
+    page: Page,
+    selectors: Record<string, string>,
+    stats: CrawlStats,
+    pageNumber: number,
+    artifactDir: string,
+  ): Promise<CapturedCard[]> {
+    const captures: CapturedCard[] = [];
+
+    // 요금제 카드만 선택 (숫자 ID가 포함된 /plans/ 링크만)
+    const cards = page.locator(selectors.cardLink);
+    const count = await cards.count();
+    this.logger.log(`페이지 ${pageNumber}에서 ${count}개 카드 발견`);
+    stats.cardsFound += count; // 페이지 간 중복은 crawl에서 제외
+
+    for (let i = 0; i < count; i++) {
+      try {
+        this.logger.debug(`카드 ${i + 1}/${count} 처리 중...`);
+        const card = cards.nth(i);
+
+        // 요금제 상세 페이지 URL 추출
+        this.logger.debug(`  - URL 추출 중...`);
+        const planUrl = (await card.getAttribute('href')) || '';
+        const detailUrl = planUrl ? `https://www.moyoplan.com${planUrl}` : null;
+        this.logger.debug(`    URL: ${detailUrl}`);
+
+        // MVNO 이름 (img의 alt 속성)
+        this.logger.debug(`  - MVNO 추출 중...`);
+        const mvnoImage = card.locator(selectors.mvnoImage).first();
+        const mvno = await mvnoImage.getAttribute('alt', { timeout: 3000 }).catch(() => null);
+        const mvnoLogoUrl = await mvnoImage
+          .getAttribute('src', { timeout: 3000 })
+          .catch(() => null);
+        this.logger.debug(`    MVNO: ${mvno}`);
+
+        // 요금제 이름과 데이터 요약 추출
+        this.logger.debug(`  - 요금제 이름 & 데이터 요약 추출 중...`);
+        const allSpans = await card.locator(selectors.cardText).allTextContents();
+        this.logger.debug(`    전체 span 개수: ${allSpans.length}`);
+
+        // GB/Mbps 포함 텍스트들 (데이터 요약 후보)
+        const dataTexts = allSpans.filter(
+          (text) =>
+            (text.includes('GB') || text.includes('Mbps')) &&
+            text.length > 2 && // 최소 길이 완화 (5 → 2)
+            !text.includes('원'), // 가격 제외
+        );
+
+        // 데이터 요약: "월" 포함하거나 "+" 포함 (예: "월 100GB + 5Mbps")
+        const dataSummary =
+          dataTexts.find(
+            (text) => text.includes('월') || (text.includes('+') && text.includes('Mbps')),
+          ) ||
+          dataTexts[0] ||
+          '';
+
+        // 요금제 이름: 데이터 요약이 아닌 것 중에서
+        // 1. 대괄호 포함 (예: [모요핫딜])
+        // 2. 괄호 포함 (예: 5G 스마트플러스(200분 + 5GB))
+        // 3. 8자 이상이고 제외 키워드 없는 것
+        const planName =
+          allSpans.find((text) => {
+            const trimmed = text.trim();
+            if (trimmed === dataSummary) return false; // 데이터 요약 제외
+            if (trimmed.length < 5) return false;
+
+            // 제외 패턴
+            if (trimmed.includes('원')) return false; // 가격
+            if (trimmed.includes('선택')) return false; // "XXX명이 선택"
+            if (trimmed.match(/^\d+\.\d+$/)) return false; // 별점 (예: "4.3")
+            if (trimmed.match(/^(통화|문자)\s*(무제한|\d+분|\d+건)$/)) return false; // "통화 200분", "문자 100건"
+            if (trimmed.match(/^(KT|SKT|LG U\+)망$/)) return false; // "SKT망"
+            if (trimmed.match(/^(LTE|5G)$/)) return false; // "LTE", "5G"
+            if (trimmed.match(/^월\s*\d+GB$/i)) return false; // "월 5GB" (데이터 요약)
+
+            // 포함 패턴 (우선순위 순)
+            if (trimmed.includes('[')) return true; // 대괄호 우선 (예: [모요핫딜])
+            if (trimmed.includes('(') && trimmed.includes(')')) return true; // 괄호 포함 (예: 스마트플러스(200분 + 5GB))
+            if (trimmed.length >= 8) return true; // 8자 이상
+
+            return false;
+          }) || null;
+
+        this.logger.debug(`    planName: ${planName}`);
+        this.logger.debug(`    dataSummary: ${dataSummary}`);
+
+        // 프로모션 가격 ("월" 포함하고 "이후" 미포함)
+        this.logger.debug(`  - 프로모션 가격 추출 중...`);
+        const promoPrice =
+          allSpans.find(
+            (text) => text.includes('월') && text.includes('원') && !text.includes('이후'),
+          ) || '';
+
+        // 원래 가격 ("개월 이후" 포함)
+        this.logger.debug(`  - 원래 가격 추출 중...`);
+        const originalPrice =
+          allSpans.find((text) => text.includes('개월') && text.includes('이후')) || '';
+
+        // 통화/문자/망/기술 스펙
+        this.logger.debug(`  - 스펙 정보 추출 중...`);
+        const specs = allSpans.filter(
+          (text) =>
+            text.includes('통화') ||
+            text.includes('문자') ||
+            text.includes('망') ||
+            /LTE|5G/.test(text),
+        );
+
+        const talkText = specs.find((t) => t.includes('통화')) || '';
+        const smsText = specs.find((t) => t.includes('문자')) || '';
+        const networkText = specs.find((t) => /(KT|SKT|LG U\+|LGU)/.test(t)) || ''; // "LG U+" 추가
+        const technologyText = specs.find((t) => /(LTE|5G)/.test(t)) || '';
+
+        // 사은품 정보 추출 (Accordion 내부 - data-state="open"인 div 안의 p 태그)
+        this.logger.debug(`  - 사은품 정보 추출 중...`);
+        const benefitItems = await card
+          .locator(selectors.benefitItem)
+          .allTextContents()
+          .catch(() => []);
+
+        // 카드 원본 HTML (재파싱/디버깅용)
+        const html = await card.evaluate((el: Element) => el.outerHTML).catch(() => null);
+
+        const payload: MoyoplanCardPayload = {
+          planName: planName?.trim() || null,
+          detailUrl,
+          mvno,
+          mvnoLogoUrl,
+          dataSummary: dataSummary.trim(),
+          promoPriceText: promoPrice.trim(),
+          originalPriceText: originalPrice.trim(),
+          talkText,
+          smsText,
+          networkText,
+          technologyText,
+          benefits: benefitItems,
+          cardTexts: allSpans.map((text) => text.trim()).filter((text) => text.length > 0),
+        };
+        captures.push({ payload, html });
+        this.logger.debug(`✓ 카드 ${i + 1} 수집 완료: ${payload.planName}`);
+      } catch (error) {
+        this.logger.error(`카드 ${i + 1} 처리 중 에러:`, error);
+        stats.parseErrors++;
+        await this.playwrightService.captureFailurePage(
+          page,
+          artifactDir,
+          `card-p${pageNumber}-${i + 1}`,
+        );
+        // 개별 카드 에러는 무시하고 계속 진행
+      }
+    }
+
+    return captures;
+  }
+
+  /**
+   * 목록 페이지 하나 크롤링 (페이지 URL로 직접 이동)
+   *
+   * - 데이터 피커 모달을 닫고 혜택/상세 정보 버튼을 모두 펼친 후 카드 추출
+   * - 카드가 없으면 예외 (마지막 페이지 이후를 미리 방문한 경우는 crawlPagesConcurrently가 무시)
+   */
+  private async crawlListPage(
+    page: Page,
+    pageNumber: number,
+    targetUrl: string,
+    selectors: Record<string, string>,
+    stats: CrawlStats,
+    artifactDir: string,
+  ): Promise<PageCrawlResult<CapturedCard>> {
+    const pageUrl = new URL(selectors.pageUrl.replace('{page}', String(pageNumber)), targetUrl);
+    this.logger.log(`========== 페이지 ${pageNumber} 크롤링 시작 ==========`);
+
+    await page.goto(pageUrl.toString(), { waitUntil: 'domcontentloaded', timeout: 60000 });
+    stats.pagesVisited++;
+
+    // 데이터 피커 모달 닫기
+    const modal = page.locator(selectors.dataPickerModal);
+    if (await modal.isVisible()) {
+      this.logger.log('데이터 피커 모달 발견, 닫기 시도...');
+      await page.mouse.click(10, 10);
+      await page.waitForTimeout(300);
+    }
+
+    // 요금제 카드 로드 대기 (카드가 없으면 실패, 마지막 페이지 이후였는지는 crawlPagesConcurrently가 판정)
+    await page.waitForSelector(selectors.planCard, { timeout: pageNumber === 1 ? 30000 : 15000 });
+
+    // ============================================================
+    // 1️⃣ 모든 혜택/상세 정보 버튼 펼치기
+    // ============================================================
+    let closedButtons = page.locator(selectors.closedAccordionButton);
+    let closedCount = await closedButtons.count();
+    let tries = 0;
+
+    while (closedCount > 0 && tries < 8) {
+      this.logger.log(`닫힌 버튼 ${closedCount}개 발견, 펼치는 중...`);
+      for (let i = 0; i < closedCount; i++) {
+        try {
+          await closedButtons.nth(i).click({ force: true, timeout: 1000 });
+        } catch {
+          // 버튼 클릭 실패 무시
+        }
+      }
+      await page.waitForTimeout(400);
+      closedButtons = page.locator(selectors.closedAccordionButton);
+      closedCount = await closedButtons.count();
+      tries++;
+    }
+
+    // DOM 업데이트 대기
+    await page.waitForTimeout(1000);
+
+    // ============================================================
+    // 2️⃣ 카드 추출
+    // ============================================================
+    const items = await this.extractCards(page, selectors, stats, pageNumber, artifactDir);
+    const hasNextPage = await page
+      .locator(selectors.nextPageLink.replace('{page}', String(pageNumber + 1)))
+      .first()
+      .isVisible();
+
+    this.logger.log(`페이지 ${pageNumber} 완료: ${items.length}개 수집`);
+    return { items, hasNextPage };
+  }
+
+  /**
+   * moyoplan.com에서 알뜰폰 요금제 카드 수집
+   *
+   * - 목록 페이지 URL(/plans?page=N)로 직접 이동하여 최대 maxConcurrentPages개 페이지를 동시에 크롤링
+   * - 페이지 번호 순으로 합친 후 상세 URL 기준으로 중복 제거
+   * - 실패 시 열린 페이지 캡처와 트레이스를 artifactDir에 저장
+   */
+  async crawl(
+    stats: CrawlStats,
+    profile: SelectorProfile,
+    artifactDir: string,
+  ): Promise<CapturedCard[]> {
+    const { targetUrl, policy, crawlProfile } = this.getConfig();
+    const { selectors } = profile;
+
+    this.logger.log(`크롤링 시작: ${targetUrl} (동시 페이지 ${policy.maxConcurrentPages}개)`);
+    const context = await this.playwrightService.createContext({
+      harName: this.name,
+      crawlPolicy: { domain: new URL(targetUrl).hostname, policy },
+      crawlProfile: { name: this.name, profile: crawlProfile },
+      trace: true,
+    });
+
+    // 데이터 피커 모달 방지 쿠키 설정
+    await context.addCookies([
+      {
+        name: selectors.dataPickerCookieName,
+        value: 'true',
+        domain: 'www.moyoplan.com',
+        path: '/',
+        httpOnly: false,
+        secure: false,
+        expires: Math.floor(Date.now() / 1000) + 60 * 60 * 24, // +1일
+      },
+    ]);
+
+    // 워커별 페이지 (처음 배정될 때 생성하여 이후 페이지에 재사용)
+    const pages: Page[] = [];
+
+    try {
+      const crawled = await crawlPagesConcurrently(
+        policy.maxConcurrentPages,
+        async (pageNumber, workerIndex) => {
+          pages[workerIndex] ??= await this.playwrightService.newPage(context);
+          return await this.crawlListPage(
+            pages[workerIndex],
+            pageNumber,
+            targetUrl,
+            selectors,
+            stats,
+            artifactDir,
+          );
+        },
+      );
+
+      const { items: captures, duplicates } = dedupeByKey(
+        crawled,
+        (capture) => (capture.payload as MoyoplanCardPayload).detailUrl,
+      );
+      stats.cardsFound -= duplicates; // 동시 순회 중 목록이 밀려 두 페이지에서 발견된 카드는 한 번만 집계
+      this.logger.log(
+        `========== 모든 페이지 크롤링 완료 (총 ${stats.pagesVisited}페이지) ==========`,
+      );
+      this.logger.log(`총 ${captures.length}개 요금제 카드 수집 완료 (중복 ${duplicates}개 제외)`);
+
+      // ============================================================
+      // 3️⃣ (선택) 상세 페이지 순회: 가입 조건 수집
+      // ============================================================
+      if (this.isDetailCrawlEnabled() && pages[0]) {
+        await this.crawlDetailPages(pages[0], captures, selectors.detailContent);
+      }
+
+      return captures;
+    } catch (error) {
+      this.logger.error('크롤링 실패:', error);
+      await this.playwrightService.captureFailure(context, pages, artifactDir, 'crawl');
+      throw error;
+    } finally {
+      for (const page of pages) {
+        await page.close();
+      }
+      await context.close(); // 브라우저 리스 반환
+    }
+  }
+}
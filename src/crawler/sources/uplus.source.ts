@@ -0,0 +1,401 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Page } from 'playwright';
+import { readCrawlPolicy } from '@/playwright/crawl-policy';
+import { readCrawlProfile } from '@/playwright/crawl-profile';
+import { PlaywrightService } from '@/playwright/playwright.service';
+import {
+  CapturedCard,
+  CrawledPlanData,
+  CrawlerSource,
+  CrawlerSourceConfig,
+  CrawlStats,
+  SelectorProfile,
+} from '../crawler.types';
+import {
+  extractNumber,
+  parseAllowance,
+  parseBenefitItems,
+  parseComplexDataExpression,
+  parseTetheringAndSharing,
+} from '../crawler.utils';
+import { crawlPagesConcurrently, dedupeByKey, PageCrawlResult } from '../pagination.utils';
+
+/**
+ * U+ 알뜰폰 요금제 카드에서 수집한 원본 텍스트 (RawCapture.payload)
+ */
+type UplusCardPayload = {
+  planName: string;
+  dataSummary: string;
+  gtmClickText: string | null;
+  cellularText: string;
+  phoneText: string;
+  monthPriceText: string;
+  periodText: string;
+  detailUrl: string | null;
+  benefits: string[];
+};
+
+/**
+ * U+ 알뜰폰 공식몰 크롤링 소스
+ *
+ * - 출처: https://www.uplusmvno.com/plan/plan-list
+ * - SPA 기반 사이트, Playwright로 DOM 접근
+ * - 페이지네이션 지원 (다음 버튼 클릭, 페이지 URL이 없는 SPA라 순서대로만 순회)
+ * - 셀렉터: config/selectors/uplus.json
+ *
+ * 설정:
+ * - CRAWLER_UPLUS_TARGET_URL: 크롤링 시작 URL
+ * - CRAWLER_UPLUS_ENABLED: 'false'면 기본 크롤링 대상에서 제외
+ * - CRAWLER_UPLUS_MIN_DELAY_MS 등: 크롤링 정책 (readCrawlPolicy)
+ * - CRAWLER_UPLUS_RESOURCE_ALLOWLIST 등: 리소스 차단 설정 (readCrawlProfile)
+ */
+@Injectable()
+export class UplusSource implements CrawlerSource {
+  private readonly logger = new Logger(UplusSource.name);
+  readonly name = 'uplus';
+  readonly label = 'U+ 알뜰폰';
+  readonly selectorKeys = [
+    'planItem',
+    'planTitle',
+    'dataSummary',
+    'planLink',
+    'mvnoAttribute',
+    'detailUrlAttribute',
+    'cellular',
+    'phone',
+    'monthPrice',
+    'period',
+    'benefitButton',
+    'giftImage',
+    'nextButton',
+  ] as const;
+
+  constructor(
+    private configService: ConfigService,
+    private playwrightService: PlaywrightService,
+  ) {}
+
+  getConfig(): CrawlerSourceConfig {
+    return {
+      enabled: this.configService.get<string>('CRAWLER_UPLUS_ENABLED') !== 'false',
+      targetUrl:
+        this.configService.get<string>('CRAWLER_UPLUS_TARGET_URL') ||
+        'https://www.uplusmvno.com/plan/plan-list',
+      policy: readCrawlPolicy(this.configService, this.name),
+      crawlProfile: readCrawlProfile(this.configService, this.name),
+    };
+  }
+
+  /**
+   * 수집한 카드 텍스트를 CrawledPlanData로 변환
+   */
+  parse(card: CapturedCard): CrawledPlanData | null {
+    const plan = card.payload as UplusCardPayload;
+
+    // 제휴사: data-gtm-click-text를 파이프(|)로 분리한 첫 번째 부분
+    let mvno = 'Unknown';
+    if (plan.gtmClickText) {
+      mvno = plan.gtmClickText.split('|')[0].trim() || 'Unknown';
+    }
+
+    const technology = plan.cellularText.includes('5G') ? '5G' : 'LTE';
+    const talk = parseAllowance(plan.phoneText);
+
+    const pricePromo = extractNumber(plan.monthPriceText);
+    const priceOriginal = plan.periodText ? extractNumber(plan.periodText) : null;
+    // "24개월 이후 44,000원" → 프로모션 종료 후 요금
+    const pricePostPromo = plan.periodText.includes('이후') ? priceOriginal : null;
+
+    // 데이터 제공량 파싱 (예: "월 100GB + 5Mbps" -> 100GB, 소진 후 5Mbps)
+    const dataSpec = parseComplexDataExpression(plan.dataSummary);
+    const { tetheringGB, sharingGB } = parseTetheringAndSharing([
+      plan.dataSummary,
+      plan.gtmClickText ?? '',
+      ...plan.benefits,
+    ]);
+
+    // 계약 기간 파싱 (예: "24개월 이후 44,000원" -> 24)
+    const contractMatch = plan.periodText.match(/(\d+)\s*개월/);
+    const contractPeriod = contractMatch ? parseInt(contractMatch[1], 10) : null;
+
+    return {
+      planName: plan.planName.trim(),
+      sourceSite: this.name,
+      detailUrl: plan.detailUrl,
+      mvno,
+      network: 'LG U+', // U+ 알뜰폰은 모두 LG U+ 망 사용
+      technology,
+      pricePromo,
+      priceOriginal,
+      pricePostPromo,
+      promotionDurationMonths: contractPeriod,
+      promotionEndDate: null,
+      isLifetimePromotion: false,
+      dataBaseGB: dataSpec.monthlyGB,
+      isDataUnlimited: dataSpec.unlimited,
+      dataDailyGB: dataSpec.dailyGB,
+      dataPostSpeedMbps: dataSpec.postSpeedMbps,
+      dataDailyPostSpeedMbps: dataSpec.dailyPostSpeedMbps,
+      tetheringGB,
+      sharingGB,
+      talkMinutes: talk.amount,
+      isTalkUnlimited: talk.unlimited,
+      smsCount: null,
+      isSmsUnlimited: true, // U+ 알뜰폰은 일반적으로 문자 무제한 제공
+      benefitSummary: plan.benefits.length > 0 ? plan.benefits.join(' | ') : null,
+      benefits: parseBenefitItems(plan.benefits),
+    };
+  }
+
+  /**
+   * 현재 페이지의 요금제 카드에서 원본 텍스트/HTML 추출
+   *
+   * 카드 처리 중 오류가 나면 페이지 스크린샷/HTML을 artifactDir에 저장하고 다음 카드로 진행합니다.
+   */
+  private async extractCards(
+    page: Page,
+    selectors: Record<string, string>,
+    stats: CrawlStats,
+    pageNumber: number,
+    artifactDir: string,
+  ): Promise<CapturedCard[]> {
+    const captures: CapturedCard[] = [];
+
+    // 현재 페이지의 모든 요금제 카드 수집
+    const planItems = page.locator(selectors.planItem);
+    const count = await planItems.count();
+    this.logger.log(`페이지 ${pageNumber}에서 ${count}개 요금제 발견`);
+    stats.cardsFound += count; // 페이지 간 중복은 crawl에서 제외
+
+    for (let i = 0; i < count; i++) {
+      try {
+        const item = planItems.nth(i);
+
+        // 1. 요금제명
+        const planName =
+          (await item.locator(selectors.planTitle).first().textContent({ timeout: 3000 })) ||
+          'Unknown';
+
+        // 2. 데이터 요약 (예: "월 100GB + 5Mbps")
+        const dataSummary =
+          (await item
+            .locator(selectors.dataSummary)
+            .first()
+            .textContent({ timeout: 3000 })
+            .catch(() => null)) || '';
+
+        // 3. 제휴사 정보 (data-gtm-click-text)
+        // 예: "에스원안심모바일|[유심/eSIM무료+Npay 3만P] 100GB+/통화마음껏_24개월|월 100GB + 5Mbps"
+        const gtmClickText =
+          (await item
+            .locator(selectors.planLink)
+            .first()
+            .getAttribute(selectors.mvnoAttribute, { timeout: 3000 })
+            .catch(() => null)) || null;
+
+        // 4. 네트워크 (LTE/5G)
+        const cellularText =
+          (await item
+            .locator(selectors.cellular)
+            .first()
+            .textContent({ timeout: 3000 })
+            .catch(() => null)) || '';
+
+        // 5. 통화량
+        const phoneText =
+          (await item
+            .locator(selectors.phone)
+            .first()
+            .textContent({ timeout: 3000 })
+            .catch(() => null)) || '';
+
+        // 6. 월 요금 (텍스트 노드만 추출하여 tooltip 제외)
+        const monthPriceText =
+          (await item
+            .locator(selectors.monthPrice)
+            .first()
+            .evaluate((el: Element) => {
+              // childNodes에서 텍스트 노드만 추출 (tooltip 버튼 제외)
+              const textNodes = Array.from(el.childNodes)
+                .filter((node) => node.nodeType === Node.TEXT_NODE)
+                .map((node) => node.textContent?.trim() || '')
+                .filter((text) => text.length > 0);
+              return textNodes.join(' ');
+            })
+            .catch(() => '')) || '';
+
+        // 7. 정상 요금 및 계약 기간 (예: "24개월 이후 44,000원")
+        const periodText =
+          (await item
+            .locator(selectors.period)
+            .first()
+            .textContent({ timeout: 3000 })
+            .catch(() => null)) || '';
+
+        // 8. 상세 URL
+        const detailUrl =
+          (await item
+            .locator(selectors.planLink)
+            .first()
+            .getAttribute(selectors.detailUrlAttribute, { timeout: 3000 })
+            .catch(() => null)) || null;
+
+        // 9. 혜택 정보 (사은품 버튼 클릭하여 추출)
+        let benefits: string[] = [];
+        try {
+          const benefitButton = item.locator(selectors.benefitButton);
+          const benefitButtonExists = await benefitButton.count();
+
+          if (benefitButtonExists > 0) {
+            // aria-expanded가 false면 버튼 클릭하여 펼치기
+            const isExpanded = (await benefitButton.getAttribute('aria-expanded')) === 'true';
+
+            if (!isExpanded) {
+              await benefitButton.click({ timeout: 2000 });
+              await page.waitForTimeout(500); // 애니메이션 대기
+            }
+
+            // 혜택 이미지의 alt 텍스트 수집
+            const giftImages = item.locator(selectors.giftImage);
+            benefits = await giftImages.evaluateAll((imgs: Element[]) =>
+              imgs
+                .map((img: Element) => (img as HTMLImageElement).alt)
+                .filter((alt: string) => alt && alt.trim() && !alt.includes('이미지')),
+            );
+          }
+        } catch (benefitError) {
+          this.logger.debug(`혜택 정보 추출 실패 (카드 ${i + 1}):`, benefitError);
+          // 혜택 정보 실패는 무시하고 계속 진행
+        }
+
+        // 카드 원본 HTML (재파싱/디버깅용)
+        const html = await item.evaluate((el: Element) => el.outerHTML).catch(() => null);
+
+        const payload: UplusCardPayload = {
+          planName,
+          dataSummary,
+          gtmClickText,
+          cellularText,
+          phoneText,
+          monthPriceText,
+          periodText,
+          detailUrl,
+          benefits,
+        };
+        captures.push({ payload, html });
+        this.logger.debug(`✓ ${i + 1}/${count} 수집 완료: ${planName.trim()}`);
+      } catch (error) {
+        this.logger.error(`카드 ${i + 1} 처리 중 에러:`, error);
+        stats.parseErrors++;
+        await this.playwrightService.captureFailurePage(
+          page,
+          artifactDir,
+          `card-p${pageNumber}-${i + 1}`,
+        );
+        // 개별 카드 에러는 무시하고 계속 진행
+      }
+    }
+
+    return captures;
+  }
+
+  /**
+   * 목록 페이지 하나 크롤링
+   *
+   * 1페이지는 시작 URL로 이동하고, 이후 페이지는 현재 페이지에서 다음 버튼 클릭 (순서대로만 가능)
+   */
+  private async crawlListPage(
+    page: Page,
+    pageNumber: number,
+    targetUrl: string,
+    selectors: Record<string, string>,
+    stats: CrawlStats,
+    artifactDir: string,
+  ): Promise<PageCrawlResult<CapturedCard>> {
+    this.logger.log(`========== 페이지 ${pageNumber} 크롤링 시작 ==========`);
+
+    if (pageNumber === 1) {
+      await page.goto(targetUrl, { waitUntil: 'domcontentloaded', timeout: 60000 });
+    } else {
+      await this.playwrightService.waitForNavigationTurn(page);
+      await page.locator(selectors.nextButton).first().click();
+      await page.waitForTimeout(2000); // 페이지 로딩 대기
+    }
+    stats.pagesVisited++;
+
+    // 요금제 카드 렌더링 대기
+    await page.waitForSelector(selectors.planItem, { timeout: pageNumber === 1 ? 30000 : 10000 });
+
+    const items = await this.extractCards(page, selectors, stats, pageNumber, artifactDir);
+
+    const nextButton = page.locator(selectors.nextButton).first();
+    const hasNextPage = (await nextButton.count()) > 0 && (await nextButton.isVisible());
+
+    this.logger.log(`페이지 ${pageNumber} 완료: ${items.length}개 수집`);
+    return { items, hasNextPage };
+  }
+
+  /**
+   * U+ 알뜰폰 공식몰 요금제 카드 수집
+   *
+   * - 다음 버튼으로만 이동할 수 있으므로 페이지 하나로 순서대로 순회 (maxConcurrentPages와 무관)
+   * - 페이지 번호 순으로 합친 후 상세 URL(없으면 제휴사 정보) 기준으로 중복 제거
+   * - 실패 시 열린 페이지 캡처와 트레이스를 artifactDir에 저장
+   */
+  async crawl(
+    stats: CrawlStats,
+    profile: SelectorProfile,
+    artifactDir: string,
+  ): Promise<CapturedCard[]> {
+    const { targetUrl, policy, crawlProfile } = this.getConfig();
+    const { selectors } = profile;
+    this.logger.log(`U+ 알뜰폰 크롤링 시작: ${targetUrl}`);
+
+    const context = await this.playwrightService.createContext({
+      harName: this.name,
+      crawlPolicy: { domain: new URL(targetUrl).hostname, policy },
+      crawlProfile: { name: this.name, profile: crawlProfile },
+      trace: true,
+    });
+
+    // 워커별 페이지 (처음 배정될 때 생성하여 이후 페이지에 재사용)
+    const pages: Page[] = [];
+
+    try {
+      const crawled = await crawlPagesConcurrently(1, async (pageNumber, workerIndex) => {
+        pages[workerIndex] ??= await this.playwrightService.newPage(context);
+        return await this.crawlListPage(
+          pages[workerIndex],
+          pageNumber,
+          targetUrl,
+          selectors,
+          stats,
+          artifactDir,
+        );
+      });
+
+      const { items: captures, duplicates } = dedupeByKey(crawled, (capture) => {
+        const payload = capture.payload as UplusCardPayload;
+        return payload.detailUrl ?? payload.gtmClickText;
+      });
+      stats.cardsFound -= duplicates; // 여러 페이지에 노출된 카드는 한 번만 집계
+      this.logger.log(
+        `========== 모든 페이지 크롤링 완료 (총 ${stats.pagesVisited}페이지) ==========`,
+      );
+      this.logger.log(
+        `U+ 알뜰폰 크롤링 완료: ${captures.length}개 요금제 카드 수집 (중복 ${duplicates}개 제외)`,
+      );
+      return captures;
+    } catch (error) {
+      this.logger.error('U+ 알뜰폰 크롤링 실패:', error);
+      await this.playwrightService.captureFailure(context, pages, artifactDir, 'crawl');
+      throw error;
+    } finally {
+      for (const page of pages) {
+        await page.close();
+      }
+      await context.close(); // 브라우저 리스 반환
+    }
+  }
+}
@@ -21,6 +21,11 @@ async function bootstrap() {
   // CORS 활성화 (필요 시)
   app.enableCors();
 
+  // CSV 본문 파싱 (POST /crawler/import/csv)
+  app.useBodyParser('text/csv', { bodyLimit: 10 * 1024 * 1024 }, (_req, body, done) => {
+    done(null, body.toString('utf8'));
+  });
+
   // 환경 변수로부터 포트 읽기 (기본값: 3000)
   const port = process.env.PORT || 3000;
 
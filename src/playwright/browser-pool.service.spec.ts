@@ -0,0 +1,113 @@
+import { EventEmitter } from 'events';
+import { ConfigService } from '@nestjs/config';
+import { Browser, chromium } from 'playwright';
+import { BrowserPoolService, getRecycleReason } from './browser-pool.service';
+
+describe('getRecycleReason', () => {
+  const limits = { maxUses: 20, maxMemoryMb: 1024, idleCloseMs: 60000 };
+
+  it('should keep a browser under both limits', () => {
+    expect(getRecycleReason(19, 800, limits)).toBeNull();
+    expect(getRecycleReason(3, null, limits)).toBeNull();
+  });
+
+  it('should recycle after the maximum number of leases or above the memory limit', () => {
+    expect(getRecycleReason(20, 300, limits)).toContain('사용 횟수 20회');
+    expect(getRecycleReason(5, 1500, limits)).toContain('메모리 1500MB');
+  });
+});
+
+describe('BrowserPoolService', () => {
+  const IDLE_CLOSE_MS = 60000;
+
+  // chromium.launch가 반환하는 브라우저 (연결 상태, 종료, disconnected 이벤트만 흉내, 메모리는 측정 불가)
+  const createFakeBrowser = () => {
+    const events = new EventEmitter();
+    let connected = true;
+    return {
+      isConnected: () => connected,
+      on: (event: string, listener: () => void) => events.on(event, listener),
+      newBrowserCDPSession: () => Promise.reject(new Error('CDP 미지원')),
+      close: vi.fn(() => {
+        connected = false;
+        events.emit('disconnected');
+        return Promise.resolve();
+      }),
+    };
+  };
+
+  let launched: ReturnType<typeof createFakeBrowser>[];
+
+  const createService = (config: Record<string, string> = {}) =>
+    new BrowserPoolService(
+      new ConfigService({ PLAYWRIGHT_BROWSER_IDLE_CLOSE_MS: String(IDLE_CLOSE_MS), ...config }),
+    );
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    launched = [];
+    vi.spyOn(chromium, 'launch').mockImplementation(() => {
+      const browser = createFakeBrowser();
+      launched.push(browser);
+      return Promise.resolve(browser as unknown as Browser);
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep the browser open when a publisher releases during a crawl', async () => {
+    const pool = createService();
+
+    const crawl = await pool.acquire('moyoplan');
+    const publish = await pool.acquire('publisher');
+    expect(launched).toHaveLength(1);
+
+    // 퍼블리셔 context.close() → release
+    await pool.release(publish);
+    await vi.advanceTimersByTimeAsync(IDLE_CLOSE_MS);
+    expect(launched[0].close).not.toHaveBeenCalled();
+
+    await pool.release(crawl);
+    await vi.advanceTimersByTimeAsync(IDLE_CLOSE_MS);
+    expect(launched[0].close).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close a recycled browser only after its leases are released', async () => {
+    const pool = createService({ PLAYWRIGHT_BROWSER_MAX_USES: '2' });
+
+    const first = await pool.acquire('moyoplan');
+    const second = await pool.acquire('uplus');
+    const third = await pool.acquire('publisher'); // 사용 횟수 초과로 새 브라우저에서 발급
+
+    expect(launched).toHaveLength(2);
+    expect(third.browserId).not.toBe(first.browserId);
+    expect(launched[0].close).not.toHaveBeenCalled();
+
+    await pool.release(first);
+    expect(launched[0].close).not.toHaveBeenCalled();
+
+    await pool.release(second);
+    expect(launched[0].close).toHaveBeenCalledTimes(1);
+    expect(launched[1].close).not.toHaveBeenCalled();
+  });
+
+  it('should close an idle browser only after the idle timeout', async () => {
+    const pool = createService();
+
+    await pool.release(await pool.acquire('moyoplan'));
+    await vi.advanceTimersByTimeAsync(IDLE_CLOSE_MS - 1);
+    expect(launched[0].close).not.toHaveBeenCalled();
+
+    // 유휴 시간 안에 다시 발급하면 타이머 취소 후 같은 브라우저 재사용
+    const lease = await pool.acquire('publisher');
+    await vi.advanceTimersByTimeAsync(IDLE_CLOSE_MS);
+    expect(launched).toHaveLength(1);
+    expect(launched[0].close).not.toHaveBeenCalled();
+
+    await pool.release(lease);
+    await vi.advanceTimersByTimeAsync(IDLE_CLOSE_MS);
+    expect(launched[0].close).toHaveBeenCalledTimes(1);
+  });
+});
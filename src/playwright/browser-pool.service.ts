@@ -0,0 +1,389 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { chromium, Browser } from 'playwright';
+import * as fs from 'fs';
+
+/**
+ * 브라우저 사용권(lease)
+ *
+ * 리스를 가진 동안에는 브라우저가 닫히지 않으며, 사용이 끝나면 반드시 release해야 합니다.
+ * (PlaywrightService.createContext는 컨텍스트가 닫힐 때 자동으로 반환)
+ */
+export interface BrowserLease {
+  id: number;
+  holder: string; // 사용자 이름 (예: "moyoplan", "publisher")
+  browserId: number;
+  browser: Browser;
+  acquiredAt: Date;
+}
+
+/**
+ * 풀에서 관리하는 브라우저
+ */
+interface PooledBrowser {
+  id: number;
+  browser: Browser;
+  launchedAt: Date;
+  uses: number; // 지금까지 발급한 리스 수
+  leases: Map<number, BrowserLease>; // 사용 중인 리스
+  retiring: boolean; // 교체 대상 (새 리스를 받지 않고, 리스가 모두 반환되면 종료)
+  idleTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * 브라우저 풀 상태 (조회용)
+ */
+export interface BrowserPoolStatus {
+  limits: BrowserPoolLimits;
+  browsers: {
+    id: number;
+    launchedAt: Date;
+    uses: number;
+    retiring: boolean;
+    memoryMb: number | null;
+    leases: { id: number; holder: string; acquiredAt: Date }[];
+  }[];
+}
+
+/**
+ * 브라우저 교체 기준
+ *
+ * - maxUses: 브라우저 하나가 발급할 수 있는 최대 리스 수
+ * - maxMemoryMb: 브라우저 프로세스 전체 메모리(RSS) 상한
+ * - idleCloseMs: 리스가 모두 반환된 후 브라우저를 닫기까지 대기 시간 (0이면 유지)
+ */
+export interface BrowserPoolLimits {
+  maxUses: number;
+  maxMemoryMb: number;
+  idleCloseMs: number;
+}
+
+/**
+ * 브라우저 교체 사유 판정
+ *
+ * @param uses 지금까지 발급한 리스 수
+ * @param memoryMb 현재 메모리 사용량 (측정할 수 없으면 null)
+ * @returns 교체 사유 (교체가 필요 없으면 null)
+ */
+export function getRecycleReason(
+  uses: number,
+  memoryMb: number | null,
+  limits: BrowserPoolLimits,
+): string | null {
+  if (uses >= limits.maxUses) {
+    return `사용 횟수 ${uses}회 도달 (최대 ${limits.maxUses}회)`;
+  }
+  if (memoryMb !== null && memoryMb >= limits.maxMemoryMb) {
+    return `메모리 ${memoryMb}MB 사용 (최대 ${limits.maxMemoryMb}MB)`;
+  }
+  return null;
+}
+
+/**
+ * 브라우저 풀 서비스: 크롤러/퍼블리셔가 공유하는 브라우저를 리스 단위로 발급
+ *
+ * - 리스를 가진 사용자가 있는 브라우저는 닫지 않음 (크롤링 중 발행이 끝나도 크롤링 유지)
+ * - 사용 횟수/메모리 기준을 넘으면 교체 대상으로 표시하고 새 브라우저 실행,
+ *   기존 브라우저는 사용 중인 리스가 모두 반환된 후 종료
+ * - 리스가 모두 반환되면 유휴 시간 후 종료 (OCI VM 메모리 절약)
+ *
+ * 설정:
+ * - PLAYWRIGHT_BROWSER_MAX_USES: 브라우저당 최대 리스 수 (기본값: 20)
+ * - PLAYWRIGHT_BROWSER_MAX_MEMORY_MB: 브라우저 메모리 상한 (기본값: 1024, Linux에서만 측정)
+ * - PLAYWRIGHT_BROWSER_IDLE_CLOSE_MS: 유휴 브라우저 종료 대기 시간 (기본값: 60000, 0이면 유지)
+ */
+@Injectable()
+export class BrowserPoolService implements OnModuleDestroy {
+  private readonly logger = new Logger(BrowserPoolService.name);
+  private readonly browsers = new Map<number, PooledBrowser>();
+  private current: PooledBrowser | null = null; // 새 리스를 발급하는 브라우저
+  private launching: Promise<PooledBrowser> | null = null;
+  private browserSeq = 0;
+  private leaseSeq = 0;
+
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * 숫자 설정값 조회 (잘못된 값이면 기본값 사용)
+   */
+  private getNumberConfig(key: string, defaultValue: number): number {
+    const value = Number(this.configService.get<string>(key));
+    return Number.isFinite(value) && value >= 0 ? value : defaultValue;
+  }
+
+  private getLimits(): BrowserPoolLimits {
+    return {
+      maxUses: Math.max(1, this.getNumberConfig('PLAYWRIGHT_BROWSER_MAX_USES', 20)),
+      maxMemoryMb: this.getNumberConfig('PLAYWRIGHT_BROWSER_MAX_MEMORY_MB', 1024),
+      idleCloseMs: this.getNumberConfig('PLAYWRIGHT_BROWSER_IDLE_CLOSE_MS', 60000),
+    };
+  }
+
+  /**
+   * OCI VM 및 Docker 환경에 최적화된 Playwright 실행 옵션
+   */
+  private getLaunchOptions() {
+    return {
+      headless: this.configService.get<string>('PLAYWRIGHT_HEADLESS') !== 'false',
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-accelerated-2d-canvas',
+        '--disable-gpu',
+        '--disable-web-security',
+        '--disable-blink-features=AutomationControlled',
+      ],
+    };
+  }
+
+  /**
+   * 브라우저 리스 발급
+   *
+   * 현재 브라우저가 교체 기준을 넘었거나 연결이 끊어졌으면 새 브라우저를 실행합니다.
+   *
+   * @param holder 사용자 이름 (로그/상태 조회용)
+   */
+  async acquire(holder: string): Promise<BrowserLease> {
+    const entry = await this.getAvailableBrowser();
+
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+    entry.uses++;
+
+    const lease: BrowserLease = {
+      id: ++this.leaseSeq,
+      holder,
+      browserId: entry.id,
+      browser: entry.browser,
+      acquiredAt: new Date(),
+    };
+    entry.leases.set(lease.id, lease);
+
+    this.logger.debug(
+      `브라우저 #${entry.id} 리스 발급: ${holder} (사용 중 ${entry.leases.size}개, 누적 ${entry.uses}회)`,
+    );
+    return lease;
+  }
+
+  /**
+   * 브라우저 리스 반환
+   *
+   * 마지막 리스가 반환되면 교체 대상이거나 기준을 넘은 브라우저는 바로 닫고,
+   * 그렇지 않으면 유휴 시간 후 닫습니다. 이미 반환된 리스는 무시합니다.
+   */
+  async release(lease: BrowserLease): Promise<void> {
+    const entry = this.browsers.get(lease.browserId);
+    if (!entry || !entry.leases.delete(lease.id)) {
+      return;
+    }
+
+    this.logger.debug(
+      `브라우저 #${entry.id} 리스 반환: ${lease.holder} (사용 중 ${entry.leases.size}개)`,
+    );
+    if (entry.leases.size > 0) {
+      return;
+    }
+
+    if (!entry.retiring) {
+      const memoryMb = await this.measureMemoryMb(entry.browser);
+      if (entry.leases.size > 0) {
+        return; // 측정하는 동안 새 리스 발급
+      }
+
+      const reason = getRecycleReason(entry.uses, memoryMb, this.getLimits());
+      if (reason) {
+        this.retire(entry, reason);
+      }
+    }
+
+    if (entry.retiring || !entry.browser.isConnected()) {
+      await this.closeEntry(entry);
+      return;
+    }
+
+    const { idleCloseMs } = this.getLimits();
+    if (idleCloseMs > 0) {
+      entry.idleTimer = setTimeout(() => {
+        if (entry.leases.size === 0) {
+          this.logger.log(`브라우저 #${entry.id} 유휴 종료`);
+          void this.closeEntry(entry);
+        }
+      }, idleCloseMs);
+      entry.idleTimer.unref();
+    }
+  }
+
+  /**
+   * 풀 상태 조회 (사용 중인 리스와 브라우저별 메모리)
+   */
+  async getStatus(): Promise<BrowserPoolStatus> {
+    const browsers = await Promise.all(
+      [...this.browsers.values()].map(async (entry) => ({
+        id: entry.id,
+        launchedAt: entry.launchedAt,
+        uses: entry.uses,
+        retiring: entry.retiring,
+        memoryMb: await this.measureMemoryMb(entry.browser),
+        leases: [...entry.leases.values()].map(({ id, holder, acquiredAt }) => ({
+          id,
+          holder,
+          acquiredAt,
+        })),
+      })),
+    );
+
+    return { limits: this.getLimits(), browsers };
+  }
+
+  /**
+   * 모든 브라우저 종료 (리스 보유 여부와 무관, 애플리케이션 종료 시 사용)
+   */
+  async closeAll(): Promise<void> {
+    for (const entry of [...this.browsers.values()]) {
+      await this.closeEntry(entry);
+    }
+  }
+
+  /**
+   * 애플리케이션 종료 시 자동으로 브라우저 종료
+   */
+  async onModuleDestroy() {
+    await this.closeAll();
+  }
+
+  /**
+   * 리스를 발급할 브라우저 (없거나 교체 대상이면 새로 실행)
+   */
+  private async getAvailableBrowser(): Promise<PooledBrowser> {
+    // 실행 중(launching)에는 current가 비어 있으므로 아래에서 실행 결과를 함께 기다림
+    const current = this.current;
+    if (current && !current.browser.isConnected()) {
+      await this.closeEntry(current);
+    } else if (current) {
+      const reason = getRecycleReason(
+        current.uses,
+        await this.measureMemoryMb(current.browser),
+        this.getLimits(),
+      );
+      if (!current.retiring) {
+        if (!reason) {
+          return current;
+        }
+        this.retire(current, reason);
+      }
+      if (current.leases.size === 0 && this.browsers.has(current.id)) {
+        await this.closeEntry(current);
+      }
+    }
+
+    // 실행 중이거나 측정/종료를 기다리는 동안 다른 요청이 먼저 실행했으면 그 브라우저 사용
+    if (this.launching) {
+      return await this.launching;
+    }
+    if (this.current?.browser.isConnected()) {
+      return this.current;
+    }
+
+    this.launching = this.launch();
+    try {
+      return await this.launching;
+    } finally {
+      this.launching = null;
+    }
+  }
+
+  private async launch(): Promise<PooledBrowser> {
+    this.logger.log('새 Playwright 브라우저 인스턴스 실행 중...');
+    const browser = await chromium.launch(this.getLaunchOptions());
+
+    const entry: PooledBrowser = {
+      id: ++this.browserSeq,
+      browser,
+      launchedAt: new Date(),
+      uses: 0,
+      leases: new Map(),
+      retiring: false,
+      idleTimer: null,
+    };
+    this.browsers.set(entry.id, entry);
+    this.current = entry;
+
+    browser.on('disconnected', () => {
+      if (this.browsers.delete(entry.id)) {
+        this.logger.warn(`브라우저 #${entry.id} 연결 끊김 (사용 중 리스 ${entry.leases.size}개)`);
+      }
+      if (this.current === entry) {
+        this.current = null;
+      }
+    });
+
+    return entry;
+  }
+
+  /**
+   * 교체 대상으로 표시 (새 리스는 새 브라우저에서 발급)
+   */
+  private retire(entry: PooledBrowser, reason: string): void {
+    entry.retiring = true;
+    if (this.current === entry) {
+      this.current = null;
+    }
+    this.logger.log(
+      `브라우저 #${entry.id} 교체: ${reason}` +
+        (entry.leases.size > 0 ? ` (리스 ${entry.leases.size}개 반환 후 종료)` : ''),
+    );
+  }
+
+  private async closeEntry(entry: PooledBrowser): Promise<void> {
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+    this.browsers.delete(entry.id);
+    if (this.current === entry) {
+      this.current = null;
+    }
+
+    try {
+      await entry.browser.close();
+      this.logger.log(`브라우저 #${entry.id} 종료 (누적 리스 ${entry.uses}회)`);
+    } catch (error) {
+      this.logger.warn(`브라우저 #${entry.id} 종료 실패: ${error}`);
+    }
+  }
+
+  /**
+   * 브라우저 프로세스 전체 메모리(RSS, MB) 측정
+   *
+   * CDP SystemInfo로 브라우저/렌더러/GPU 프로세스 ID를 조회하고 /proc/<pid>/status의 VmRSS를 합산합니다.
+   * Linux가 아니거나 측정에 실패하면 null (메모리 기준은 적용하지 않음)
+   */
+  private async measureMemoryMb(browser: Browser): Promise<number | null> {
+    if (process.platform !== 'linux' || !browser.isConnected()) {
+      return null;
+    }
+
+    try {
+      const session = await browser.newBrowserCDPSession();
+      try {
+        const { processInfo } = await session.send('SystemInfo.getProcessInfo');
+        let totalKb = 0;
+        for (const { id } of processInfo) {
+          const status = await fs.promises.readFile(`/proc/${id}/status`, 'utf-8').catch(() => '');
+          const match = status.match(/VmRSS:\s+(\d+)\s+kB/);
+          if (match) {
+            totalKb += Number(match[1]);
+          }
+        }
+        return totalKb > 0 ? Math.round(totalKb / 1024) : null;
+      } finally {
+        await session.detach();
+      }
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,294 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BrowserContext, Page, Response } from 'playwright';
+import {
+  computeBackoffMs,
+  CrawlPolicy,
+  isPathAllowed,
+  parseRobotsTxt,
+  RobotsRules,
+} from './crawl-policy';
+
+/**
+ * 도메인별 크롤링 상태
+ */
+interface DomainState {
+  nextNavigationAt: number; // 다음 이동이 허용되는 시각 (예약 방식으로 동시 이동도 순서대로 간격 유지)
+  consecutiveFailures: number; // 연속 4xx/5xx 응답 수
+  circuitOpenUntil: number; // 회로 차단 해제 시각 (0이면 닫힘)
+  activePages: number;
+  pageWaiters: (() => void)[]; // 페이지 슬롯 대기열
+}
+
+/**
+ * 컨텍스트에 적용된 정책
+ */
+interface ContextPolicy {
+  domain: string;
+  policy: CrawlPolicy;
+}
+
+// 실패/성공 판정에 사용하는 응답 종류 (이미지/폰트 등 부가 리소스 오류는 제외)
+const TRACKED_RESOURCE_TYPES = new Set(['document', 'xhr', 'fetch']);
+
+const ROBOTS_TIMEOUT_MS = 10000;
+const ROBOTS_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 크롤링 정책 서비스: 도메인별 이동 간격, 동시 페이지 수, robots.txt, 백오프, 회로 차단 적용
+ *
+ * - PlaywrightService.createContext에 crawlPolicy를 지정한 컨텍스트에만 적용
+ * - 문서 이동(page.goto, 링크 이동)은 컨텍스트 라우트에서 자동으로 간격/robots.txt/회로 차단 검사
+ * - 클라이언트 라우팅(SPA 페이지 전환)은 PlaywrightService.waitForNavigationTurn으로 간격 유지
+ * - 상태는 도메인 단위로 공유하므로 여러 크롤링이 같은 도메인에 접속해도 제한이 유지됨
+ */
+@Injectable()
+export class CrawlPolicyService {
+  private readonly logger = new Logger(CrawlPolicyService.name);
+  private readonly domains = new Map<string, DomainState>();
+  private readonly contexts = new WeakMap<BrowserContext, ContextPolicy>();
+  private readonly robotsCache = new Map<
+    string,
+    { rules: Promise<RobotsRules | null>; expiresAt: number }
+  >();
+
+  private getState(domain: string): DomainState {
+    let state = this.domains.get(domain);
+    if (!state) {
+      state = {
+        nextNavigationAt: 0,
+        consecutiveFailures: 0,
+        circuitOpenUntil: 0,
+        activePages: 0,
+        pageWaiters: [],
+      };
+      this.domains.set(domain, state);
+    }
+    return state;
+  }
+
+  /**
+   * 컨텍스트에 정책 적용 (문서 이동 라우트, 응답 상태 기록)
+   *
+   * @param domain 정책을 적용할 호스트 (예: "www.moyoplan.com", 다른 호스트 요청은 제한하지 않음)
+   */
+  async apply(context: BrowserContext, domain: string, policy: CrawlPolicy): Promise<void> {
+    this.contexts.set(context, { domain, policy });
+
+    await context.route(
+      (url) => url.hostname === domain,
+      async (route) => {
+        const request = route.request();
+        if (!request.isNavigationRequest()) {
+          return route.fallback();
+        }
+
+        const blockReason = await this.beforeNavigation(domain, policy, request.url());
+        if (blockReason) {
+          this.logger.warn(`[${domain}] 페이지 이동 차단: ${request.url()} (${blockReason})`);
+          return route.abort('blockedbyclient');
+        }
+        return route.fallback();
+      },
+    );
+
+    context.on('response', (response) => this.recordResponse(domain, policy, response));
+  }
+
+  /**
+   * 정책이 적용된 컨텍스트에서 새 페이지 열기 (동시 페이지 수를 넘으면 슬롯이 날 때까지 대기)
+   */
+  async openPage(context: BrowserContext): Promise<Page> {
+    const applied = this.contexts.get(context);
+    if (!applied) {
+      return await context.newPage();
+    }
+
+    const state = this.getState(applied.domain);
+    if (state.activePages >= applied.policy.maxConcurrentPages) {
+      this.logger.debug(`[${applied.domain}] 동시 페이지 제한으로 대기 중...`);
+      await new Promise<void>((resolve) => state.pageWaiters.push(resolve));
+    }
+    state.activePages++;
+
+    const release = () => {
+      state.activePages--;
+      state.pageWaiters.shift()?.();
+    };
+
+    try {
+      const page = await context.newPage();
+      page.once('close', release);
+      return page;
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  /**
+   * 클라이언트 라우팅 전 대기 (회로가 차단되어 있으면 예외)
+   *
+   * 정책이 없는 컨텍스트는 바로 반환합니다.
+   */
+  async waitForTurn(page: Page): Promise<void> {
+    const applied = this.contexts.get(page.context());
+    if (!applied) {
+      return;
+    }
+
+    const blockReason = this.checkCircuit(applied.domain);
+    if (blockReason) {
+      throw new Error(`[${applied.domain}] 크롤링 중단: ${blockReason}`);
+    }
+
+    // Crawl-delay 적용을 위해 현재 페이지 출처의 robots.txt 사용 (이동 전 빈 페이지면 생략)
+    const origin = page.url().startsWith('http') ? new URL(page.url()).origin : null;
+    const robots =
+      applied.policy.respectRobotsTxt && origin ? await this.getRobotsRules(origin) : null;
+    await this.reserveSlot(applied.domain, applied.policy, robots);
+  }
+
+  /**
+   * 문서 이동 전 검사 및 대기
+   *
+   * @returns 차단 사유 (허용되면 null)
+   */
+  private async beforeNavigation(
+    domain: string,
+    policy: CrawlPolicy,
+    url: string,
+  ): Promise<string | null> {
+    const circuitReason = this.checkCircuit(domain);
+    if (circuitReason) {
+      return circuitReason;
+    }
+
+    const target = new URL(url);
+    const robots = policy.respectRobotsTxt ? await this.getRobotsRules(target.origin) : null;
+    if (robots && !isPathAllowed(robots, target.pathname + target.search)) {
+      return 'robots.txt Disallow';
+    }
+
+    await this.reserveSlot(domain, policy, robots);
+    return null;
+  }
+
+  /**
+   * 회로 차단 상태 확인 (유지 시간이 지나면 닫고 다음 이동 허용)
+   */
+  private checkCircuit(domain: string): string | null {
+    const state = this.getState(domain);
+    if (state.circuitOpenUntil === 0) {
+      return null;
+    }
+    if (Date.now() < state.circuitOpenUntil) {
+      return `연속 ${state.consecutiveFailures}회 오류 응답으로 회로 차단 중 (${new Date(state.circuitOpenUntil).toISOString()}까지)`;
+    }
+
+    // 유지 시간 경과: 시도 허용 (다시 실패하면 연속 실패 수가 임계값 이상이므로 즉시 재차단)
+    state.circuitOpenUntil = 0;
+    this.logger.log(`[${domain}] 회로 차단 유지 시간 경과, 요청 재개`);
+    return null;
+  }
+
+  /**
+   * 이동 시각 예약 후 차례까지 대기 (최소 간격 + Crawl-delay + 백오프)
+   */
+  private async reserveSlot(
+    domain: string,
+    policy: CrawlPolicy,
+    robots: RobotsRules | null,
+  ): Promise<void> {
+    const state = this.getState(domain);
+    const now = Date.now();
+    const interval =
+      Math.max(policy.minDelayMs, robots?.crawlDelayMs ?? 0) +
+      computeBackoffMs(state.consecutiveFailures, policy);
+
+    const startAt = Math.max(now, state.nextNavigationAt);
+    state.nextNavigationAt = startAt + interval;
+
+    if (startAt > now) {
+      await new Promise((resolve) => setTimeout(resolve, startAt - now));
+    }
+  }
+
+  /**
+   * 응답 상태 기록 (4xx/5xx면 연속 실패 증가, 임계값 도달 시 회로 차단)
+   */
+  private recordResponse(domain: string, policy: CrawlPolicy, response: Response): void {
+    const request = response.request();
+    if (
+      new URL(response.url()).hostname !== domain ||
+      !TRACKED_RESOURCE_TYPES.has(request.resourceType())
+    ) {
+      return;
+    }
+
+    const state = this.getState(domain);
+    const status = response.status();
+
+    if (status < 400) {
+      if (state.consecutiveFailures > 0) {
+        this.logger.log(`[${domain}] 정상 응답 확인, 백오프 해제`);
+      }
+      state.consecutiveFailures = 0;
+      return;
+    }
+
+    state.consecutiveFailures++;
+    this.logger.warn(
+      `[${domain}] 오류 응답 ${status}: ${response.url()} (연속 ${state.consecutiveFailures}회, 다음 이동 백오프 ${computeBackoffMs(state.consecutiveFailures, policy)}ms)`,
+    );
+
+    // 429/503 Retry-After(초) 헤더가 있으면 그 시간 이후로 다음 이동 예약
+    const retryAfter = Number(response.headers()['retry-after']);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      state.nextNavigationAt = Math.max(state.nextNavigationAt, Date.now() + retryAfter * 1000);
+    }
+
+    if (state.consecutiveFailures >= policy.circuitBreakerThreshold && !state.circuitOpenUntil) {
+      state.circuitOpenUntil = Date.now() + policy.circuitBreakerCooldownMs;
+      this.logger.error(
+        `🚨 [${domain}] 연속 ${state.consecutiveFailures}회 오류 응답으로 회로 차단 (${policy.circuitBreakerCooldownMs}ms 동안 이동 차단)`,
+      );
+    }
+  }
+
+  /**
+   * robots.txt 규칙 조회 (출처별 24시간 캐시)
+   *
+   * 파일이 없거나(4xx) 가져오지 못하면 제한 없이 진행합니다.
+   */
+  private async getRobotsRules(origin: string): Promise<RobotsRules | null> {
+    const cached = this.robotsCache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return await cached.rules;
+    }
+
+    const rules = this.fetchRobotsRules(origin);
+    this.robotsCache.set(origin, { rules, expiresAt: Date.now() + ROBOTS_CACHE_TTL_MS });
+    return await rules;
+  }
+
+  private async fetchRobotsRules(origin: string): Promise<RobotsRules | null> {
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        this.logger.log(`robots.txt 없음 (${response.status}): ${origin}`);
+        return null;
+      }
+
+      const rules = parseRobotsTxt(await response.text());
+      this.logger.log(
+        `robots.txt 로드: ${origin} (Disallow ${rules.disallow.length}개, Crawl-delay ${rules.crawlDelayMs ?? '-'}ms)`,
+      );
+      return rules;
+    } catch (error) {
+      this.logger.warn(`robots.txt 조회 실패, 제한 없이 진행: ${origin} (${error})`);
+      return null;
+    }
+  }
+}
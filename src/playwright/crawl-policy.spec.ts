@@ -0,0 +1,74 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  computeBackoffMs,
+  DEFAULT_CRAWL_POLICY,
+  isPathAllowed,
+  parseRobotsTxt,
+  readCrawlPolicy,
+} from './crawl-policy';
+
+describe('crawl policy', () => {
+  const robotsTxt = [
+    'User-agent: Googlebot',
+    'Disallow: /',
+    '',
+    'User-agent: *',
+    'User-agent: Yeti # 네이버',
+    'Disallow: /mypage',
+    'Disallow: /*.json$',
+    'Allow: /mypage/public',
+    'Crawl-delay: 3',
+  ].join('\n');
+
+  it('should use the wildcard group unless the user agent has its own group', () => {
+    expect(parseRobotsTxt(robotsTxt)).toEqual({
+      allow: ['/mypage/public'],
+      disallow: ['/mypage', '/*.json$'],
+      crawlDelayMs: 3000,
+    });
+    expect(parseRobotsTxt(robotsTxt, 'Googlebot/2.1').disallow).toEqual(['/']);
+  });
+
+  it('should follow the longest matching rule with allow winning ties', () => {
+    const rules = parseRobotsTxt(robotsTxt);
+
+    expect(isPathAllowed(rules, '/plans?page=2')).toBe(true);
+    expect(isPathAllowed(rules, '/mypage/orders')).toBe(false);
+    expect(isPathAllowed(rules, '/mypage/public/notice')).toBe(true);
+    expect(isPathAllowed(rules, '/api/plans.json')).toBe(false);
+    expect(isPathAllowed(rules, '/api/plans.json?page=1')).toBe(true);
+  });
+
+  it('should double the backoff per consecutive failure up to the maximum', () => {
+    const policy = { ...DEFAULT_CRAWL_POLICY, backoffBaseMs: 1000, backoffMaxMs: 5000 };
+
+    expect([0, 1, 2, 3, 4].map((failures) => computeBackoffMs(failures, policy))).toEqual([
+      0, 1000, 2000, 4000, 5000,
+    ]);
+  });
+
+  it('should read source settings before global settings and defaults', () => {
+    const config = new ConfigService({
+      CRAWLER_MIN_DELAY_MS: '1500',
+      CRAWLER_UPLUS_MIN_DELAY_MS: '3000',
+      CRAWLER_UPLUS_RESPECT_ROBOTS_TXT: 'false',
+      CRAWLER_MAX_CONCURRENT_PAGES: '0',
+    });
+
+    expect(readCrawlPolicy(config, 'uplus')).toEqual({
+      ...DEFAULT_CRAWL_POLICY,
+      minDelayMs: 3000,
+      respectRobotsTxt: false,
+    });
+    expect(readCrawlPolicy(config, 'moyoplan').minDelayMs).toBe(1500);
+  });
+
+  it('should use source defaults when no setting is given', () => {
+    const config = new ConfigService({ CRAWLER_UPLUS_MAX_CONCURRENT_PAGES: '2' });
+
+    expect(readCrawlPolicy(config, 'moyoplan', { maxConcurrentPages: 3 }).maxConcurrentPages).toBe(
+      3,
+    );
+    expect(readCrawlPolicy(config, 'uplus', { maxConcurrentPages: 3 }).maxConcurrentPages).toBe(2);
+  });
+});
@@ -0,0 +1,208 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * 도메인별 크롤링 정책 (사이트에 부담을 주지 않기 위한 제한)
+ *
+ * - minDelayMs: 같은 도메인 페이지 이동 사이 최소 간격 (robots.txt Crawl-delay가 더 길면 그 값 사용)
+ * - maxConcurrentPages: 같은 도메인에 동시에 열 수 있는 페이지 수
+ * - respectRobotsTxt: robots.txt Disallow 경로 이동 차단 여부
+ * - backoffBaseMs / backoffMaxMs: 4xx/5xx 응답이 연속될 때 이동 간격에 더하는 지수 백오프 (기본값 × 2^(실패 수 - 1), 최대값 제한)
+ * - circuitBreakerThreshold: 연속 실패가 이 횟수에 도달하면 회로 차단 (이후 이동 차단)
+ * - circuitBreakerCooldownMs: 회로 차단 유지 시간 (지나면 한 번 시도하여 성공 시 복구)
+ */
+export interface CrawlPolicy {
+  minDelayMs: number;
+  maxConcurrentPages: number;
+  respectRobotsTxt: boolean;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerCooldownMs: number;
+}
+
+export const DEFAULT_CRAWL_POLICY: CrawlPolicy = {
+  minDelayMs: 2000,
+  maxConcurrentPages: 1,
+  respectRobotsTxt: true,
+  backoffBaseMs: 5000,
+  backoffMaxMs: 60000,
+  circuitBreakerThreshold: 5,
+  circuitBreakerCooldownMs: 10 * 60 * 1000,
+};
+
+/**
+ * 정책 필드 → 환경 변수 이름 (CRAWLER_<SOURCE>_ 또는 CRAWLER_ 접두사)
+ */
+const POLICY_ENV_KEYS: Record<keyof CrawlPolicy, string> = {
+  minDelayMs: 'MIN_DELAY_MS',
+  maxConcurrentPages: 'MAX_CONCURRENT_PAGES',
+  respectRobotsTxt: 'RESPECT_ROBOTS_TXT',
+  backoffBaseMs: 'BACKOFF_BASE_MS',
+  backoffMaxMs: 'BACKOFF_MAX_MS',
+  circuitBreakerThreshold: 'CIRCUIT_BREAKER_THRESHOLD',
+  circuitBreakerCooldownMs: 'CIRCUIT_BREAKER_COOLDOWN_MS',
+};
+
+/**
+ * 소스별 크롤러 설정값 조회 (CRAWLER_<SOURCE>_<KEY> → CRAWLER_<KEY> 순, 둘 다 없으면 undefined)
+ *
+ * @param sourceName 소스 이름 (예: "moyoplan")
+ * @param key 설정 키 (예: "MIN_DELAY_MS")
+ */
+export function readSourceSetting(
+  configService: ConfigService,
+  sourceName: string,
+  key: string,
+): string | undefined {
+  return [`CRAWLER_${sourceName.toUpperCase()}_`, 'CRAWLER_']
+    .map((prefix) => configService.get<string>(`${prefix}${key}`))
+    .find((value) => value !== undefined && value !== '');
+}
+
+/**
+ * 소스별 크롤링 정책 조회
+ *
+ * CRAWLER_<SOURCE>_<KEY> → CRAWLER_<KEY> → 소스 기본값 → 기본값 순으로 사용합니다.
+ * (예: CRAWLER_MOYOPLAN_MIN_DELAY_MS, CRAWLER_MIN_DELAY_MS)
+ * 숫자가 아닌 값이나 음수는 무시하고, 동시 페이지 수/차단 임계값은 최소 1입니다.
+ *
+ * @param sourceName 소스 이름 (예: "moyoplan")
+ * @param sourceDefaults 소스별 기본값 (예: 페이지 URL로 병렬 순회하는 소스의 maxConcurrentPages)
+ */
+export function readCrawlPolicy(
+  configService: ConfigService,
+  sourceName: string,
+  sourceDefaults: Partial<CrawlPolicy> = {},
+): CrawlPolicy {
+  const defaults: CrawlPolicy = { ...DEFAULT_CRAWL_POLICY, ...sourceDefaults };
+  const read = (field: keyof CrawlPolicy) =>
+    readSourceSetting(configService, sourceName, POLICY_ENV_KEYS[field]);
+
+  const readNumber = (field: keyof CrawlPolicy, min: number): number => {
+    const value = Number(read(field));
+    return Number.isFinite(value) && value >= min ? value : (defaults[field] as number);
+  };
+
+  return {
+    minDelayMs: readNumber('minDelayMs', 0),
+    maxConcurrentPages: Math.floor(readNumber('maxConcurrentPages', 1)),
+    respectRobotsTxt: (read('respectRobotsTxt') ?? String(defaults.respectRobotsTxt)) !== 'false',
+    backoffBaseMs: readNumber('backoffBaseMs', 0),
+    backoffMaxMs: readNumber('backoffMaxMs', 0),
+    circuitBreakerThreshold: Math.floor(readNumber('circuitBreakerThreshold', 1)),
+    circuitBreakerCooldownMs: readNumber('circuitBreakerCooldownMs', 0),
+  };
+}
+
+/**
+ * 연속 실패 수에 따른 백오프 시간 (실패가 없으면 0)
+ */
+export function computeBackoffMs(consecutiveFailures: number, policy: CrawlPolicy): number {
+  if (consecutiveFailures <= 0) {
+    return 0;
+  }
+  return Math.min(policy.backoffBaseMs * 2 ** (consecutiveFailures - 1), policy.backoffMaxMs);
+}
+
+/**
+ * robots.txt에서 추출한 규칙 (크롤러 User-Agent에 해당하는 그룹만)
+ *
+ * - allow / disallow: 경로 패턴 (* 와일드카드, 끝의 $는 경로 끝 고정)
+ * - crawlDelayMs: Crawl-delay (비표준, 없으면 null)
+ */
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs: number | null;
+}
+
+/**
+ * robots.txt 파싱 (RFC 9309)
+ *
+ * - User-agent 줄이 이어지면 하나의 그룹으로 묶고, 이후 규칙은 그룹 전체에 적용
+ * - userAgent 토큰과 일치하는 그룹이 있으면 그 그룹들의 규칙을, 없으면 "*" 그룹 규칙 사용
+ *
+ * @param text robots.txt 본문
+ * @param userAgent 크롤러 제품 토큰 (기본값: "*")
+ */
+export function parseRobotsTxt(text: string, userAgent = '*'): RobotsRules {
+  type Group = { agents: string[]; rules: RobotsRules };
+  const groups: Group[] = [];
+  let current: Group | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (key === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: { allow: [], disallow: [], crawlDelayMs: null } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+
+    if (key === 'allow' && value) {
+      current.rules.allow.push(value);
+    } else if (key === 'disallow' && value) {
+      current.rules.disallow.push(value);
+    } else if (key === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.rules.crawlDelayMs = seconds * 1000;
+      }
+    }
+  }
+
+  const token = userAgent.toLowerCase();
+  const specific = groups.filter((group) =>
+    group.agents.some((agent) => agent !== '*' && token !== '*' && token.includes(agent)),
+  );
+  const matched = specific.length > 0 ? specific : groups.filter((g) => g.agents.includes('*'));
+
+  return matched.reduce<RobotsRules>(
+    (rules, group) => ({
+      allow: [...rules.allow, ...group.rules.allow],
+      disallow: [...rules.disallow, ...group.rules.disallow],
+      crawlDelayMs: group.rules.crawlDelayMs ?? rules.crawlDelayMs,
+    }),
+    { allow: [], disallow: [], crawlDelayMs: null },
+  );
+}
+
+/**
+ * robots.txt 경로 패턴 일치 여부
+ */
+function matchesRobotsPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * 경로 이동 허용 여부
+ *
+ * 가장 긴 패턴이 일치하는 규칙을 따르며, 길이가 같으면 Allow가 우선합니다.
+ *
+ * @param rules parseRobotsTxt 결과
+ * @param path 경로와 쿼리 (예: "/plans?page=2")
+ */
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  const longest = (patterns: string[]) =>
+    Math.max(-1, ...patterns.filter((p) => matchesRobotsPattern(p, path)).map((p) => p.length));
+
+  return longest(rules.allow) >= longest(rules.disallow);
+}
@@ -0,0 +1,58 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  classifyBlockedRequest,
+  createResourceBlockStats,
+  estimateSavings,
+  readCrawlProfile,
+} from './crawl-profile';
+
+describe('crawl profile', () => {
+  it('should block heavy resources and analytics but keep page data', () => {
+    const classify = (url: string, type: string) => classifyBlockedRequest(url, type, []);
+
+    expect(classify('https://www.moyoplan.com/logo.png', 'image')).toBe('image');
+    expect(classify('https://www.moyoplan.com/fonts/pretendard.woff2', 'font')).toBe('font');
+    expect(classify('https://www.googletagmanager.com/gtag/js?id=G-1', 'script')).toBe('analytics');
+    expect(classify('https://region1.google-analytics.com/g/collect', 'fetch')).toBe('analytics');
+    expect(classify('https://www.moyoplan.com/_next/static/chunks/main.js', 'script')).toBeNull();
+    expect(classify('https://www.moyoplan.com/api/plans?page=2', 'fetch')).toBeNull();
+  });
+
+  it('should let allow-listed URLs through', () => {
+    expect(
+      classifyBlockedRequest('https://www.uplusmvno.com/static/sprite.svg', 'image', [
+        '/static/sprite',
+      ]),
+    ).toBeNull();
+  });
+
+  it('should read per-source allow-lists', () => {
+    const config = new ConfigService({
+      CRAWLER_RESOURCE_ALLOWLIST: '/global/',
+      CRAWLER_UPLUS_RESOURCE_ALLOWLIST: ' /static/sprite , cdn.uplus.co.kr ',
+      CRAWLER_MOYOPLAN_BLOCK_RESOURCES: 'false',
+    });
+
+    expect(readCrawlProfile(config, 'uplus')).toEqual({
+      blockResources: true,
+      allowList: ['/static/sprite', 'cdn.uplus.co.kr'],
+    });
+    expect(readCrawlProfile(config, 'moyoplan')).toEqual({
+      blockResources: false,
+      allowList: ['/global/'],
+    });
+  });
+
+  it('should estimate savings from blocked counts and measured throughput', () => {
+    const stats = createResourceBlockStats();
+    stats.blocked.image = 10;
+    stats.blocked.font = 2;
+    stats.loadedBytes = 1024 * 1024;
+    stats.downloadMs = 2048;
+
+    const { bytes, ms } = estimateSavings(stats);
+
+    expect(bytes).toBe((10 * 40 + 2 * 60) * 1024);
+    expect(ms).toBe(1040);
+  });
+});
@@ -0,0 +1,163 @@
+import { ConfigService } from '@nestjs/config';
+import { readSourceSetting } from './crawl-policy';
+
+/**
+ * 크롤링용 경량 컨텍스트 설정
+ *
+ * - blockResources: 이미지/미디어/폰트/외부 분석 스크립트 요청 차단 여부
+ * - allowList: 차단 대상이어도 허용할 URL 패턴 (URL에 포함되면 허용, 예: "/_next/static/media/")
+ */
+export interface CrawlProfile {
+  blockResources: boolean;
+  allowList: string[];
+}
+
+/**
+ * 차단 분류 (요약 로그 단위)
+ */
+export type BlockedCategory = 'image' | 'media' | 'font' | 'analytics';
+
+/**
+ * 리소스 종류별 차단 분류 (카드 텍스트 추출에 필요 없는 리소스)
+ */
+const BLOCKED_RESOURCE_TYPES: Record<string, BlockedCategory> = {
+  image: 'image',
+  media: 'media',
+  font: 'font',
+};
+
+/**
+ * 외부 분석/광고 추적 호스트 (호스트가 같거나 하위 도메인이면 차단)
+ */
+export const ANALYTICS_HOSTS = [
+  'google-analytics.com',
+  'googletagmanager.com',
+  'doubleclick.net',
+  'googleadservices.com',
+  'googlesyndication.com',
+  'facebook.net',
+  'facebook.com',
+  'analytics.tiktok.com',
+  'wcs.naver.net',
+  'wcs.naver.com',
+  'pixel.kakao.com',
+  'criteo.com',
+  'criteo.net',
+  'hotjar.com',
+  'clarity.ms',
+  'amplitude.com',
+  'mixpanel.com',
+  'branch.io',
+  'appsflyer.com',
+  'adjust.com',
+];
+
+/**
+ * 분류별 평균 응답 크기 추정치 (바이트, 차단한 요청은 크기를 알 수 없으므로 절감량 추정에 사용)
+ */
+export const ESTIMATED_RESOURCE_BYTES: Record<BlockedCategory, number> = {
+  image: 40 * 1024,
+  media: 500 * 1024,
+  font: 60 * 1024,
+  analytics: 30 * 1024,
+};
+
+/**
+ * 소스별 경량 컨텍스트 설정 조회
+ *
+ * - CRAWLER_<SOURCE>_BLOCK_RESOURCES / CRAWLER_BLOCK_RESOURCES: 'false'면 차단하지 않음
+ * - CRAWLER_<SOURCE>_RESOURCE_ALLOWLIST / CRAWLER_RESOURCE_ALLOWLIST: 허용 URL 패턴 (쉼표 구분)
+ *
+ * @param sourceName 소스 이름 (예: "moyoplan")
+ */
+export function readCrawlProfile(configService: ConfigService, sourceName: string): CrawlProfile {
+  const allowList = readSourceSetting(configService, sourceName, 'RESOURCE_ALLOWLIST') ?? '';
+
+  return {
+    blockResources: readSourceSetting(configService, sourceName, 'BLOCK_RESOURCES') !== 'false',
+    allowList: allowList
+      .split(',')
+      .map((pattern) => pattern.trim())
+      .filter((pattern) => pattern.length > 0),
+  };
+}
+
+/**
+ * 요청 차단 여부 판정
+ *
+ * @param url 요청 URL
+ * @param resourceType Playwright 리소스 종류 (request.resourceType())
+ * @param allowList 허용 URL 패턴 (판정보다 우선)
+ * @returns 차단 분류 (허용하면 null)
+ */
+export function classifyBlockedRequest(
+  url: string,
+  resourceType: string,
+  allowList: string[],
+): BlockedCategory | null {
+  if (allowList.some((pattern) => url.includes(pattern))) {
+    return null;
+  }
+
+  const category = BLOCKED_RESOURCE_TYPES[resourceType];
+  if (category) {
+    return category;
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return null;
+  }
+
+  return ANALYTICS_HOSTS.some((host) => hostname === host || hostname.endsWith(`.${host}`))
+    ? 'analytics'
+    : null;
+}
+
+/**
+ * 컨텍스트별 리소스 차단 통계
+ *
+ * - blocked: 분류별 차단 요청 수
+ * - loadedRequests / loadedBytes: 허용되어 완료된 요청 수와 응답 크기 (헤더 + 본문)
+ * - downloadMs: 허용된 요청의 응답 수신 시간 합계 (처리량 추정용)
+ */
+export interface ResourceBlockStats {
+  blocked: Record<BlockedCategory, number>;
+  loadedRequests: number;
+  loadedBytes: number;
+  downloadMs: number;
+}
+
+export function createResourceBlockStats(): ResourceBlockStats {
+  return {
+    blocked: { image: 0, media: 0, font: 0, analytics: 0 },
+    loadedRequests: 0,
+    loadedBytes: 0,
+    downloadMs: 0,
+  };
+}
+
+/**
+ * 차단으로 절감한 전송량/시간 추정
+ *
+ * - bytes: 분류별 차단 수 × 평균 응답 크기
+ * - ms: bytes ÷ 이번 컨텍스트에서 측정한 처리량 (측정값이 없으면 0)
+ */
+export function estimateSavings(stats: ResourceBlockStats): { bytes: number; ms: number } {
+  const bytes = (Object.keys(stats.blocked) as BlockedCategory[]).reduce(
+    (sum, category) => sum + stats.blocked[category] * ESTIMATED_RESOURCE_BYTES[category],
+    0,
+  );
+  const bytesPerMs = stats.downloadMs > 0 ? stats.loadedBytes / stats.downloadMs : 0;
+
+  return { bytes, ms: bytesPerMs > 0 ? Math.round(bytes / bytesPerMs) : 0 };
+}
+
+/**
+ * 바이트 수를 MB 단위 문자열로 변환 (예: "1.25MB")
+ */
+export function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(2)}MB`;
+}
@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import {
+  FailureArtifactService,
+  getArtifactContentType,
+  getArtifactDir,
+  toArtifactPath,
+} from './failure-artifact.service';
+
+describe('toArtifactPath', () => {
+  it('should accept artifact files inside a run directory', () => {
+    expect(toArtifactPath('crawl-runs', '12', 'trace.zip')).toBe('crawl-runs/12/trace.zip');
+    expect(toArtifactPath('posts', '5-2', 'publish-page-1.png')).toBe(
+      'posts/5-2/publish-page-1.png',
+    );
+    expect(toArtifactPath('posts', '5-2')).toBe(getArtifactDir('posts', '5-2'));
+  });
+
+  it('should reject unknown kinds, path traversal and unexpected file types', () => {
+    expect(toArtifactPath('sessions-old', '1', 'trace.zip')).toBeNull();
+    expect(toArtifactPath('crawl-runs', '..', 'trace.zip')).toBeNull();
+    expect(toArtifactPath('crawl-runs', '12', '../../.env')).toBeNull();
+    expect(toArtifactPath('crawl-runs', '12', 'notes.txt')).toBeNull();
+    expect(toArtifactPath('sessions', '1762560000000', 'trace.zip')).toBeNull();
+  });
+});
+
+describe('getArtifactContentType', () => {
+  it('should map artifact extensions to content types', () => {
+    expect(getArtifactContentType('trace.zip')).toBe('application/zip');
+    expect(getArtifactContentType('card-p1-3.html')).toBe('text/html; charset=utf-8');
+    expect(getArtifactContentType('crawl-page-1.png')).toBe('image/png');
+  });
+});
+
+describe('FailureArtifactService.prune', () => {
+  let rootDir: string;
+
+  const createRunDir = (artifactDir: string, daysAgo: number) => {
+    const dir = path.join(rootDir, artifactDir);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'crawl-page-1.html'), '<html></html>');
+    const modifiedAt = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+    fs.utimesSync(dir, modifiedAt, modifiedAt);
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'failure-artifacts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should delete run directories older than the retention period', () => {
+    createRunDir(getArtifactDir('crawl-runs', 1), 40);
+    createRunDir(getArtifactDir('posts', '5-1762560000000'), 10);
+    createRunDir(getArtifactDir('sessions', 1762560000000), 20);
+
+    new FailureArtifactService(
+      new ConfigService({ FAILURE_ARTIFACT_DIR: rootDir, FAILURE_ARTIFACT_RETENTION_DAYS: '14' }),
+    ).prune();
+
+    expect(fs.existsSync(path.join(rootDir, 'crawl-runs/1'))).toBe(false);
+    expect(fs.existsSync(path.join(rootDir, 'posts/5-1762560000000'))).toBe(true);
+    expect(fs.existsSync(path.join(rootDir, 'sessions/1762560000000'))).toBe(false);
+  });
+});
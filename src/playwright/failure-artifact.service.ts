@@ -0,0 +1,314 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BrowserContext, Page } from 'playwright';
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * 실패 아티팩트 종류 (저장 디렉토리 최상위 이름)
+ *
+ * - crawl-runs: 크롤링 실행별 (키: CrawlRun ID)
+ * - posts: 포스트 발행 시도별 (키: "<PostQueue ID>-<실패 시각 타임스탬프>")
+ * - sessions: 퍼블리셔 세션 초기화(로그인)별 (키: 시작 시각 타임스탬프)
+ */
+export type FailureArtifactKind = 'crawl-runs' | 'posts' | 'sessions';
+
+const ARTIFACT_KINDS: readonly FailureArtifactKind[] = ['crawl-runs', 'posts', 'sessions'];
+
+/**
+ * 저장된 실패 아티팩트 파일
+ */
+export interface FailureArtifactFile {
+  name: string; // 파일 이름 (예: "crawl-page-1.png", "trace.zip")
+  size: number; // 바이트
+  url: string; // 다운로드 경로 (GET /test/artifacts/:kind/:key/:file)
+}
+
+// 다운로드 엔드포인트 경로 (TestController)
+const DOWNLOAD_PATH = '/test/artifacts';
+
+const TRACE_FILE_NAME = 'trace.zip';
+
+// 실행 하나에 저장하는 페이지 캡처(스크린샷 + HTML) 최대 개수 (셀렉터 변경으로 모든 카드가 실패하는 경우 대비)
+const MAX_PAGE_CAPTURES = 10;
+
+const SCREENSHOT_TIMEOUT_MS = 10000;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.html': 'text/html; charset=utf-8',
+  '.zip': 'application/zip',
+};
+
+/**
+ * 실행별 아티팩트 디렉토리 (아티팩트 루트 기준 상대 경로, 예: "crawl-runs/12")
+ */
+export function getArtifactDir(kind: FailureArtifactKind, key: string | number): string {
+  return `${kind}/${key}`;
+}
+
+/**
+ * 조회/다운로드 요청 경로 검증 (디렉토리 밖 파일 접근 방지)
+ *
+ * 트레이스(.zip)는 크롤링 실행만 허용합니다. (이전에 기록된 로그인/발행 트레이스의 비밀번호/쿠키 노출 방지)
+ *
+ * @param file 파일 이름 (생략하면 실행별 디렉토리 경로 반환)
+ * @returns 아티팩트 루트 기준 상대 경로 (허용하지 않는 종류/키/파일 이름이면 null)
+ */
+export function toArtifactPath(kind: string, key: string, file?: string): string | null {
+  if (!ARTIFACT_KINDS.includes(kind as FailureArtifactKind) || !/^[\w-]+$/.test(key)) {
+    return null;
+  }
+  if (file === undefined) {
+    return `${kind}/${key}`;
+  }
+  if (!/^[\w-]+\.(png|html|zip)$/.test(file)) {
+    return null;
+  }
+  if (file.endsWith('.zip') && kind !== 'crawl-runs') {
+    return null;
+  }
+  return `${kind}/${key}/${file}`;
+}
+
+/**
+ * 아티팩트 파일의 Content-Type
+ */
+export function getArtifactContentType(file: string): string {
+  return CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream';
+}
+
+/**
+ * 실패 아티팩트 서비스: 크롤러/퍼블리셔 실패 시 스크린샷, 페이지 HTML, Playwright 트레이스 저장
+ *
+ * - PlaywrightService.createContext에 trace를 지정한 컨텍스트는 생성 시 트레이스 기록 시작
+ *   (트레이스에는 입력값과 쿠키가 남으므로 로그인/세션을 쓰는 퍼블리셔 컨텍스트에는 지정하지 않음)
+ * - 실패하면 열린 페이지마다 스크린샷(<label>-page-N.png)과 HTML(<label>-page-N.html),
+ *   컨텍스트 트레이스(trace.zip)를 실행별 디렉토리에 저장 (성공하면 트레이스는 저장하지 않고 버림)
+ * - 저장 경로는 CrawlRun.artifactDir, PostQueue.failureLog에 남기고 GET /test/artifacts로 다운로드
+ * - 아티팩트 저장 실패는 경고 로그만 남기고 원래 오류 처리를 막지 않음
+ * - 보관 기간이 지난 실행별 디렉토리는 크롤링 후 삭제 (prune)
+ *
+ * 설정:
+ * - FAILURE_ARTIFACT_DIR: 저장 루트 디렉토리 (기본값: artifacts, 프로젝트 루트 기준)
+ * - FAILURE_ARTIFACT_TRACE: 'true'면 크롤링 트레이스 기록 (기본값: 기록하지 않음, 스크린샷/HTML만 저장)
+ *   모든 페이지의 스크린샷/DOM 스냅샷을 기록하여 메모리를 많이 쓰므로 셀렉터 문제를 조사할 때만 켬
+ * - FAILURE_ARTIFACT_RETENTION_DAYS: 보관 기간 (기본값: 30일)
+ */
+@Injectable()
+export class FailureArtifactService {
+  private readonly logger = new Logger(FailureArtifactService.name);
+  private readonly tracingContexts = new WeakSet<BrowserContext>();
+
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * 아티팩트 루트 디렉토리 (절대 경로)
+   */
+  getRootDir(): string {
+    return path.resolve(
+      process.cwd(),
+      this.configService.get<string>('FAILURE_ARTIFACT_DIR') || 'artifacts',
+    );
+  }
+
+  /**
+   * 컨텍스트 트레이스 기록 시작 (FAILURE_ARTIFACT_TRACE=true일 때만)
+   *
+   * 스냅샷 단위로 DOM/네트워크/스크린샷을 기록하므로 Trace Viewer에서 실패 직전 동작을 재현할 수 있습니다.
+   */
+  async startTracing(context: BrowserContext): Promise<void> {
+    if (this.configService.get<string>('FAILURE_ARTIFACT_TRACE') !== 'true') {
+      return;
+    }
+
+    try {
+      await context.tracing.start({ screenshots: true, snapshots: true });
+      this.tracingContexts.add(context);
+    } catch (error) {
+      this.logger.warn(`트레이스 기록 시작 실패: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 페이지 스크린샷과 HTML 저장
+   *
+   * 이미 닫힌 페이지이거나 실행별 최대 캡처 수에 도달하면 저장하지 않습니다.
+   *
+   * @param artifactDir 실행별 디렉토리 (getArtifactDir)
+   * @param label 파일 이름 (예: "card-p2-5", 영문/숫자/-/_ 외의 문자는 _로 변환)
+   * @returns 저장 여부
+   */
+  async capturePage(page: Page, artifactDir: string, label: string): Promise<boolean> {
+    if (page.isClosed()) {
+      return false;
+    }
+
+    const dir = this.resolveDir(artifactDir);
+    if (this.countCaptures(dir) >= MAX_PAGE_CAPTURES) {
+      this.logger.debug(`페이지 캡처 생략 (최대 ${MAX_PAGE_CAPTURES}개 저장됨): ${artifactDir}`);
+      return false;
+    }
+
+    const baseName = label.replace(/[^\w-]/g, '_');
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+    } catch (error) {
+      this.logger.warn(`아티팩트 디렉토리 생성 실패 (${artifactDir}): ${(error as Error).message}`);
+      return false;
+    }
+
+    let saved = false;
+    try {
+      await page.screenshot({
+        path: path.join(dir, `${baseName}.png`),
+        fullPage: true,
+        timeout: SCREENSHOT_TIMEOUT_MS,
+      });
+      saved = true;
+    } catch (error) {
+      this.logger.warn(`스크린샷 저장 실패 (${label}): ${(error as Error).message}`);
+    }
+
+    try {
+      fs.writeFileSync(path.join(dir, `${baseName}.html`), await page.content());
+      saved = true;
+    } catch (error) {
+      this.logger.warn(`페이지 HTML 저장 실패 (${label}): ${(error as Error).message}`);
+    }
+
+    return saved;
+  }
+
+  /**
+   * 실패 시점의 페이지 캡처와 트레이스 저장
+   *
+   * 컨텍스트를 닫기 전에 호출해야 합니다. (닫힌 뒤에는 페이지/트레이스를 조회할 수 없음)
+   *
+   * @param pages 캡처할 페이지 (닫힌 페이지는 제외)
+   * @param label 파일 이름 접두사 (예: "crawl", "publish")
+   * @returns 실행별 디렉토리에 저장된 전체 아티팩트
+   */
+  async captureFailure(
+    context: BrowserContext,
+    pages: Page[],
+    artifactDir: string,
+    label: string,
+  ): Promise<FailureArtifactFile[]> {
+    for (const [index, page] of pages.entries()) {
+      await this.capturePage(page, artifactDir, `${label}-page-${index + 1}`);
+    }
+
+    if (this.tracingContexts.has(context)) {
+      this.tracingContexts.delete(context);
+      const dir = this.resolveDir(artifactDir);
+      try {
+        fs.mkdirSync(dir, { recursive: true });
+        await context.tracing.stop({ path: path.join(dir, TRACE_FILE_NAME) });
+      } catch (error) {
+        this.logger.warn(`트레이스 저장 실패: ${(error as Error).message}`);
+      }
+    }
+
+    const files = this.list(artifactDir);
+    if (files.length > 0) {
+      this.logger.log(`실패 아티팩트 저장: ${artifactDir} (${files.length}개)`);
+    }
+    return files;
+  }
+
+  /**
+   * 실행별 디렉토리에 저장된 아티팩트 목록 (없으면 빈 배열)
+   */
+  list(artifactDir: string): FailureArtifactFile[] {
+    const dir = this.resolveDir(artifactDir);
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(dir)
+      .sort()
+      .map((name) => ({
+        name,
+        size: fs.statSync(path.join(dir, name)).size,
+        url: `${DOWNLOAD_PATH}/${artifactDir}/${name}`,
+      }));
+  }
+
+  /**
+   * 다운로드할 아티팩트 파일 경로 조회
+   *
+   * @returns 절대 경로 (허용하지 않는 경로이거나 파일이 없으면 null)
+   */
+  resolveFile(kind: string, key: string, file: string): string | null {
+    const artifactPath = toArtifactPath(kind, key, file);
+    if (!artifactPath) {
+      return null;
+    }
+
+    const filePath = path.join(this.getRootDir(), artifactPath);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  /**
+   * 보관 기간이 지난 실행별 아티팩트 디렉토리 삭제 (마지막 수정 시각 기준)
+   *
+   * 삭제된 디렉토리를 가리키는 CrawlRun.artifactDir, PostQueue.failureLog 경로는 빈 목록으로 조회됩니다.
+   *
+   * 설정: FAILURE_ARTIFACT_RETENTION_DAYS (기본값: 30일)
+   */
+  prune(): void {
+    const retentionDays =
+      Number(this.configService.get<string>('FAILURE_ARTIFACT_RETENTION_DAYS')) || 30;
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+
+    let count = 0;
+    for (const kind of ARTIFACT_KINDS) {
+      const kindDir = path.join(this.getRootDir(), kind);
+      if (!fs.existsSync(kindDir)) {
+        continue;
+      }
+
+      for (const key of fs.readdirSync(kindDir)) {
+        const dir = path.join(kindDir, key);
+        try {
+          if (fs.statSync(dir).mtimeMs < cutoff) {
+            fs.rmSync(dir, { recursive: true, force: true });
+            count++;
+          }
+        } catch (error) {
+          this.logger.warn(`아티팩트 삭제 실패 (${kind}/${key}): ${(error as Error).message}`);
+        }
+      }
+    }
+
+    if (count > 0) {
+      this.logger.log(`보관 기간(${retentionDays}일)이 지난 실패 아티팩트 ${count}개 삭제`);
+    }
+  }
+
+  /**
+   * 실행별 디렉토리 절대 경로
+   */
+  private resolveDir(artifactDir: string): string {
+    return path.join(this.getRootDir(), artifactDir);
+  }
+
+  /**
+   * 저장된 페이지 캡처 수 (스크린샷 또는 HTML 기준)
+   */
+  private countCaptures(dir: string): number {
+    if (!fs.existsSync(dir)) {
+      return 0;
+    }
+
+    const names = new Set(
+      fs
+        .readdirSync(dir)
+        .filter((name) => name.endsWith('.png') || name.endsWith('.html'))
+        .map((name) => path.parse(name).name),
+    );
+    return names.size;
+  }
+}
@@ -1,4 +1,7 @@
 import { Module, Global } from '@nestjs/common';
+import { BrowserPoolService } from './browser-pool.service';
+import { CrawlPolicyService } from './crawl-policy.service';
+import { FailureArtifactService } from './failure-artifact.service';
 import { PlaywrightService } from './playwright.service';
 
 /**
@@ -9,7 +12,7 @@ import { PlaywrightService } from './playwright.service';
  */
 @Global()
 @Module({
-  providers: [PlaywrightService],
-  exports: [PlaywrightService],
+  providers: [PlaywrightService, CrawlPolicyService, BrowserPoolService, FailureArtifactService],
+  exports: [PlaywrightService, FailureArtifactService],
 })
 export class PlaywrightModule {}
@@ -1,28 +1,61 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { BrowserContext, Page, Request } from 'playwright';
 import * as path from 'path';
 import * as fs from 'fs';
+import { BrowserPoolService, BrowserPoolStatus } from './browser-pool.service';
+import { CrawlPolicy } from './crawl-policy';
+import { CrawlPolicyService } from './crawl-policy.service';
+import {
+  BlockedCategory,
+  classifyBlockedRequest,
+  createResourceBlockStats,
+  CrawlProfile,
+  estimateSavings,
+  formatMegabytes,
+  ResourceBlockStats,
+} from './crawl-profile';
+import { FailureArtifactFile, FailureArtifactService } from './failure-artifact.service';
+
+/**
+ * HAR 기록/재생 모드
+ */
+export type HarMode = 'off' | 'record' | 'replay';
 
 /**
  * Playwright 공통 서비스: 브라우저 인스턴스 및 컨텍스트 관리
  *
  * - 크롤러와 퍼블리셔에서 공통으로 사용하는 Playwright 로직 중앙화
- * - 브라우저 인스턴스 재사용으로 리소스 최적화
+ * - 브라우저 풀에서 리스를 받아 컨텍스트 생성, 컨텍스트를 닫으면 리스 반환 (BrowserPoolService)
  * - 일관된 브라우저 설정 제공
  * - 세션 저장/복원으로 로그인 상태 유지
  *
+ * - HAR 기록/재생으로 실제 사이트 접속 없이 크롤링 재현 (PLAYWRIGHT_HAR_MODE)
+ * - 크롤링 정책(이동 간격, 동시 페이지 수, robots.txt, 백오프, 회로 차단) 적용 (CrawlPolicyService)
+ * - 크롤링용 경량 컨텍스트: 이미지/미디어/폰트/외부 분석 스크립트 차단 및 절감량 로그
+ * - 실패 아티팩트: 트레이스 기록 및 실패 시 스크린샷/HTML/트레이스 저장 (FailureArtifactService)
+ *
  * 세션 파일 경로: sessions/tistory-session.json (프로젝트 루트)
  * .gitignore에 추가 필요: sessions/
+ *
+ * HAR 설정:
+ * - PLAYWRIGHT_HAR_MODE: off(기본값) | record | replay
+ *   - record: 실제 사이트에 접속하면서 응답을 <PLAYWRIGHT_HAR_DIR>/<harName>.har에 저장
+ *   - replay: 저장된 HAR 응답만 사용 (HAR에 없는 요청은 차단되어 네트워크 접속 없음)
+ * - PLAYWRIGHT_HAR_DIR: HAR 저장 디렉토리 (기본값: test/fixtures/har, 리플레이 테스트에서 사용)
  */
 @Injectable()
 export class PlaywrightService {
   private readonly logger = new Logger(PlaywrightService.name);
-  private browser: Browser | null = null;
   // 프로젝트 루트 기준 경로 (dev/prod 모드 모두 동일하게 동작)
   private readonly sessionPath = path.resolve(process.cwd(), 'sessions', 'tistory-session.json');
 
-  constructor(private configService: ConfigService) {}
+  constructor(
+    private configService: ConfigService,
+    private crawlPolicyService: CrawlPolicyService,
+    private browserPool: BrowserPoolService,
+    private failureArtifactService: FailureArtifactService,
+  ) {}
 
   /**
    * 세션 파일 존재 여부 확인
@@ -67,35 +100,126 @@ export class PlaywrightService {
   }
 
   /**
-   * OCI VM 및 Docker 환경에 최적화된 Playwright 실행 옵션
+   * 현재 HAR 기록/재생 모드 (알 수 없는 값은 off로 처리)
    */
-  private getLaunchOptions() {
-    return {
-      headless: this.configService.get<string>('PLAYWRIGHT_HEADLESS') !== 'false',
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--disable-gpu',
-        '--disable-web-security',
-        '--disable-blink-features=AutomationControlled',
-      ],
-    };
+  getHarMode(): HarMode {
+    const mode = this.configService.get<string>('PLAYWRIGHT_HAR_MODE');
+    return mode === 'record' || mode === 'replay' ? mode : 'off';
+  }
+
+  /**
+   * HAR 파일 경로 (프로젝트 루트 기준)
+   */
+  getHarPath(harName: string): string {
+    const harDir =
+      this.configService.get<string>('PLAYWRIGHT_HAR_DIR') || path.join('test', 'fixtures', 'har');
+    return path.resolve(process.cwd(), harDir, `${harName}.har`);
+  }
+
+  /**
+   * 컨텍스트에 HAR 기록/재생 라우팅 적용
+   *
+   * - record: 실제 네트워크 응답을 HAR로 저장 (context.close() 시점에 파일 기록)
+   * - replay: HAR에 저장된 응답만 반환, 일치하는 항목이 없는 요청은 차단
+   */
+  private async applyHar(context: BrowserContext, harName: string): Promise<void> {
+    const mode = this.getHarMode();
+    if (mode === 'off') {
+      return;
+    }
+
+    const harPath = this.getHarPath(harName);
+
+    if (mode === 'record') {
+      fs.mkdirSync(path.dirname(harPath), { recursive: true });
+      await context.routeFromHAR(harPath, {
+        update: true,
+        updateContent: 'embed',
+        updateMode: 'full',
+      });
+      this.logger.log(`HAR 기록 모드: ${harPath}`);
+      return;
+    }
+
+    if (!fs.existsSync(harPath)) {
+      throw new Error(`HAR 재생 모드이지만 HAR 파일이 없습니다: ${harPath}`);
+    }
+
+    await context.routeFromHAR(harPath, { notFound: 'abort' });
+    this.logger.log(`HAR 재생 모드: ${harPath}`);
   }
 
   /**
-   * 브라우저 인스턴스 가져오기
+   * 컨텍스트에 리소스 차단 라우팅 적용
    *
-   * - 기존 브라우저가 연결되어 있으면 재사용
-   * - 연결이 끊어졌거나 없으면 새로 생성
+   * - 허용 목록에 없는 이미지/미디어/폰트/외부 분석 요청을 차단
+   * - 컨텍스트 종료 시 차단 건수와 추정 절감량(전송량/시간)을 로그로 출력
+   */
+  private async applyResourceBlocking(
+    context: BrowserContext,
+    name: string,
+    profile: CrawlProfile,
+  ): Promise<void> {
+    const stats = createResourceBlockStats();
+
+    await context.route('**/*', async (route) => {
+      const request = route.request();
+      const category = classifyBlockedRequest(
+        request.url(),
+        request.resourceType(),
+        profile.allowList,
+      );
+      if (!category) {
+        return route.fallback();
+      }
+
+      stats.blocked[category]++;
+      return route.abort('blockedbyclient');
+    });
+
+    context.on('requestfinished', (request) => void this.recordLoadedRequest(stats, request));
+    context.on('close', () => this.logResourceBlockSummary(name, stats));
+  }
+
+  /**
+   * 허용된 요청의 응답 크기/수신 시간 기록 (절감 시간 추정용 처리량 측정)
    */
-  async getBrowser(): Promise<Browser> {
-    if (!this.browser || !this.browser.isConnected()) {
-      this.logger.log('새 Playwright 브라우저 인스턴스 실행 중...');
-      this.browser = await chromium.launch(this.getLaunchOptions());
+  private async recordLoadedRequest(stats: ResourceBlockStats, request: Request): Promise<void> {
+    try {
+      const sizes = await request.sizes();
+      const timing = request.timing();
+
+      stats.loadedRequests++;
+      stats.loadedBytes += sizes.responseHeadersSize + sizes.responseBodySize;
+      if (timing.responseStart >= 0 && timing.responseEnd >= timing.responseStart) {
+        stats.downloadMs += timing.responseEnd - timing.responseStart;
+      }
+    } catch {
+      // 컨텍스트 종료 중 완료된 요청은 크기를 조회할 수 없으므로 무시
     }
-    return this.browser;
+  }
+
+  /**
+   * 리소스 차단 요약 로그
+   */
+  private logResourceBlockSummary(name: string, stats: ResourceBlockStats): void {
+    const labels: Record<BlockedCategory, string> = {
+      image: '이미지',
+      media: '미디어',
+      font: '폰트',
+      analytics: '분석',
+    };
+    const categories = Object.keys(labels) as BlockedCategory[];
+    const total = categories.reduce((sum, category) => sum + stats.blocked[category], 0);
+    const { bytes, ms } = estimateSavings(stats);
+
+    this.logger.log(
+      `[${name}] 리소스 차단 요약: 차단 ${total}건 (${categories
+        .map((category) => `${labels[category]} ${stats.blocked[category]}`)
+        .join(', ')}), ` +
+        `로드 ${stats.loadedRequests}건 ${formatMegabytes(stats.loadedBytes)}, ` +
+        `추정 절감 ${formatMegabytes(bytes)} / 약 ${(ms / 1000).toFixed(1)}초`,
+    );
   }
 
   /**
@@ -104,19 +228,30 @@ export class PlaywrightService {
    * - 독립적인 세션 관리 (쿠키, 로그인 상태 등 격리)
    * - 기본 뷰포트 및 User-Agent 설정
    * - 세션 복원 지원
+   * - 브라우저 풀에서 리스를 받아 생성 (context.close() 시 반환되므로 사용 후 반드시 닫을 것)
+   * - harName 지정 시 PLAYWRIGHT_HAR_MODE에 따라 HAR 기록/재생
+   * - crawlPolicy 지정 시 해당 도메인 이동에 크롤링 정책 적용
+   *   (HAR 재생 모드는 실제 사이트에 접속하지 않으므로 적용하지 않음)
+   * - crawlProfile 지정 시 경량 컨텍스트로 생성 (서비스 워커 차단, 불필요한 리소스 차단)
+   * - trace 지정 시 Playwright 트레이스 기록 (실패 시 captureFailure로 저장)
    */
   async createContext(options?: {
     viewport?: { width: number; height: number };
     userAgent?: string;
     useSession?: boolean;
+    harName?: string; // HAR 파일 이름 (예: 크롤링 소스 이름)
+    crawlPolicy?: { domain: string; policy: CrawlPolicy }; // 정책을 적용할 호스트와 정책
+    crawlProfile?: { name: string; profile: CrawlProfile }; // 요약 로그 이름과 리소스 차단 설정
+    holder?: string; // 브라우저 리스 사용자 이름 (기본값: harName 또는 "context")
+    trace?: boolean; // 실패 아티팩트용 트레이스 기록 여부
   }): Promise<BrowserContext> {
-    const browser = await this.getBrowser();
-
     const contextOptions: any = {
       viewport: options?.viewport || { width: 1920, height: 1080 },
       userAgent:
         options?.userAgent ||
         'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
+      // 서비스 워커 요청은 컨텍스트 라우팅을 거치지 않으므로 크롤링 시 차단
+      serviceWorkers: options?.crawlProfile ? 'block' : 'allow',
     };
 
     // 세션 복원 옵션이 true이고 세션 파일이 존재하면 로드
@@ -125,7 +260,63 @@ export class PlaywrightService {
       contextOptions.storageState = this.loadSession();
     }
 
-    return await browser.newContext(contextOptions);
+    // 컨텍스트가 살아 있는 동안 브라우저가 닫히지 않도록 리스를 받고, 컨텍스트를 닫으면 반환
+    const lease = await this.browserPool.acquire(options?.holder ?? options?.harName ?? 'context');
+    let context: BrowserContext;
+    try {
+      context = await lease.browser.newContext(contextOptions);
+    } catch (error) {
+      await this.browserPool.release(lease);
+      throw error;
+    }
+    context.on('close', () => void this.browserPool.release(lease));
+
+    try {
+      if (options?.trace) {
+        await this.failureArtifactService.startTracing(context);
+      }
+
+      if (options?.harName) {
+        await this.applyHar(context, options.harName);
+      }
+
+      // HAR 라우트보다 나중에 등록해야 정책 검사가 먼저 실행됨 (검사 후 fallback으로 HAR에 전달)
+      if (options?.crawlPolicy && this.getHarMode() !== 'replay') {
+        const { domain, policy } = options.crawlPolicy;
+        await this.crawlPolicyService.apply(context, domain, policy);
+      }
+
+      // 가장 나중에 등록하여 차단 대상은 정책 대기/HAR 조회 없이 바로 중단
+      if (options?.crawlProfile?.profile.blockResources) {
+        const { name, profile } = options.crawlProfile;
+        await this.applyResourceBlocking(context, name, profile);
+      }
+    } catch (error) {
+      await context.close();
+      throw error;
+    }
+
+    return context;
+  }
+
+  /**
+   * 컨텍스트에 새 페이지 생성
+   *
+   * - 크롤링 정책이 적용된 컨텍스트는 도메인별 동시 페이지 수를 넘지 않도록 대기
+   * - 페이지를 닫으면 슬롯 반환
+   */
+  async newPage(context: BrowserContext): Promise<Page> {
+    return await this.crawlPolicyService.openPage(context);
+  }
+
+  /**
+   * 클라이언트 라우팅(SPA 페이지 전환) 전 크롤링 정책 대기
+   *
+   * - 문서 이동(page.goto)은 라우트에서 자동으로 검사하므로 호출하지 않아도 됨
+   * - 회로가 차단된 도메인이면 예외 발생
+   */
+  async waitForNavigationTurn(page: Page): Promise<void> {
+    await this.crawlPolicyService.waitForTurn(page);
   }
 
   /**
@@ -139,6 +330,8 @@ export class PlaywrightService {
     viewport?: { width: number; height: number };
     userAgent?: string;
     useSession?: boolean;
+    holder?: string;
+    trace?: boolean;
   }): Promise<{ page: Page; context: BrowserContext }> {
     const context = await this.createContext(options);
     const page = await context.newPage();
@@ -153,6 +346,30 @@ export class PlaywrightService {
     return { page, context };
   }
 
+  /**
+   * 실패 아티팩트 저장 (열린 페이지의 스크린샷/HTML, 트레이스)
+   *
+   * - 컨텍스트를 닫기 전에 호출 (오류를 던지지 않으므로 catch 블록에서 바로 사용 가능)
+   * - artifactDir: 실행별 디렉토리 (getArtifactDir, 예: "crawl-runs/12")
+   *
+   * @returns 실행별 디렉토리에 저장된 아티팩트 목록
+   */
+  async captureFailure(
+    context: BrowserContext,
+    pages: Page[],
+    artifactDir: string,
+    label: string,
+  ): Promise<FailureArtifactFile[]> {
+    return await this.failureArtifactService.captureFailure(context, pages, artifactDir, label);
+  }
+
+  /**
+   * 개별 항목 처리 실패 시 페이지 스크린샷/HTML 저장 (크롤링은 계속 진행하는 경우)
+   */
+  async captureFailurePage(page: Page, artifactDir: string, label: string): Promise<void> {
+    await this.failureArtifactService.capturePage(page, artifactDir, label);
+  }
+
   /**
    * 세션 저장 (외부에서 호출 가능)
    *
@@ -189,20 +406,9 @@ export class PlaywrightService {
   }
 
   /**
-   * 브라우저 인스턴스 종료
-   */
-  async closeBrowser(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-      this.logger.log('브라우저 종료');
-    }
-  }
-
-  /**
-   * 애플리케이션 종료 시 자동으로 브라우저 종료
+   * 브라우저 풀 상태 조회 (브라우저별 사용 중인 리스, 메모리)
    */
-  async onModuleDestroy() {
-    await this.closeBrowser();
+  async getBrowserPoolStatus(): Promise<BrowserPoolStatus> {
+    return await this.browserPool.getStatus();
   }
 }
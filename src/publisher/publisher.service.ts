@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { Page } from 'playwright';
 import { PrismaService } from '@/prisma/prisma.service';
 import { PlaywrightService } from '@/playwright/playwright.service';
+import { getArtifactDir } from '@/playwright/failure-artifact.service';
 import { PostQueue, PostStatus } from '@prisma/client';
 
 /**
@@ -276,6 +277,7 @@ export class PublisherService {
    *
    * - 세션 파일이 없을 경우 로그인 수행
    * - 로그인 완료 후 세션 저장
+   * - 실패 시 스크린샷/HTML만 저장 (트레이스에는 입력한 비밀번호와 세션 쿠키가 남으므로 기록하지 않음)
    */
   async initSession(): Promise<void> {
     if (this.playwrightService.hasSession()) {
@@ -284,7 +286,7 @@ export class PublisherService {
     }
 
     this.logger.log('세션 초기화 시작...');
-    const { page, context } = await this.playwrightService.createPage();
+    const { page, context } = await this.playwrightService.createPage({ holder: 'publisher' });
 
     try {
       // 티스토리 로그인
@@ -296,11 +298,16 @@ export class PublisherService {
       this.logger.log('세션 초기화 완료');
     } catch (error) {
       this.logger.error('세션 초기화 실패:', error);
+      await this.playwrightService.captureFailure(
+        context,
+        [page],
+        getArtifactDir('sessions', Date.now()),
+        'login',
+      );
       throw error;
     } finally {
       await page.close();
-      await context.close();
-      await this.playwrightService.closeBrowser();
+      await context.close(); // 브라우저 리스 반환 (크롤링 중인 브라우저는 닫지 않음)
     }
   }
 
@@ -351,6 +358,9 @@ export class PublisherService {
    * - 세션 파일이 없으면 로그인 후 세션 저장
    * - 세션 만료 감지 시 자동 재로그인
    * - NEW_POST: 신규 작성 / REVISION: 기존 글 수정
+   * - 실패 시 스크린샷/HTML을 시도별 디렉토리(posts/<ID>-<실패 시각 타임스탬프>)에 저장하고
+   *   (로그인/세션 쿠키가 기록되지 않도록 트레이스는 남기지 않음)
+   *   다운로드 경로를 failureLog에 함께 기록
    */
   async publishSinglePost(post: PostQueue): Promise<void> {
     // 세션 파일 존재 여부 확인
@@ -366,6 +376,7 @@ export class PublisherService {
     // 세션 복원 옵션을 포함하여 페이지 생성
     const { page, context } = await this.playwrightService.createPage({
       useSession: hasSession,
+      holder: 'publisher',
     });
 
     try {
@@ -448,6 +459,19 @@ export class PublisherService {
     } catch (error) {
       this.logger.error(`포스트 ${isRevision ? '수정' : '발행'} 실패 ID ${post.id}:`, error);
 
+      // 세션 삭제/재시도 전에 실패 시점 화면 저장
+      const artifacts = await this.playwrightService.captureFailure(
+        context,
+        [page],
+        getArtifactDir('posts', `${post.id}-${Date.now()}`),
+        'publish',
+      );
+      const message = (error as Error).message;
+      const failureLog =
+        artifacts.length > 0
+          ? `${message}\n\n실패 아티팩트:\n${artifacts.map((file) => `- ${file.url}`).join('\n')}`
+          : message;
+
       // 세션 관련 오류인 경우 세션 삭제
       if (error.message.includes('로그인') || error.message.includes('인증')) {
         this.logger.warn('세션 오류 감지, 세션 파일 삭제...');
@@ -455,17 +479,12 @@ export class PublisherService {
       }
 
       // 실패 로그와 함께 데이터베이스 업데이트
-      await this.updatePostStatus(
-        post.id,
-        post.retryCount >= 3 ? 'FAILED' : 'PENDING',
-        error.message,
-      );
+      await this.updatePostStatus(post.id, post.retryCount >= 3 ? 'FAILED' : 'PENDING', failureLog);
 
       throw error;
     } finally {
       await page.close();
-      await context.close();
-      await this.playwrightService.closeBrowser();
+      await context.close(); // 브라우저 리스 반환 (크롤링 중인 브라우저는 닫지 않음)
     }
   }
 
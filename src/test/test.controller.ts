@@ -1,5 +1,21 @@
-import { Controller, Post, Get, Query, Logger } from '@nestjs/common';
-import { TestService, CrawlerTestResult, AnalyzerTestResult } from './test.service';
+import {
+  Controller,
+  Post,
+  Get,
+  Query,
+  Logger,
+  Param,
+  NotFoundException,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  TestService,
+  CrawlerTestResult,
+  AnalyzerTestResult,
+  CrawlerSourceInfo,
+} from './test.service';
+import { BrowserPoolStatus } from '@/playwright/browser-pool.service';
+import { FailureArtifactFile } from '@/playwright/failure-artifact.service';
 
 /**
  * 테스트 컨트롤러: 크롤러 기능을 HTTP 요청으로 테스트
@@ -9,7 +25,9 @@ import { TestService, CrawlerTestResult, AnalyzerTestResult } from './test.servi
  * 사용 예:
  * - POST http://localhost:3000/test/run-crawler
  * - POST http://localhost:3000/test/run-crawler?useDemo=false (실제 크롤링)
+ * - POST http://localhost:3000/test/run-crawler?useDemo=false&source=uplus (특정 소스만 크롤링)
  * - GET http://localhost:3000/test/status
+ * - GET http://localhost:3000/test/artifacts/crawl-runs/12/trace.zip
  */
 @Controller('test')
 export class TestController {
@@ -22,20 +40,33 @@ export class TestController {
    *
    * POST /test/run-crawler
    * POST /test/run-crawler?useDemo=false (실제 크롤링)
+   * POST /test/run-crawler?useDemo=false&source=moyoplan,uplus (지정한 소스만 크롤링)
    *
    * 크롤러를 실행하고 결과를 JSON으로 반환합니다.
    *
    * @param useDemo 쿼리 파라미터 (기본값: 'true')
+   * @param source 크롤링할 소스 이름 (쉼표 구분, 기본값: 활성화된 모든 소스)
    * @returns 크롤링 결과 및 DB Upsert 정보
    */
   @Post('run-crawler')
-  async runCrawler(@Query('useDemo') useDemo?: string): Promise<CrawlerTestResult> {
+  async runCrawler(
+    @Query('useDemo') useDemo?: string,
+    @Query('source') source?: string,
+  ): Promise<CrawlerTestResult> {
     // 쿼리 파라미터를 boolean으로 변환 (기본값: true)
     const useDemoMode = useDemo === 'false' ? false : true;
 
-    this.logger.log(`크롤러 테스트 요청 수신 (더미 모드: ${useDemoMode ? 'ON' : 'OFF'})`);
+    // 소스 이름 목록 파싱 (예: "moyoplan,uplus")
+    const sourceNames = source
+      ?.split(',')
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
 
-    const result = await this.testService.runCrawlerTest(useDemoMode);
+    this.logger.log(
+      `크롤러 테스트 요청 수신 (더미 모드: ${useDemoMode ? 'ON' : 'OFF'}, 소스: ${sourceNames?.join(', ') || '전체'})`,
+    );
+
+    const result = await this.testService.runCrawlerTest(useDemoMode, sourceNames);
 
     this.logger.log(`크롤러 테스트 응답: ${result.message}`);
 
@@ -62,6 +93,88 @@ export class TestController {
     return result;
   }
 
+  /**
+   * 크롤링 소스 목록 조회 엔드포인트
+   *
+   * GET /test/crawler-sources
+   *
+   * CrawlerModule에 등록된 크롤링 소스와 활성화 여부를 반환합니다.
+   *
+   * @returns 등록된 크롤링 소스 목록
+   */
+  @Get('crawler-sources')
+  getCrawlerSources(): CrawlerSourceInfo[] {
+    return this.testService.getCrawlerSources();
+  }
+
+  /**
+   * 브라우저 풀 상태 조회 엔드포인트
+   *
+   * GET /test/browser-pool
+   *
+   * 실행 중인 브라우저와 리스를 가진 사용자(크롤링 소스, 퍼블리셔)를 반환합니다.
+   *
+   * @returns 브라우저 풀 상태
+   */
+  @Get('browser-pool')
+  async getBrowserPoolStatus(): Promise<BrowserPoolStatus> {
+    return await this.testService.getBrowserPoolStatus();
+  }
+
+  /**
+   * 실패 아티팩트 목록 조회 엔드포인트
+   *
+   * GET /test/artifacts/:kind/:key
+   *
+   * 크롤링 실행(CrawlRun.artifactDir) 또는 포스트 발행 시도(PostQueue.failureLog)에
+   * 기록된 디렉토리의 스크린샷/HTML/트레이스 목록을 반환합니다.
+   *
+   * @param kind 아티팩트 종류 (crawl-runs, posts, sessions)
+   * @param key 실행 키 (예: CrawlRun ID "12", 포스트 발행 시도 "5-1762560000000")
+   * @returns 아티팩트 목록 (다운로드 경로 포함)
+   */
+  @Get('artifacts/:kind/:key')
+  listFailureArtifacts(
+    @Param('kind') kind: string,
+    @Param('key') key: string,
+  ): FailureArtifactFile[] {
+    const files = this.testService.listFailureArtifacts(kind, key);
+
+    if (!files) {
+      throw new NotFoundException(`실패 아티팩트를 찾을 수 없습니다 (${kind}/${key})`);
+    }
+
+    return files;
+  }
+
+  /**
+   * 실패 아티팩트 다운로드 엔드포인트
+   *
+   * GET /test/artifacts/:kind/:key/:file
+   *
+   * 트레이스는 `npx playwright show-trace trace.zip` 또는 trace.playwright.dev에서 열 수 있습니다.
+   * (크롤링 실행만 트레이스를 기록하며, 로그인/발행(sessions, posts)은 스크린샷/HTML만 저장)
+   *
+   * @param file 파일 이름 (예: "crawl-page-1.png", "publish-page-1.html", "trace.zip")
+   * @returns 파일 (첨부 파일로 다운로드)
+   */
+  @Get('artifacts/:kind/:key/:file')
+  downloadFailureArtifact(
+    @Param('kind') kind: string,
+    @Param('key') key: string,
+    @Param('file') file: string,
+  ): StreamableFile {
+    this.logger.log(`실패 아티팩트 다운로드 요청 수신 (${kind}/${key}/${file})`);
+
+    const stream = this.testService.getFailureArtifact(kind, key, file);
+
+    if (!stream) {
+      throw new NotFoundException(`실패 아티팩트를 찾을 수 없습니다 (${kind}/${key}/${file})`);
+    }
+
+    return stream;
+  }
+
   /**
    * Gemini 일괄 분석 테스트 엔드포인트
    *
@@ -181,6 +294,38 @@ export class TestController {
           description: '크롤러 실행 (실제 크롤링)',
           example: 'POST http://localhost:3000/test/run-crawler?useDemo=false',
         },
+        {
+          method: 'POST',
+          path: '/test/run-crawler?useDemo=false&source=uplus',
+          description: '크롤러 실행 (지정한 소스만 실제 크롤링, 쉼표로 여러 개 지정 가능)',
+          example: 'POST http://localhost:3000/test/run-crawler?useDemo=false&source=moyoplan',
+        },
+        {
+          method: 'GET',
+          path: '/test/crawler-sources',
+          description: '등록된 크롤링 소스 목록 조회',
+          example: 'GET http://localhost:3000/test/crawler-sources',
+        },
+        {
+          method: 'GET',
+          path: '/test/browser-pool',
+          description: '브라우저 풀 상태 조회 (사용 중인 리스, 메모리)',
+          example: 'GET http://localhost:3000/test/browser-pool',
+        },
+        {
+          method: 'GET',
+          path: '/test/artifacts/:kind/:key',
+          description:
+            '실패 아티팩트 목록 조회 (crawl-runs/<Run ID>, posts/<Post ID>-<타임스탬프>)',
+          example: 'GET http://localhost:3000/test/artifacts/crawl-runs/12',
+        },
+        {
+          method: 'GET',
+          path: '/test/artifacts/:kind/:key/:file',
+          description: '실패 아티팩트 다운로드 (스크린샷, 페이지 HTML, Playwright 트레이스)',
+          example:
+            'GET http://localhost:3000/test/artifacts/posts/5-1762560000000/publish-page-1.png',
+        },
         {
           method: 'POST',
           path: '/test/run-crawler-uplus',
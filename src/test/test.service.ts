@@ -1,8 +1,17 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, StreamableFile } from '@nestjs/common';
+import * as fs from 'fs';
 import { CrawlerService } from '@/crawler/crawler.service';
 import { AnalyzerService } from '@/analyzer/analyzer.service';
 import { PublisherService } from '@/publisher/publisher.service';
 import { PrismaService } from '@/prisma/prisma.service';
+import { PlaywrightService } from '@/playwright/playwright.service';
+import { BrowserPoolStatus } from '@/playwright/browser-pool.service';
+import {
+  FailureArtifactFile,
+  FailureArtifactService,
+  getArtifactContentType,
+  toArtifactPath,
+} from '@/playwright/failure-artifact.service';
 import { RawPlan } from '@prisma/client';
 
 /**
@@ -23,6 +32,16 @@ export interface CrawlerTestResult {
   message: string;
 }
 
+/**
+ * 크롤링 소스 정보 인터페이스
+ */
+export interface CrawlerSourceInfo {
+  name: string;
+  label: string;
+  enabled: boolean;
+  targetUrl: string;
+}
+
 /**
  * Gemini 분석 테스트 결과 인터페이스
  */
@@ -52,23 +71,29 @@ export class TestService {
     private readonly analyzerService: AnalyzerService,
     private readonly publisherService: PublisherService,
     private readonly prisma: PrismaService,
+    private readonly playwrightService: PlaywrightService,
+    private readonly failureArtifactService: FailureArtifactService,
   ) {}
 
   /**
    * 크롤러 테스트 실행
    *
-   * CrawlerService.runCrawlAndDetect()를 호출하여 크롤링을 수행하고,
+   * CrawlerService.crawlAndSavePlans()를 호출하여 크롤링을 수행하고,
    * 결과를 간결한 JSON 형태로 변환하여 반환합니다.
    *
    * @param useDemo true면 더미 데이터 사용, false면 실제 크롤링 (기본값: true)
+   * @param sourceNames 크롤링할 소스 이름 배열 (기본값: 활성화된 모든 소스)
    * @returns 크롤러 테스트 결과 객체
    */
-  async runCrawlerTest(useDemo = true): Promise<CrawlerTestResult> {
+  async runCrawlerTest(useDemo = true, sourceNames?: string[]): Promise<CrawlerTestResult> {
     try {
       this.logger.log(`크롤러 테스트 시작 (모드: ${useDemo ? '더미 데이터' : '실제 크롤링'})`);
 
       // 크롤러 서비스 호출
-      const crawledPlans: RawPlan[] = await this.crawlerService.runCrawlAndDetect(useDemo);
+      const crawledPlans: RawPlan[] = await this.crawlerService.crawlAndSavePlans(
+        useDemo,
+        sourceNames,
+      );
 
       const result: CrawlerTestResult = {
         success: true,
@@ -95,6 +120,69 @@ export class TestService {
     }
   }
 
+  /**
+   * 등록된 크롤링 소스 목록 조회
+   *
+   * @returns 소스 이름, 표시 이름, 활성화 여부, 대상 URL
+   */
+  getCrawlerSources(): CrawlerSourceInfo[] {
+    return this.crawlerService.getSources().map((source) => {
+      const config = source.getConfig();
+      return {
+        name: source.name,
+        label: source.label,
+        enabled: config.enabled,
+        targetUrl: config.targetUrl,
+      };
+    });
+  }
+
+  /**
+   * 브라우저 풀 상태 조회
+   *
+   * @returns 브라우저별 사용 중인 리스(크롤러/퍼블리셔), 누적 사용 횟수, 메모리
+   */
+  async getBrowserPoolStatus(): Promise<BrowserPoolStatus> {
+    return await this.playwrightService.getBrowserPoolStatus();
+  }
+
+  /**
+   * 실행별 실패 아티팩트 목록 조회
+   *
+   * @param kind 아티팩트 종류 (crawl-runs, posts, sessions)
+   * @param key 실행 키 (예: CrawlRun ID, "<PostQueue ID>-<타임스탬프>")
+   * @returns 아티팩트 목록 (잘못된 경로이거나 저장된 아티팩트가 없으면 null)
+   */
+  listFailureArtifacts(kind: string, key: string): FailureArtifactFile[] | null {
+    const artifactDir = toArtifactPath(kind, key);
+    if (!artifactDir) {
+      return null;
+    }
+
+    const files = this.failureArtifactService.list(artifactDir);
+    return files.length > 0 ? files : null;
+  }
+
+  /**
+   * 실패 아티팩트 파일 다운로드 스트림
+   *
+   * 수집한 페이지 HTML이 브라우저에서 바로 실행되지 않도록 항상 첨부 파일로 내려보냅니다.
+   *
+   * @returns 파일 스트림 (잘못된 경로이거나 파일이 없으면 null)
+   */
+  getFailureArtifact(kind: string, key: string, file: string): StreamableFile | null {
+    const filePath = this.failureArtifactService.resolveFile(kind, key, file);
+    if (!filePath) {
+      return null;
+    }
+
+    return new StreamableFile(fs.createReadStream(filePath), {
+      type: getArtifactContentType(file),
+      disposition: `attachment; filename="${file}"`,
+      length: fs.statSync(filePath).size,
+    });
+  }
+
   /**
    * U+ 알뜰폰 크롤러 테스트 실행
    *
@@ -107,9 +195,7 @@ export class TestService {
       this.logger.log('U+ 알뜰폰 크롤러 테스트 시작');
 
       // U+ 알뜰폰만 크롤링
-      const crawledPlans: RawPlan[] = await this.crawlerService.crawlAndSavePlans(false, [
-        'uplus',
-      ]);
+      const crawledPlans: RawPlan[] = await this.crawlerService.crawlAndSavePlans(false, ['uplus']);
 
       const result: CrawlerTestResult = {
         success: true,
@@ -147,10 +233,8 @@ export class TestService {
     try {
       this.logger.log(`Gemini 일괄 분석 테스트 시작`);
 
-      // 모든 요금제 조회
-      const plans = await this.prisma.rawPlan.findMany({
-        orderBy: { pricePromo: 'asc' },
-      });
+      // 판매 중인 모든 요금제 조회
+      const plans = await this.analyzerService.getAllPlans();
 
       if (plans.length === 0) {
         return {
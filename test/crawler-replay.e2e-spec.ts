@@ -0,0 +1,69 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import { BrowserPoolService } from '@/playwright/browser-pool.service';
+import { CrawlPolicyService } from '@/playwright/crawl-policy.service';
+import { FailureArtifactService, getArtifactDir } from '@/playwright/failure-artifact.service';
+import { PlaywrightService } from '@/playwright/playwright.service';
+import { SelectorProfileService } from '@/crawler/selector-profile.service';
+import { CrawlerSource, CrawlStats } from '@/crawler/crawler.types';
+import { MoyoplanSource } from '@/crawler/sources/moyoplan.source';
+import { UplusSource } from '@/crawler/sources/uplus.source';
+
+/**
+ * 크롤러 리플레이 테스트 (pnpm test:replay)
+ *
+ * test/fixtures/har/<source>.har에 저장된 응답으로 실제 크롤러를 실행하여
+ * 셀렉터/파서 회귀를 배포 전에 확인합니다. HAR 파일이 없는 소스는 건너뜁니다.
+ *
+ * 저장소의 HAR는 목록 1페이지(카드 3개)만 남긴 축약본입니다. 사이트 구조가 바뀌어 셀렉터 프로필을 고치면
+ * PLAYWRIGHT_HAR_MODE=record로 앱을 실행한 뒤 POST /test/run-crawler?useDemo=false&source=<source>를
+ * 호출하여 다시 기록하고, 목록 페이지 응답만 남겨 교체합니다.
+ */
+describe('Crawler replay (e2e)', () => {
+  const config = new ConfigService({ PLAYWRIGHT_HAR_MODE: 'replay' });
+  const browserPool = new BrowserPoolService(config);
+  const playwrightService = new PlaywrightService(
+    config,
+    new CrawlPolicyService(),
+    browserPool,
+    new FailureArtifactService(config),
+  );
+  const selectorProfileService = new SelectorProfileService(config);
+
+  const sources: CrawlerSource[] = [
+    new MoyoplanSource(config, playwrightService),
+    new UplusSource(config, playwrightService),
+  ];
+
+  afterAll(async () => {
+    await browserPool.closeAll();
+  });
+
+  for (const source of sources) {
+    const harPath = playwrightService.getHarPath(source.name);
+
+    it.skipIf(!fs.existsSync(harPath))(
+      `${source.name}: HAR 응답에서 요금제를 파싱한다`,
+      async () => {
+        const profile = selectorProfileService.load(source.name, source.selectorKeys);
+        const stats: CrawlStats = { pagesVisited: 0, cardsFound: 0, parseErrors: 0 };
+
+        const artifactDir = getArtifactDir('crawl-runs', `replay-${source.name}`);
+        const cards = await source.crawl(stats, profile, artifactDir);
+        const plans = cards.map((card) => source.parse(card)).filter((plan) => plan !== null);
+
+        expect(stats.cardsFound).toBeGreaterThan(0);
+        expect(plans.length).toBeGreaterThan(0);
+        expect((stats.cardsFound - plans.length) / stats.cardsFound).toBeLessThan(0.1);
+
+        for (const plan of plans) {
+          expect(plan.sourceSite).toBe(source.name);
+          expect(plan.planName.length).toBeGreaterThan(0);
+          expect(plan.mvno).not.toBe('Unknown');
+          expect(plan.pricePromo).toBeGreaterThanOrEqual(0);
+        }
+      },
+      300000,
+    );
+  }
+});